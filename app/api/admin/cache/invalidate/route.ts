@@ -0,0 +1,81 @@
+/**
+ * Server-side API route for invalidating a gallery's cache (admin only)
+ *
+ * Deletes the cache keys recorded in one gallery's key index - never a wildcard scan - and
+ * bypasses the public refresh throttle.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dataOrchestrator } from "@/lib/data/orchestrator/data-orchestrator";
+import { GALLERY_TYPES, GalleryType, isValidCacheIdentifier } from "@/lib/data/types/gallery-types";
+import { getAvailableNetworks, resolveNetworkParam } from "@/lib/data/config/networks";
+import { verifyAdminRequest } from "@/lib/data/utils/admin-auth";
+
+/**
+ * POST /api/admin/cache/invalidate
+ *
+ * Body:
+ * - galleryType: USER | CURATION | COLLECTION | ARTIST
+ * - identifier: Wallet address, curation ID or contract address
+ * - network: Tezos network - mainnet | ghostnet | custom (default: mainnet)
+ */
+export async function POST(request: NextRequest) {
+    const auth = verifyAdminRequest(request.headers);
+    if (!auth.authorized) {
+        return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    let body: any;
+    try {
+        body = await request.json();
+    } catch {
+        body = null;
+    }
+
+    if (!body || typeof body !== "object") {
+        return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+    }
+
+    try {
+        const { galleryType, identifier } = body;
+        const network = resolveNetworkParam(body.network);
+
+        if (!GALLERY_TYPES.includes(galleryType)) {
+            return NextResponse.json(
+                { error: `galleryType must be one of: ${GALLERY_TYPES.join(", ")}` },
+                { status: 400 }
+            );
+        }
+
+        if (!identifier || typeof identifier !== "string") {
+            return NextResponse.json({ error: "Identifier parameter is required" }, { status: 400 });
+        }
+
+        if (!isValidCacheIdentifier(galleryType, identifier)) {
+            return NextResponse.json({ error: `Invalid ${galleryType} identifier` }, { status: 400 });
+        }
+
+        if (!network) {
+            return NextResponse.json(
+                { error: `Network parameter must be one of: ${getAvailableNetworks().join(", ")}` },
+                { status: 400 }
+            );
+        }
+
+        const deletedCount = await dataOrchestrator.invalidateGallery(galleryType as GalleryType, identifier, network);
+
+        return NextResponse.json({
+            success: true,
+            data: { galleryType, identifier, network, deletedCount },
+        });
+    } catch (error) {
+        console.error("Cache admin invalidate API error:", error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,83 @@
+/**
+ * Server-side API route for listing and inspecting cache keys (admin only)
+ *
+ * Lists keys in one namespace with their TTL, stored size and compression.
+ * Requires the CACHE_ADMIN_SECRET bearer token or a token signed with it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { cacheManager } from "@/lib/data/cache/cache-manager";
+import { CACHE_KEY_NAMESPACES, CacheKeyNamespace, networkScopedKey } from "@/lib/data/types/cache-types";
+import { getAvailableNetworks, resolveNetworkParam } from "@/lib/data/config/networks";
+import { verifyAdminRequest } from "@/lib/data/utils/admin-auth";
+
+const MAX_LIMIT = 500;
+
+/**
+ * GET /api/admin/cache/keys
+ *
+ * Query params:
+ * - namespace: Key namespace, e.g. tokens:user | tokens:curation | meta (required)
+ * - prefix: Only keys starting with this value after the namespace, e.g. an address (optional)
+ * - network: Tezos network - mainnet | ghostnet | custom (default: mainnet)
+ * - limit: Number of keys to inspect (default: 100, max: 500)
+ */
+export async function GET(request: NextRequest) {
+    const auth = verifyAdminRequest(request.headers);
+    if (!auth.authorized) {
+        return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    try {
+        const { searchParams } = new URL(request.url);
+        const namespace = searchParams.get("namespace");
+        const prefix = searchParams.get("prefix") || "";
+        const network = resolveNetworkParam(searchParams.get("network"));
+        const limit = parseInt(searchParams.get("limit") || "100");
+
+        if (!namespace || !CACHE_KEY_NAMESPACES.includes(namespace as CacheKeyNamespace)) {
+            return NextResponse.json(
+                { error: `Namespace parameter must be one of: ${CACHE_KEY_NAMESPACES.join(", ")}` },
+                { status: 400 }
+            );
+        }
+
+        if (/[*?[\]]/.test(prefix)) {
+            return NextResponse.json({ error: "Prefix parameter cannot contain wildcards" }, { status: 400 });
+        }
+
+        if (!network) {
+            return NextResponse.json(
+                { error: `Network parameter must be one of: ${getAvailableNetworks().join(", ")}` },
+                { status: 400 }
+            );
+        }
+
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+            return NextResponse.json({ error: `Limit parameter must be between 1 and ${MAX_LIMIT}` }, { status: 400 });
+        }
+
+        const keys = await cacheManager.listKeys(networkScopedKey(`${namespace}:${prefix}*`, network));
+        const entries = await cacheManager.inspectKeys(keys.slice(0, limit));
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                namespace,
+                network,
+                totalKeys: keys.length,
+                truncated: keys.length > limit,
+                keys: entries,
+            },
+        });
+    } catch (error) {
+        console.error("Cache admin keys API error:", error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,139 @@
+/**
+ * Server-side API route for editing the contract blacklist at runtime (admin only)
+ *
+ * Edits are stored with the filter rules in the cache backend and picked up by every
+ * instance within the rules refresh interval. Galleries are then served under the new
+ * filter hash, so they rebuild with the updated blacklist.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { filterRulesStore } from "@/lib/data/filters/filter-rules-store";
+import { isContractAddress } from "@/lib/data/config/filter-rules";
+import { verifyAdminRequest } from "@/lib/data/utils/admin-auth";
+
+/**
+ * Read and check the `contracts` array from a request body
+ */
+async function readContracts(request: NextRequest): Promise<{ contracts: string[] } | { error: string }> {
+    let body: any;
+    try {
+        body = await request.json();
+    } catch {
+        return { error: "Request body must be a JSON object" };
+    }
+
+    const contracts = body?.contracts;
+
+    if (!Array.isArray(contracts) || contracts.length === 0) {
+        return { error: "contracts must be a non-empty array of contract addresses" };
+    }
+
+    const invalid = contracts.find((address) => !isContractAddress(address));
+    if (invalid !== undefined) {
+        return { error: `Invalid contract address: ${invalid} (must start with KT1 and be 36 characters)` };
+    }
+
+    return { contracts };
+}
+
+/**
+ * GET /api/admin/filters/blacklist
+ *
+ * Returns the active blacklist, where the rules came from (stored | default) and the filter hash.
+ */
+export async function GET(request: NextRequest) {
+    const auth = verifyAdminRequest(request.headers);
+    if (!auth.authorized) {
+        return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    try {
+        const { rules, source, filterHash, loadedAt } = await filterRulesStore.getRules();
+
+        return NextResponse.json({
+            success: true,
+            data: { blacklistedContracts: rules.blacklistedContracts, source, filterHash, loadedAt },
+        });
+    } catch (error) {
+        console.error("Filter blacklist API error:", error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/admin/filters/blacklist
+ *
+ * Body:
+ * - contracts: Contract addresses (KT1...) to add to the blacklist
+ */
+export async function POST(request: NextRequest) {
+    const auth = verifyAdminRequest(request.headers);
+    if (!auth.authorized) {
+        return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    try {
+        const parsed = await readContracts(request);
+        if ("error" in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        const { rules, source, filterHash } = await filterRulesStore.addBlacklistedContracts(parsed.contracts);
+
+        return NextResponse.json({
+            success: true,
+            data: { blacklistedContracts: rules.blacklistedContracts, source, filterHash },
+        });
+    } catch (error) {
+        console.error("Filter blacklist API error:", error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/admin/filters/blacklist
+ *
+ * Body:
+ * - contracts: Contract addresses (KT1...) to remove from the blacklist
+ */
+export async function DELETE(request: NextRequest) {
+    const auth = verifyAdminRequest(request.headers);
+    if (!auth.authorized) {
+        return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    try {
+        const parsed = await readContracts(request);
+        if ("error" in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        const { rules, source, filterHash } = await filterRulesStore.removeBlacklistedContracts(parsed.contracts);
+
+        return NextResponse.json({
+            success: true,
+            data: { blacklistedContracts: rules.blacklistedContracts, source, filterHash },
+        });
+    } catch (error) {
+        console.error("Filter blacklist API error:", error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -1,37 +1,88 @@
 import { NextRequest, NextResponse } from "next/server";
 import { dataOrchestrator } from "@/lib/data/orchestrator/data-orchestrator";
+import { cacheManager } from "@/lib/data/cache/cache-manager";
+import { GALLERY_TYPES, GalleryType, isValidCacheIdentifier } from "@/lib/data/types/gallery-types";
+import { getAvailableNetworks, resolveNetworkParam } from "@/lib/data/config/networks";
 
 /**
  * Clear cache API endpoint
  * POST /api/cache/clear
  *
+ * Public refresh action - throttled per gallery and limited to that gallery's own keys.
+ * Use /api/admin/cache/invalidate to bypass the throttle.
+ *
  * Body:
- * - address: Tezos address to clear cache for
- * - clearAll: If true, clears ALL cache entries for the address (default: false)
+ * - galleryType: USER | CURATION | COLLECTION | ARTIST (default: USER)
+ * - identifier: Wallet address, curation ID or contract address
+ * - address: Alias for identifier (USER galleries)
+ * - clearAll: USER only - clear every filter/source variant, not just the current one (default: false)
+ * - network: Tezos network - mainnet | ghostnet | custom (default: mainnet)
  */
 export async function POST(request: NextRequest) {
+    let body: any;
+    try {
+        body = await request.json();
+    } catch {
+        body = null;
+    }
+
+    if (!body || typeof body !== "object") {
+        return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+    }
+
     try {
-        const body = await request.json();
-        const { address, clearAll = false } = body;
+        const { galleryType = "USER", clearAll = false } = body;
+        const rawIdentifier = body.identifier || body.address;
+        const identifier = typeof rawIdentifier === "string" ? rawIdentifier.trim() : rawIdentifier;
+        const network = resolveNetworkParam(body.network);
 
-        if (!address) {
-            return NextResponse.json({ error: "Address parameter is required" }, { status: 400 });
+        if (!GALLERY_TYPES.includes(galleryType)) {
+            return NextResponse.json(
+                { error: `galleryType must be one of: ${GALLERY_TYPES.join(", ")}` },
+                { status: 400 }
+            );
         }
 
-        console.log(`🗑️ Cache clear request for ${address} (clearAll: ${clearAll})`);
+        if (!identifier || typeof identifier !== "string") {
+            return NextResponse.json({ error: "Identifier parameter is required" }, { status: 400 });
+        }
 
-        if (clearAll) {
-            // Clear all cache entries for this address (recommended for filter changes)
-            await dataOrchestrator.clearAllCacheForAddress(address);
-        } else {
+        if (!isValidCacheIdentifier(galleryType, identifier)) {
+            return NextResponse.json({ error: `Invalid ${galleryType} identifier` }, { status: 400 });
+        }
+
+        if (!network) {
+            return NextResponse.json(
+                { error: `Network parameter must be one of: ${getAvailableNetworks().join(", ")}` },
+                { status: 400 }
+            );
+        }
+
+        const slot = await cacheManager.acquireRefreshSlot(galleryType as GalleryType, identifier, network);
+        if (!slot.allowed) {
+            return NextResponse.json(
+                { error: `Cache for ${identifier} was refreshed recently`, retryAfterSeconds: slot.retryAfterSeconds },
+                { status: 429, headers: { "Retry-After": String(slot.retryAfterSeconds) } }
+            );
+        }
+
+        console.log(`🗑️ Cache clear request for ${galleryType} ${identifier} (clearAll: ${clearAll})`);
+
+        let deletedCount: number | undefined;
+        if (galleryType === "USER" && !clearAll) {
             // Clear only current filter configuration cache
-            await dataOrchestrator.invalidateCache(address);
+            await dataOrchestrator.invalidateCache(identifier, network);
+        } else {
+            // Clear every cached variant of the gallery, including its metadata
+            deletedCount = await dataOrchestrator.invalidateGallery(galleryType as GalleryType, identifier, network);
         }
 
         return NextResponse.json({
             success: true,
-            message: `Cache cleared for ${address}`,
-            clearedAll: clearAll,
+            message: `Cache cleared for ${identifier}`,
+            galleryType,
+            clearedAll: galleryType !== "USER" || clearAll,
+            deletedCount,
         });
     } catch (error) {
         console.error("Cache clear error:", error);
@@ -0,0 +1,73 @@
+/**
+ * Server-side API route for cache observability (admin only)
+ *
+ * Combines the persisted daily usage stats (`stats:daily:*`) with this instance's
+ * in-process CacheStats and CompressionStats, plus the largest cached collections.
+ * Requires the CACHE_ADMIN_SECRET bearer token or a token signed with it - cache keys include wallet addresses.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { cacheManager } from "@/lib/data/cache/cache-manager";
+import { summarizeUsageStats } from "@/lib/data/cache/usage-stats";
+import { compressionStats } from "@/lib/data/utils/compression";
+import { verifyAdminRequest } from "@/lib/data/utils/admin-auth";
+
+const MAX_DAYS = 90;
+const MAX_TOP_KEYS = 100;
+
+/**
+ * GET /api/cache/stats
+ *
+ * Query params:
+ * - days: Number of days of persisted stats to aggregate (default: 7, max: 90)
+ * - top: Number of largest cache keys to list (default: 20, max: 100)
+ */
+export async function GET(request: NextRequest) {
+    const auth = verifyAdminRequest(request.headers);
+    if (!auth.authorized) {
+        return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    try {
+        const { searchParams } = new URL(request.url);
+        const days = parseInt(searchParams.get("days") || "7");
+        const top = parseInt(searchParams.get("top") || "20");
+
+        if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+            return NextResponse.json({ error: `Days parameter must be between 1 and ${MAX_DAYS}` }, { status: 400 });
+        }
+
+        if (!Number.isInteger(top) || top < 1 || top > MAX_TOP_KEYS) {
+            return NextResponse.json({ error: `Top parameter must be between 1 and ${MAX_TOP_KEYS}` }, { status: 400 });
+        }
+
+        const [daily, topKeys] = await Promise.all([
+            cacheManager.getUsageStats(days),
+            cacheManager.getTopKeysBySize(top),
+        ]);
+        const summary = summarizeUsageStats(daily);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                summary,
+                compressionByGalleryType: summary.byGalleryType,
+                daily,
+                topKeys,
+                instance: {
+                    cache: cacheManager.getStats(),
+                    compression: compressionStats.getStats(),
+                },
+            },
+        });
+    } catch (error) {
+        console.error("Cache stats API error:", error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            },
+            { status: 500 }
+        );
+    }
+}
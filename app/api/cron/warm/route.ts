@@ -0,0 +1,71 @@
+/**
+ * Server-side API route for scheduled cache warming
+ *
+ * Rebuilds featured and most-visited galleries whose cache entries are missing or about
+ * to expire. Meant to be triggered by a cron job with the CRON_SECRET bearer token.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { cacheWarmer } from "@/lib/data/orchestrator/cache-warmer";
+import { verifyCronRequest } from "@/lib/data/utils/admin-auth";
+
+export const maxDuration = 60;
+
+const MAX_BUDGET_MS = 55000;
+const MAX_GALLERIES = 100;
+
+/**
+ * GET /api/cron/warm
+ *
+ * Query params:
+ * - budgetMs: Time budget for the run, rebuilds included (default: 50000, max: 55000)
+ * - limit: Number of popular galleries to consider (default: 20, max: 100)
+ * - days: Days of visit counts used for ranking (default: 7, max: 90)
+ */
+export async function GET(request: NextRequest) {
+    const auth = verifyCronRequest(request.headers);
+    if (!auth.authorized) {
+        return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    try {
+        const { searchParams } = new URL(request.url);
+        const timeBudgetMs = parseInt(searchParams.get("budgetMs") || "50000");
+        const maxGalleries = parseInt(searchParams.get("limit") || "20");
+        const lookbackDays = parseInt(searchParams.get("days") || "7");
+
+        if (!Number.isInteger(timeBudgetMs) || timeBudgetMs < 0 || timeBudgetMs > MAX_BUDGET_MS) {
+            return NextResponse.json(
+                { error: `BudgetMs parameter must be between 0 and ${MAX_BUDGET_MS}` },
+                { status: 400 }
+            );
+        }
+
+        if (!Number.isInteger(maxGalleries) || maxGalleries < 1 || maxGalleries > MAX_GALLERIES) {
+            return NextResponse.json(
+                { error: `Limit parameter must be between 1 and ${MAX_GALLERIES}` },
+                { status: 400 }
+            );
+        }
+
+        if (!Number.isInteger(lookbackDays) || lookbackDays < 1 || lookbackDays > 90) {
+            return NextResponse.json({ error: "Days parameter must be between 1 and 90" }, { status: 400 });
+        }
+
+        const report = await cacheWarmer.warm({ timeBudgetMs, maxGalleries, lookbackDays });
+
+        return NextResponse.json({
+            success: true,
+            data: report,
+        });
+    } catch (error) {
+        console.error("Cache warming API error:", error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,53 @@
+/**
+ * Server-side API route for data layer health
+ *
+ * Reports each provider's status, latency, last error and circuit breaker state,
+ * plus cache availability. Provider results are persisted briefly in the cache.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dataOrchestrator } from "@/lib/data/orchestrator/data-orchestrator";
+import { getAvailableNetworks, resolveNetworkParam } from "@/lib/data/config/networks";
+
+/**
+ * GET /api/health
+ *
+ * Query params:
+ * - network: Tezos network - mainnet | ghostnet | custom (default: mainnet)
+ * - refresh: Check providers now instead of reusing recent results (default: false)
+ *
+ * Responds 200 when healthy or degraded, 503 when no provider can answer.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const network = resolveNetworkParam(searchParams.get("network"));
+        const refresh = searchParams.get("refresh") === "true";
+
+        if (!network) {
+            return NextResponse.json(
+                { error: `Network parameter must be one of: ${getAvailableNetworks().join(", ")}` },
+                { status: 400 }
+            );
+        }
+
+        const report = await dataOrchestrator.getHealthReport(network, refresh);
+
+        return NextResponse.json(
+            {
+                success: report.status !== "unhealthy",
+                data: report,
+            },
+            { status: report.status === "unhealthy" ? 503 : 200 }
+        );
+    } catch (error) {
+        console.error("Health API error:", error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -7,7 +7,13 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { dataOrchestrator } from "@/lib/data/orchestrator/data-orchestrator";
+import { dataOrchestrator, HOLDINGS_SOURCES, HoldingsSource } from "@/lib/data/orchestrator/data-orchestrator";
+import { cacheManager } from "@/lib/data/cache/cache-manager";
+import { getAvailableNetworks, resolveNetworkParam } from "@/lib/data/config/networks";
+import { parseFilterOverrides } from "@/lib/data/config/filter-rules";
+import { parseSortParams } from "@/lib/data/utils/token-sort";
+import { MAX_QUERY_LENGTH } from "@/lib/data/utils/token-search";
+import { parseGroupParam } from "@/lib/data/utils/token-group";
 
 /**
  * GET /api/user
@@ -16,7 +22,24 @@ import { dataOrchestrator } from "@/lib/data/orchestrator/data-orchestrator";
  * - address: Tezos address (wallet address)
  * - page: Page number (default: 1)
  * - pageSize: Items per page (default: 20)
- * - forceRefresh: Skip cache (default: false)
+ * - forceRefresh: Skip cache (default: false, throttled per gallery)
+ * - deltaRefresh: Merge balance changes since the cached block level instead of rebuilding (default: false,
+ *   throttled per gallery like forceRefresh)
+ * - source: Holdings source - auto | tzkt | objkt | merge (default: auto)
+ * - network: Tezos network - mainnet | ghostnet | custom (default: mainnet)
+ * - includeUtility: Override - keep fungible/utility tokens (true | false)
+ * - includeSpam: Override - keep tokens flagged as airdrop spam (true | false)
+ * - requireImage: Override - only show tokens with an image (true | false)
+ * - minBalance: Override - minimum balance a token must exceed
+ * - blacklist: Override - extra contracts to hide (comma-separated KT1 addresses)
+ * - whitelist: Override - only show these contracts (comma-separated KT1 addresses)
+ * - rules: Override - extra filter rules as JSON (a rule or an array of rules, see FilterRule)
+ * - includeHidden: Also return every token filtering removed, with the reason (default: false)
+ * - sort: Room order - default | acquisition | mint | creator | contract | name | editions | random
+ * - order: asc | desc (default: asc, ignored for random)
+ * - seed: Shuffle seed for sort=random (default: today's UTC date)
+ * - q: Search the whole gallery by name, description, tags, creators and contract - returns each match's room
+ * - group: Thematic rooms - none | artist | contract | tag (default: none, pagination.roomLabel names each room)
  */
 export async function GET(request: NextRequest) {
     try {
@@ -25,31 +48,91 @@ export async function GET(request: NextRequest) {
         const page = parseInt(searchParams.get("page") || "1");
         const pageSize = parseInt(searchParams.get("pageSize") || "20");
         const forceRefresh = searchParams.get("forceRefresh") === "true";
+        const deltaRefresh = searchParams.get("deltaRefresh") === "true";
+        const source = searchParams.get("source") || "auto";
+        const network = resolveNetworkParam(searchParams.get("network"));
+        const filters = parseFilterOverrides(searchParams);
+        const includeHidden = searchParams.get("includeHidden") === "true";
+        const sort = parseSortParams(searchParams);
+        const query = searchParams.get("q")?.trim() || undefined;
+        const group = parseGroupParam(searchParams);
 
         if (!address) {
             return NextResponse.json({ error: "Address parameter is required" }, { status: 400 });
         }
 
+        if (!HOLDINGS_SOURCES.includes(source as HoldingsSource)) {
+            return NextResponse.json(
+                { error: `Source parameter must be one of: ${HOLDINGS_SOURCES.join(", ")}` },
+                { status: 400 }
+            );
+        }
+
+        if (!network) {
+            return NextResponse.json(
+                { error: `Network parameter must be one of: ${getAvailableNetworks().join(", ")}` },
+                { status: 400 }
+            );
+        }
+
+        if (!filters.valid) {
+            return NextResponse.json({ error: filters.error }, { status: 400 });
+        }
+
+        if (!sort.valid) {
+            return NextResponse.json({ error: sort.error }, { status: 400 });
+        }
+
+        if (!group.valid) {
+            return NextResponse.json({ error: group.error }, { status: 400 });
+        }
+
+        if (query && query.length > MAX_QUERY_LENGTH) {
+            return NextResponse.json(
+                { error: `Search query must be at most ${MAX_QUERY_LENGTH} characters` },
+                { status: 400 }
+            );
+        }
+
+        // Forced and delta refreshes are throttled per gallery - requests inside the window are served from cache
+        const slot =
+            forceRefresh || deltaRefresh ? await cacheManager.acquireRefreshSlot("USER", address, network) : null;
+        const refresh = forceRefresh && !!slot?.allowed;
+
         // Use data orchestrator for cache-first USER gallery fetching
         const result = await dataOrchestrator.getTokenCollection({
             address,
             pagination: { page, pageSize },
-            forceRefresh,
+            forceRefresh: refresh,
+            deltaRefresh: deltaRefresh && !!slot?.allowed,
             applyFilters: true,
+            filterOverrides: filters.overrides,
+            includeHidden,
+            sort: sort.sort,
+            search: query,
+            group: group.group,
             cacheResults: true,
             sortChronologically: true,
+            holdingsSource: source as HoldingsSource,
+            network,
         });
 
+        cacheManager.recordVisit("USER", address, network);
+
         return NextResponse.json({
             success: true,
             data: {
                 tokens: result.tokens,
                 pagination: result.pagination,
+                hiddenTokens: result.hiddenTokens,
+                search: result.search,
                 cacheInfo: {
                     hit: result.cache.hit,
                     source: result.cache.source,
                     buildTimeMs: result.cache.buildTimeMs,
+                    retryAfterSeconds: slot && !slot.allowed ? slot.retryAfterSeconds : undefined,
                 },
+                dataSources: result.dataSources,
                 performance: {
                     totalTimeMs: result.performance.totalTimeMs,
                     fetchTimeMs: result.performance.fetchTimeMs,
@@ -0,0 +1,66 @@
+/**
+ * Server-side API route for USER gallery summaries
+ *
+ * Overview stats (token counts, standards, top contracts, metadata and image coverage, mint dates)
+ * of the filtered tokens the gallery shows, cached next to the gallery.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dataOrchestrator } from "@/lib/data/orchestrator/data-orchestrator";
+import { getAvailableNetworks, resolveNetworkParam } from "@/lib/data/config/networks";
+import { parseFilterOverrides } from "@/lib/data/config/filter-rules";
+
+/**
+ * GET /api/user/summary
+ *
+ * Query params:
+ * - address: Tezos address (wallet address)
+ * - network: Tezos network - mainnet | ghostnet | custom (default: mainnet)
+ * - includeUtility, includeSpam, requireImage, minBalance, blacklist, whitelist, rules: Filter overrides,
+ *   as on /api/user
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const address = searchParams.get("address");
+        const network = resolveNetworkParam(searchParams.get("network"));
+        const filters = parseFilterOverrides(searchParams);
+
+        if (!address) {
+            return NextResponse.json({ error: "Address parameter is required" }, { status: 400 });
+        }
+
+        if (!network) {
+            return NextResponse.json(
+                { error: `Network parameter must be one of: ${getAvailableNetworks().join(", ")}` },
+                { status: 400 }
+            );
+        }
+
+        if (!filters.valid) {
+            return NextResponse.json({ error: filters.error }, { status: 400 });
+        }
+
+        const result = await dataOrchestrator.getGallerySummary("USER", address, {
+            network,
+            filterOverrides: filters.overrides,
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                summary: result.summary,
+                cacheInfo: result.cache,
+            },
+        });
+    } catch (error) {
+        console.error("User gallery summary API error:", error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            },
+            { status: 500 }
+        );
+    }
+}
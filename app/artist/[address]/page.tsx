@@ -0,0 +1,19 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { notFound } from "next/navigation";
+import UnifiedGallery from "@/components/UnifiedGallery";
+
+export default function ArtistPage() {
+    const params = useParams();
+    const address = params.address as string;
+
+    // Validate artist address format (tz1, tz2, tz3)
+    const isValidArtist = /^(tz1|tz2|tz3)[a-zA-Z0-9]{33}$/.test(address);
+    if (!isValidArtist) {
+        notFound();
+    }
+
+    // UnifiedGallery fetches the tokens this address created based on the route
+    return <UnifiedGallery address={address} currentPage={1} isBasePage={true} enableDocumentTitle={true} />;
+}
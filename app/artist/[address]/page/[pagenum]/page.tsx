@@ -0,0 +1,25 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { notFound } from "next/navigation";
+import UnifiedGallery from "@/components/UnifiedGallery";
+
+export default function ArtistPageWithPagination() {
+    const params = useParams();
+    const address = params.address as string;
+    const pagenum = params.pagenum as string;
+
+    // Validate artist address format (tz1, tz2, tz3)
+    const isValidArtist = /^(tz1|tz2|tz3)[a-zA-Z0-9]{33}$/.test(address);
+    if (!isValidArtist) {
+        notFound();
+    }
+
+    // Validate and parse page number
+    const pageNumber = parseInt(pagenum, 10);
+    if (isNaN(pageNumber) || pageNumber < 1) {
+        notFound();
+    }
+
+    return <UnifiedGallery address={address} currentPage={pageNumber} isBasePage={false} enableDocumentTitle={true} />;
+}
@@ -2,10 +2,12 @@
 
 import { useParams, useRouter } from "next/navigation";
 import UnifiedGallery from "@/components/UnifiedGallery";
+import { useNetwork } from "@/hooks/use-network";
 
 export default function GalleryPageWithNumber() {
     const params = useParams();
     const router = useRouter();
+    const { withNetwork } = useNetwork();
     const address = params.address as string;
     const pagenum = params.pagenum as string;
 
@@ -14,7 +16,7 @@ export default function GalleryPageWithNumber() {
         const pageNumber = parseInt(pagenum);
         if (isNaN(pageNumber) || pageNumber <= 0) {
             // Invalid page number, redirect to page 1
-            router.replace(`/gallery/${address}`);
+            router.replace(withNetwork(`/gallery/${address}`));
             return 1;
         }
         return pageNumber;
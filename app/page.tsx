@@ -116,6 +116,14 @@ export default function HomePage() {
                         >
                             Collection contract
                         </button>
+                        <button
+                            onClick={() =>
+                                setInput("https://objkt.com/profile/tz1Qi77tcJn9foeHHP1QHj6UX1m1vLVLMbuY/created")
+                            }
+                            className="block text-gray-400 underline hover:text-white"
+                        >
+                            objkt.com artist profile
+                        </button>
                     </div>
                 </div>
             </div>
@@ -5,7 +5,7 @@ import { UnifiedToken } from "../lib/data/types/token-types";
 import GalleryRoom from "./gallery/GalleryRoom";
 import GalleryTitle from "./gallery-title";
 import GalleryControls from "./gallery/ui/GalleryControls";
-import RoomNavigation from "./gallery/ui/RoomNavigation";
+import RoomNavigation, { RoomSearchResult } from "./gallery/ui/RoomNavigation";
 import GalleryFooter from "./gallery/ui/GalleryFooter";
 import { useViewState } from "@/contexts/ViewStateContext";
 import LoadingAnimation from "./LoadingAnimation";
@@ -22,8 +22,14 @@ interface Gallery3DProps {
     currentRoom?: number;
     onRoomChange?: (roomNumber: number) => void;
     totalNFTs?: number; // Total NFTs in the collection for calculating total rooms
+    totalRooms?: number; // Room count when rooms vary in size (grouped galleries)
     // Layout coordination props to avoid UI overlaps
     topOffset?: number; // Offset from top to avoid overlapping with page headers
+    // Labelling for special rooms (e.g. hidden tokens)
+    captions?: Map<string, string>; // Token id -> caption shown under the frame
+    roomLabel?: string;
+    roomTheme?: string; // What the current room holds (grouped galleries)
+    onSearch?: (query: string) => Promise<RoomSearchResult[]>; // Full-text search across every room
 }
 
 const NFTS_PER_ROOM = 20;
@@ -38,7 +44,12 @@ export default function Gallery3D({
     currentRoom: initialRoom = 0,
     onRoomChange,
     totalNFTs = 0,
+    totalRooms: roomCount,
     topOffset = 0, // Default to no offset
+    captions,
+    roomLabel,
+    roomTheme,
+    onSearch,
 }: Gallery3DProps) {
     const [currentRoom, setCurrentRoom] = useState(initialRoom);
     const { cameraMode, setCameraMode } = useViewState();
@@ -48,8 +59,8 @@ export default function Gallery3D({
         setCurrentRoom(initialRoom);
     }, [initialRoom]);
 
-    // Calculate total rooms based on total NFTs in collection
-    const totalRooms = Math.max(1, Math.ceil(totalNFTs / NFTS_PER_ROOM));
+    // Calculate total rooms based on total NFTs in collection (grouped galleries pass their room count)
+    const totalRooms = Math.max(1, roomCount ?? Math.ceil(totalNFTs / NFTS_PER_ROOM));
     const currentRoomNFTs = nfts; // All NFTs passed are for the current room
 
     const handleNextRoom = useCallback(() => {
@@ -123,6 +134,9 @@ export default function Gallery3D({
                         onPrevRoom={handlePrevRoom}
                         preloadedTextures={preloadedTextures}
                         cameraMode={cameraMode}
+                        captions={captions}
+                        roomLabel={roomLabel}
+                        roomTheme={roomTheme}
                     />
                 </Suspense>
             </Canvas>
@@ -140,6 +154,7 @@ export default function Gallery3D({
                 onPrevRoom={handlePrevRoom}
                 onNextRoom={handleNextRoom}
                 onGoToRoom={onRoomChange}
+                onSearch={onSearch}
             />
 
             {/* Footer */}
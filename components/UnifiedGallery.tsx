@@ -4,14 +4,20 @@ import { useEffect, useState, Component } from "react";
 import { useRouter, usePathname } from "next/navigation";
 import dynamic from "next/dynamic";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, RefreshCw } from "lucide-react";
+import { ArrowLeft, Eye, EyeOff, Info, RefreshCw } from "lucide-react";
 import { useViewState } from "@/contexts/ViewStateContext";
 import { useTezosDomain } from "@/hooks/use-tezos-domain";
 import { useGalleryMetadata } from "@/hooks/use-gallery-metadata";
+import { useNetwork } from "@/hooks/use-network";
+import { useGallerySort } from "@/hooks/use-gallery-sort";
 import { collektClient } from "@/lib/data/sources/collekt-client";
-import { UnifiedToken } from "@/lib/data/types/token-types";
+import { ExcludedToken, UnifiedCollection, UnifiedToken } from "@/lib/data/types/token-types";
+import { sortKey } from "@/lib/data/utils/token-sort";
+import type { GalleryType } from "@/lib/data/types/gallery-types";
 import * as THREE from "three";
 import LoadingAnimation from "./LoadingAnimation";
+import type { RoomSearchResult } from "./gallery/ui/RoomNavigation";
+import CollectionSummaryPanel from "./gallery/ui/CollectionSummaryPanel";
 
 // Dynamically import Gallery3D with no SSR to prevent hydration issues
 const Gallery3D = dynamic(() => import("@/components/Gallery3D"), {
@@ -63,10 +69,12 @@ function Simple2DGallery({
     nfts,
     onNFTSelect,
     getImageUri,
+    captions,
 }: {
     nfts: UnifiedToken[];
     onNFTSelect: (nft: UnifiedToken) => void;
     getImageUri: (nft: UnifiedToken) => string | null;
+    captions?: Map<string, string>; // Token id -> caption shown under the name
 }) {
     const getIPFSUrl = (uri: string) => {
         if (uri.startsWith("ipfs://")) {
@@ -115,6 +123,9 @@ function Simple2DGallery({
                                     {nft.metadata?.name || `Token #${nft.tokenId}`}
                                 </h3>
                                 <p className="mt-1 text-xs text-gray-400">{nft.contractAddress.slice(0, 8)}...</p>
+                                {captions?.has(nft.id) && (
+                                    <p className="mt-1 text-xs text-amber-400">{captions.get(nft.id)}</p>
+                                )}
                             </div>
                         </div>
                     );
@@ -124,6 +135,35 @@ function Simple2DGallery({
     );
 }
 
+// Room groupings offered in the header
+const GROUP_OPTIONS = [
+    { value: "none", label: "No grouping" },
+    { value: "artist", label: "Rooms by artist" },
+    { value: "contract", label: "Rooms by contract" },
+    { value: "tag", label: "Rooms by tag" },
+];
+
+// Room orders offered in the header (value is `<sort>-<order>`, or a bare sort for default and random)
+const SORT_OPTIONS = [
+    { value: "default", label: "Default order" },
+    { value: "acquisition-desc", label: "Recently acquired" },
+    { value: "acquisition-asc", label: "First acquired" },
+    { value: "mint-desc", label: "Newest mints" },
+    { value: "mint-asc", label: "Oldest mints" },
+    { value: "creator-asc", label: "By artist" },
+    { value: "contract-asc", label: "By contract" },
+    { value: "name-asc", label: "By name" },
+    { value: "editions-asc", label: "Fewest editions" },
+    { value: "random", label: "Shuffle" },
+];
+
+// Header text for a refresh the server throttled
+function formatRefreshNotice(retryAfterSeconds?: number): string {
+    return retryAfterSeconds
+        ? `Refreshed recently - try again in ${retryAfterSeconds}s`
+        : "Refreshed recently - try again shortly";
+}
+
 interface UnifiedGalleryProps {
     address: string;
     currentPage: number;
@@ -139,6 +179,9 @@ export default function UnifiedGallery({
 }: UnifiedGalleryProps) {
     const router = useRouter();
     const pathname = usePathname();
+    const { network, withNetwork } = useNetwork();
+    const { sort, group, withSort } = useGallerySort();
+    const sortId = sortKey(sort); // Stable effect dependency for the sort object
     const { domain, isLoading: domainLoading, displayName } = useTezosDomain(address);
     const galleryMetadata = useGalleryMetadata(address, domain, displayName);
     const [nfts, setNfts] = useState<UnifiedToken[]>([]);
@@ -151,16 +194,30 @@ export default function UnifiedGallery({
     const [loadingProgress, setLoadingProgress] = useState<string>("Fetching NFTs...");
     const [preloadedTextures, setPreloadedTextures] = useState<Map<string, THREE.Texture>>(new Map());
     const [totalNFTs, setTotalNFTs] = useState<number>(0);
+    const [isTruncated, setIsTruncated] = useState(false); // A provider limit was reached - more works exist
+    const [totalRooms, setTotalRooms] = useState<number | undefined>(undefined); // Grouped rooms vary in size
+    const [roomTheme, setRoomTheme] = useState<string | undefined>(undefined); // What a grouped room holds
+    const [isUpdating, setIsUpdating] = useState(false); // Stale cache served while the server rebuilds it
+    const [refreshNotice, setRefreshNotice] = useState<string | null>(null); // Set when a refresh was throttled
+    const [showHidden, setShowHidden] = useState(false); // Show the tokens filtering removed instead of the gallery
+    const [hiddenTokens, setHiddenTokens] = useState<ExcludedToken[] | null>(null); // Fetched on first toggle
+    const [hiddenRoom, setHiddenRoom] = useState(0);
+    const [loadingHidden, setLoadingHidden] = useState(false);
+    const [showSummary, setShowSummary] = useState(false); // Collection stats panel
+    const [summary, setSummary] = useState<UnifiedCollection | null>(null); // Fetched on first open
+    const [loadingSummary, setLoadingSummary] = useState(false);
 
     // Use shared view state instead of local state
     const { cameraMode, setCameraMode } = useViewState();
 
     // Detect gallery type from current pathname
-    const getGalleryType = (): "USER" | "CURATION" | "COLLECTION" => {
+    const getGalleryType = (): GalleryType => {
         if (pathname.startsWith("/curation/")) {
             return "CURATION";
         } else if (pathname.startsWith("/collection/")) {
             return "COLLECTION";
+        } else if (pathname.startsWith("/artist/")) {
+            return "ARTIST";
         } else {
             return "USER";
         }
@@ -212,6 +269,15 @@ export default function UnifiedGallery({
         }
     }, []);
 
+    // Hidden tokens and stats belong to one gallery - fetch them again for the next one
+    useEffect(() => {
+        setShowHidden(false);
+        setHiddenTokens(null);
+        setHiddenRoom(0);
+        setShowSummary(false);
+        setSummary(null);
+    }, [address, galleryType, network]);
+
     // Update page title when metadata loads (only if enabled)
     useEffect(() => {
         if (enableDocumentTitle && !galleryMetadata.isLoading) {
@@ -227,31 +293,47 @@ export default function UnifiedGallery({
                 case "COLLECTION":
                     title = `${galleryMetadata.name} - NFT Collection`;
                     break;
+                case "ARTIST":
+                    title = `Works by ${galleryMetadata.name} - Artist Gallery`;
+                    break;
             }
 
             document.title = title;
         }
     }, [galleryMetadata, enableDocumentTitle]);
 
-    // Refresh handler to force cache rebuild
+    // Refresh handler - USER galleries merge recent balance changes, other galleries clear the cache and refetch
     const handleRefresh = async () => {
         setLoading(true);
-        setLoadingProgress("Clearing cache...");
+        setRefreshNotice(null);
+        setLoadingProgress(galleryType === "USER" ? "Checking for changes..." : "Clearing cache...");
         setNfts([]);
         setPreloadedTextures(new Map());
+        setShowHidden(false);
+        setHiddenTokens(null);
+        setSummary(null);
 
         try {
-            // First, clear all cache entries for this address
-            await fetch("/api/cache/clear", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    address,
-                    clearAll: true, // Clear ALL cache entries, not just current filter
-                }),
-            });
+            if (galleryType !== "USER") {
+                // Clear every cache entry for this gallery (tokens and metadata) - the fetch below rebuilds it
+                const clearResponse = await fetch("/api/cache/clear", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({
+                        galleryType,
+                        identifier: address,
+                        network,
+                    }),
+                });
+
+                if (clearResponse.status === 429) {
+                    // Refreshed recently - the fetch below is served from cache
+                    const { retryAfterSeconds } = await clearResponse.json().catch(() => ({}));
+                    setRefreshNotice(formatRefreshNotice(retryAfterSeconds));
+                }
 
-            setLoadingProgress("Fetching fresh data...");
+                setLoadingProgress("Fetching fresh data...");
+            }
 
             const NFTS_PER_ROOM = 20;
 
@@ -263,7 +345,9 @@ export default function UnifiedGallery({
                         curationId: address,
                         page: currentPage,
                         pageSize: NFTS_PER_ROOM,
-                        forceRefresh: true,
+                        network,
+                        sort,
+                        group,
                     });
                     break;
                 case "COLLECTION":
@@ -271,7 +355,19 @@ export default function UnifiedGallery({
                         contractAddress: address,
                         page: currentPage,
                         pageSize: NFTS_PER_ROOM,
-                        forceRefresh: true,
+                        network,
+                        sort,
+                        group,
+                    });
+                    break;
+                case "ARTIST":
+                    response = await collektClient.getArtistCollection({
+                        artistAddress: address,
+                        page: currentPage,
+                        pageSize: NFTS_PER_ROOM,
+                        network,
+                        sort,
+                        group,
                     });
                     break;
                 default: // USER
@@ -279,14 +375,24 @@ export default function UnifiedGallery({
                         address,
                         page: currentPage,
                         pageSize: NFTS_PER_ROOM,
-                        forceRefresh: true, // This will force a fresh fetch and rebuild cache
+                        deltaRefresh: true, // Merge changes since the cached block level (full rebuild if unavailable)
+                        network,
+                        sort,
+                        group,
                     });
                     break;
             }
 
             if (response.success && response.data) {
-                const { tokens, pagination } = response.data;
+                const { tokens, pagination, cacheInfo } = response.data;
                 setTotalNFTs(pagination.totalItems);
+                setIsTruncated(!!pagination.truncated);
+                setTotalRooms(pagination.totalPages);
+                setRoomTheme(pagination.roomLabel);
+                setIsUpdating(cacheInfo.source === "stale");
+                if (cacheInfo.retryAfterSeconds !== undefined) {
+                    setRefreshNotice(formatRefreshNotice(cacheInfo.retryAfterSeconds));
+                }
 
                 // For base page, filter tokens with metadata and balance
                 const processedTokens = isBasePage
@@ -309,33 +415,199 @@ export default function UnifiedGallery({
         }
     };
 
-    // Update URL when room changes - navigate to appropriate route
-    const updateRoomInUrl = (roomNumber: number) => {
-        const newPage = roomNumber + 1;
+    // Fetch the tokens filtering removed (with their reasons) - the page itself comes back unchanged
+    const fetchHiddenTokens = async (): Promise<ExcludedToken[] | null> => {
+        const NFTS_PER_ROOM = 20;
+
+        let response;
+        switch (galleryType) {
+            case "CURATION":
+                response = await collektClient.getCurationCollection({
+                    curationId: address,
+                    page: currentPage,
+                    pageSize: NFTS_PER_ROOM,
+                    network,
+                    includeHidden: true,
+                });
+                break;
+            case "COLLECTION":
+                response = await collektClient.getContractCollection({
+                    contractAddress: address,
+                    page: currentPage,
+                    pageSize: NFTS_PER_ROOM,
+                    network,
+                    includeHidden: true,
+                });
+                break;
+            case "ARTIST":
+                response = await collektClient.getArtistCollection({
+                    artistAddress: address,
+                    page: currentPage,
+                    pageSize: NFTS_PER_ROOM,
+                    network,
+                    includeHidden: true,
+                });
+                break;
+            default: // USER
+                response = await collektClient.getTokenCollection({
+                    address,
+                    page: currentPage,
+                    pageSize: NFTS_PER_ROOM,
+                    network,
+                    includeHidden: true,
+                });
+                break;
+        }
 
-        // Generate route based on gallery type
-        let baseRoute: string;
+        return response.success && response.data ? response.data.hiddenTokens ?? [] : null;
+    };
+
+    // Search the whole gallery (in the current order) for the room navigation's search box
+    const handleSearch = async (query: string): Promise<RoomSearchResult[]> => {
+        const NFTS_PER_ROOM = 20;
+
+        let response;
         switch (galleryType) {
             case "CURATION":
-                baseRoute = `/curation/${address}`;
+                response = await collektClient.getCurationCollection({
+                    curationId: address,
+                    page: currentPage,
+                    pageSize: NFTS_PER_ROOM,
+                    network,
+                    sort,
+                    group,
+                    search: query,
+                });
                 break;
             case "COLLECTION":
-                baseRoute = `/collection/${address}`;
+                response = await collektClient.getContractCollection({
+                    contractAddress: address,
+                    page: currentPage,
+                    pageSize: NFTS_PER_ROOM,
+                    network,
+                    sort,
+                    group,
+                    search: query,
+                });
+                break;
+            case "ARTIST":
+                response = await collektClient.getArtistCollection({
+                    artistAddress: address,
+                    page: currentPage,
+                    pageSize: NFTS_PER_ROOM,
+                    network,
+                    sort,
+                    group,
+                    search: query,
+                });
                 break;
             default: // USER
-                baseRoute = `/gallery/${address}`;
+                response = await collektClient.getTokenCollection({
+                    address,
+                    page: currentPage,
+                    pageSize: NFTS_PER_ROOM,
+                    network,
+                    sort,
+                    group,
+                    search: query,
+                });
                 break;
         }
 
+        if (!response.success || !response.data?.search) {
+            throw new Error(response.error || "Search failed");
+        }
+
+        return response.data.search.matches.map(({ token, room }) => ({
+            id: token.id,
+            name: token.displayName || token.metadata?.name || `Token #${token.tokenId}`,
+            room: room - 1,
+        }));
+    };
+
+    // Toggle the collection stats panel, loading the stats the first time
+    const handleToggleSummary = async () => {
+        if (showSummary) {
+            setShowSummary(false);
+            return;
+        }
+
+        setShowSummary(true);
+        if (summary) return;
+
+        setLoadingSummary(true);
+        try {
+            const response = await collektClient.getGallerySummary(galleryType, address, { network });
+            setSummary(response.success && response.data ? response.data.summary : null);
+        } finally {
+            setLoadingSummary(false);
+        }
+    };
+
+    // Toggle "show hidden tokens" mode, loading the hidden tokens the first time
+    const handleToggleHidden = async () => {
+        if (showHidden) {
+            setShowHidden(false);
+            return;
+        }
+
+        if (!hiddenTokens) {
+            setLoadingHidden(true);
+            try {
+                const hidden = await fetchHiddenTokens();
+                if (!hidden) return;
+                setHiddenTokens(hidden);
+                setHiddenRoom(0);
+            } catch (err) {
+                console.error("Error fetching hidden tokens:", err);
+                return;
+            } finally {
+                setLoadingHidden(false);
+            }
+        }
+
+        setShowHidden(true);
+    };
+
+    // Generate the gallery's base route based on gallery type
+    const getBaseRoute = (): string => {
+        switch (galleryType) {
+            case "CURATION":
+                return `/curation/${address}`;
+            case "COLLECTION":
+                return `/collection/${address}`;
+            case "ARTIST":
+                return `/artist/${address}`;
+            default: // USER
+                return `/gallery/${address}`;
+        }
+    };
+
+    // Update URL when room changes - navigate to appropriate route, keeping the room order and grouping
+    const updateRoomInUrl = (roomNumber: number) => {
+        const newPage = roomNumber + 1;
+        const baseRoute = getBaseRoute();
+
         if (newPage === 1) {
             // Going to page 1, use base route
-            router.push(baseRoute);
+            router.push(withSort(withNetwork(baseRoute)));
         } else {
             // Going to specific page, use dynamic route
-            router.push(`${baseRoute}/page/${newPage}`);
+            router.push(withSort(withNetwork(`${baseRoute}/page/${newPage}`)));
         }
     };
 
+    // Change the room order - rooms are rebuilt in the new order, so start again from room 1
+    const handleSortChange = (value: string) => {
+        const [mode, order] = value.split("-");
+        router.push(withSort(withNetwork(getBaseRoute()), { sort: mode, order, seed: undefined }));
+    };
+
+    // Change the room grouping - the room layout changes, so start again from room 1
+    const handleGroupChange = (value: string) => {
+        router.push(withSort(withNetwork(getBaseRoute()), { group: value }));
+    };
+
     // Preload more textures when room changes
     useEffect(() => {
         if (nfts.length > 0 && !loading) {
@@ -369,6 +641,9 @@ export default function UnifiedGallery({
                             page: currentPage,
                             pageSize: NFTS_PER_ROOM,
                             forceRefresh: false,
+                            network,
+                            sort,
+                            group,
                         });
                         break;
                     case "COLLECTION":
@@ -377,6 +652,20 @@ export default function UnifiedGallery({
                             page: currentPage,
                             pageSize: NFTS_PER_ROOM,
                             forceRefresh: false,
+                            network,
+                            sort,
+                            group,
+                        });
+                        break;
+                    case "ARTIST":
+                        response = await collektClient.getArtistCollection({
+                            artistAddress: address,
+                            page: currentPage,
+                            pageSize: NFTS_PER_ROOM,
+                            forceRefresh: false,
+                            network,
+                            sort,
+                            group,
                         });
                         break;
                     default: // USER
@@ -385,6 +674,9 @@ export default function UnifiedGallery({
                             page: currentPage,
                             pageSize: NFTS_PER_ROOM,
                             forceRefresh: false,
+                            network,
+                            sort,
+                            group,
                         });
                         break;
                 }
@@ -397,10 +689,14 @@ export default function UnifiedGallery({
 
                 // Update total count from API response
                 setTotalNFTs(result.pagination.totalItems);
+                setIsTruncated(!!result.pagination.truncated);
+                setTotalRooms(result.pagination.totalPages);
+                setRoomTheme(result.pagination.roomLabel);
+                setIsUpdating(result.cacheInfo.source === "stale");
 
                 // If we're on an invalid page, redirect appropriately
                 if (currentPage > result.pagination.totalPages && result.pagination.totalItems > 0) {
-                    router.push(`/gallery/${address}`); // Go back to page 1
+                    router.push(withSort(withNetwork(getBaseRoute()))); // Go back to page 1
                     return;
                 }
 
@@ -426,7 +722,7 @@ export default function UnifiedGallery({
         };
 
         fetchNFTsForPage();
-    }, [address, currentPage, isBasePage, galleryType]);
+    }, [address, currentPage, isBasePage, galleryType, network, sortId, group]);
 
     const preloadTextures = async (nftList: UnifiedToken[], targetRoom: number = 0, totalNFTCount?: number) => {
         setLoadingProgress("Preloading images...");
@@ -557,10 +853,14 @@ export default function UnifiedGallery({
     };
 
     const getHeaderInfoText = () => {
+        if (showHidden && hiddenTokens) {
+            return `${hiddenTokens.length} hidden tokens`;
+        }
         if (totalNFTs > 0) {
+            const total = isTruncated ? `${totalNFTs}+` : `${totalNFTs}`;
             return isBasePage
-                ? `${nfts.length} of ${totalNFTs} NFTs loaded`
-                : `Page ${currentPage} • ${nfts.length} of ${totalNFTs} NFTs`;
+                ? `${nfts.length} of ${total} NFTs loaded`
+                : `Page ${currentPage} • ${nfts.length} of ${total} NFTs`;
         }
         return `${nfts.length} NFTs found`;
     };
@@ -586,17 +886,7 @@ export default function UnifiedGallery({
             router.push("/");
         } else {
             // Go back to page 1 of the current gallery type
-            switch (galleryType) {
-                case "CURATION":
-                    router.push(`/curation/${address}`);
-                    break;
-                case "COLLECTION":
-                    router.push(`/collection/${address}`);
-                    break;
-                default: // USER
-                    router.push(`/gallery/${address}`);
-                    break;
-            }
+            router.push(withSort(withNetwork(getBaseRoute())));
         }
     };
 
@@ -643,6 +933,15 @@ export default function UnifiedGallery({
         );
     }
 
+    // Hidden tokens get their own rooms, each token captioned with the reason it was filtered out
+    const hiddenRoomSize = 20; // Match Gallery3D rooms
+    const hiddenRoomTokens =
+        showHidden && hiddenTokens
+            ? hiddenTokens.slice(hiddenRoom * hiddenRoomSize, (hiddenRoom + 1) * hiddenRoomSize)
+            : [];
+    const hiddenCaptions = new Map(hiddenRoomTokens.map(({ token, explanation }) => [token.id, explanation]));
+    const galleryNFTs = showHidden ? hiddenRoomTokens.map(({ token }) => token) : nfts;
+
     return (
         <div className="relative min-h-screen bg-black">
             {/* Header */}
@@ -662,6 +961,45 @@ export default function UnifiedGallery({
                     <div className="px-4 py-2 text-sm text-white rounded-lg bg-black/50 backdrop-blur-sm">
                         {getHeaderInfoText()}
                     </div>
+                    {refreshNotice && (
+                        <div className="px-3 py-1 text-xs text-white/70 rounded bg-black/50 backdrop-blur-sm">
+                            {refreshNotice}
+                        </div>
+                    )}
+                    {isUpdating && (
+                        <div
+                            className="px-3 py-1 text-xs text-white/70 rounded bg-black/50 backdrop-blur-sm"
+                            title="Showing cached data while fresh data loads in the background"
+                        >
+                            Updating...
+                        </div>
+                    )}
+                    <select
+                        value={sort.mode === "default" || sort.mode === "random" ? sort.mode : sortId}
+                        onChange={(e) => handleSortChange(e.target.value)}
+                        className="h-10 px-3 text-sm text-white rounded-md border border-white/20 bg-black/50 backdrop-blur-sm"
+                        disabled={loading || showHidden}
+                        title="Room order"
+                    >
+                        {SORT_OPTIONS.map(({ value, label }) => (
+                            <option key={value} value={value} className="bg-black">
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                    <select
+                        value={group}
+                        onChange={(e) => handleGroupChange(e.target.value)}
+                        className="h-10 px-3 text-sm text-white rounded-md border border-white/20 bg-black/50 backdrop-blur-sm"
+                        disabled={loading || showHidden}
+                        title="Room grouping"
+                    >
+                        {GROUP_OPTIONS.map(({ value, label }) => (
+                            <option key={value} value={value} className="bg-black">
+                                {label}
+                            </option>
+                        ))}
+                    </select>
                     <Button
                         onClick={handleRefresh}
                         variant="outline"
@@ -671,6 +1009,23 @@ export default function UnifiedGallery({
                     >
                         <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
                     </Button>
+                    <Button
+                        onClick={handleToggleSummary}
+                        variant="outline"
+                        className="text-white bg-black/50 border-white/20 hover:bg-black/70 backdrop-blur-sm"
+                        title={showSummary ? "Hide collection stats" : "Show collection stats"}
+                    >
+                        <Info className="w-4 h-4" />
+                    </Button>
+                    <Button
+                        onClick={handleToggleHidden}
+                        variant="outline"
+                        className="text-white bg-black/50 border-white/20 hover:bg-black/70 backdrop-blur-sm"
+                        disabled={loadingHidden}
+                        title={showHidden ? "Back to the gallery" : "Show hidden tokens and why they were filtered out"}
+                    >
+                        {showHidden ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </Button>
                     {galleryError && !isMobile && (
                         <Button
                             onClick={() => setUse3D(!use3D)}
@@ -688,8 +1043,25 @@ export default function UnifiedGallery({
                 </div>
             </div>
 
+            {/* Collection stats */}
+            {showSummary && (
+                <CollectionSummaryPanel
+                    title={galleryMetadata.isLoading ? "Collection stats" : `${galleryMetadata.name} at a glance`}
+                    summary={summary}
+                    loading={loadingSummary}
+                    onClose={() => setShowSummary(false)}
+                />
+            )}
+
             {/* 3D Gallery with Error Boundary - Desktop only */}
-            {use3D && !isMobile ? (
+            {showHidden && galleryNFTs.length === 0 ? (
+                <div className="flex items-center justify-center min-h-screen p-4 bg-black">
+                    <div className="max-w-md space-y-4 text-center">
+                        <p className="text-xl text-white">No hidden tokens</p>
+                        <p className="text-white/60">Every token in this gallery passed the filters</p>
+                    </div>
+                </div>
+            ) : use3D && !isMobile ? (
                 <ErrorBoundary
                     fallback={
                         <div className="flex items-center justify-center min-h-screen bg-black">
@@ -712,20 +1084,34 @@ export default function UnifiedGallery({
                     }}
                 >
                     <Gallery3D
-                        nfts={nfts}
+                        nfts={galleryNFTs}
                         address={address}
                         domain={domain}
                         displayName={displayName}
                         onNFTSelect={setSelectedNFT}
                         preloadedTextures={preloadedTextures}
-                        currentRoom={currentRoom}
-                        onRoomChange={updateRoomInUrl}
-                        totalNFTs={totalNFTs}
+                        currentRoom={showHidden ? hiddenRoom : currentRoom}
+                        onRoomChange={showHidden ? setHiddenRoom : updateRoomInUrl}
+                        totalNFTs={showHidden ? hiddenTokens?.length : totalNFTs}
+                        totalRooms={showHidden ? undefined : totalRooms}
                         topOffset={64} // 64px to avoid overlapping with Back button
+                        captions={showHidden ? hiddenCaptions : undefined}
+                        roomLabel={showHidden ? "Hidden tokens" : undefined}
+                        roomTheme={showHidden ? undefined : roomTheme}
+                        onSearch={showHidden ? undefined : handleSearch}
                     />
                 </ErrorBoundary>
             ) : (
-                <Simple2DGallery nfts={nfts} onNFTSelect={setSelectedNFT} getImageUri={getImageUri} />
+                <Simple2DGallery
+                    nfts={showHidden ? hiddenTokens?.map(({ token }) => token) ?? [] : nfts}
+                    onNFTSelect={setSelectedNFT}
+                    getImageUri={getImageUri}
+                    captions={
+                        showHidden
+                            ? new Map(hiddenTokens?.map(({ token, explanation }) => [token.id, explanation]))
+                            : undefined
+                    }
+                />
             )}
 
             {/* Metadata Panel */}
@@ -46,6 +46,8 @@ export default function GalleryTitle({
                 return metadata.name;
             case "COLLECTION":
                 return metadata.name;
+            case "ARTIST":
+                return `Works by ${metadata.name}`;
             default:
                 return "ColleKT Gallery";
         }
@@ -64,6 +66,8 @@ export default function GalleryTitle({
                 return "Curated Collection";
             case "COLLECTION":
                 return "NFT Collection";
+            case "ARTIST":
+                return "Artist Gallery";
             default:
                 return "";
         }
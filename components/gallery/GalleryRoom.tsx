@@ -25,6 +25,9 @@ interface GalleryRoomProps {
     onPrevRoom?: () => void;
     preloadedTextures?: Map<string, any>;
     cameraMode: CameraMode;
+    captions?: Map<string, string>; // Token id -> caption shown under the frame
+    roomLabel?: string;
+    roomTheme?: string;
 }
 
 interface NFTWithDimensions extends UnifiedToken {
@@ -45,6 +48,9 @@ export default function GalleryRoom({
     onPrevRoom,
     preloadedTextures,
     cameraMode,
+    captions,
+    roomLabel,
+    roomTheme,
 }: GalleryRoomProps) {
     const [nftsWithDimensions, setNftsWithDimensions] = useState<NFTWithDimensions[]>([]);
     const [dimensionsLoading, setDimensionsLoading] = useState(true);
@@ -205,6 +211,8 @@ export default function GalleryRoom({
                     displayName={displayName}
                     hallwayLength={30}
                     hallwayWidth={12}
+                    roomLabel={roomLabel}
+                    roomTheme={roomTheme}
                 />
                 {/* Camera Controls */}
                 {cameraMode === "walk" && <WalkController hallwayLength={30} hallwayWidth={12} />}
@@ -226,6 +234,8 @@ export default function GalleryRoom({
                 displayName={displayName}
                 hallwayLength={hallwayLength}
                 hallwayWidth={hallwayWidth}
+                roomLabel={roomLabel}
+                roomTheme={roomTheme}
             />
 
             {/* NFT Frames with proper aspect ratios */}
@@ -241,6 +251,7 @@ export default function GalleryRoom({
                         isSelected={false}
                         preloadedTexture={preloadedTextures?.get(nft.id)}
                         aspectRatio={aspectRatio || 1}
+                        caption={captions?.get(nft.id)}
                     />
                 );
             })}
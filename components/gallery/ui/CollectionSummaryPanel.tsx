@@ -0,0 +1,94 @@
+import { X } from "lucide-react";
+import { UnifiedCollection } from "@/lib/data/types/token-types";
+
+interface CollectionSummaryPanelProps {
+    title: string;
+    summary: UnifiedCollection | null;
+    loading: boolean;
+    onClose: () => void;
+}
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+// Summaries come from JSON, so dates arrive as strings
+const formatDate = (value?: Date | string) =>
+    value ? new Date(value).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" }) : "-";
+
+export default function CollectionSummaryPanel({ title, summary, loading, onClose }: CollectionSummaryPanelProps) {
+    const standards = summary
+        ? Object.entries(summary.standardsBreakdown)
+              .filter(([, count]) => count > 0)
+              .sort(([, a], [, b]) => b - a)
+        : [];
+
+    return (
+        <div className="absolute z-50 w-80 max-w-[90vw] p-4 text-white border rounded-lg top-20 right-4 bg-black/80 backdrop-blur-md border-white/20">
+            <div className="flex items-start justify-between gap-2 mb-3">
+                <h2 className="text-sm font-medium">{title}</h2>
+                <button onClick={onClose} className="p-1 transition-colors rounded hover:bg-white/20" title="Close">
+                    <X size={14} />
+                </button>
+            </div>
+
+            {loading || !summary ? (
+                <p className="text-xs text-white/60">{loading ? "Loading collection stats..." : "Stats unavailable"}</p>
+            ) : (
+                <div className="space-y-3 text-xs">
+                    <div className="grid grid-cols-2 gap-2">
+                        <div className="p-2 rounded bg-white/10">
+                            <p className="text-lg font-medium text-cyan-400">{summary.totalTokens}</p>
+                            <p className="text-white/60">Tokens</p>
+                        </div>
+                        <div className="p-2 rounded bg-white/10">
+                            <p className="text-lg font-medium text-cyan-400">{summary.totalWithMetadata}</p>
+                            <p className="text-white/60">With metadata</p>
+                        </div>
+                        <div className="p-2 rounded bg-white/10">
+                            <p className="text-lg font-medium text-cyan-400">{percent(summary.imageAvailability)}</p>
+                            <p className="text-white/60">With images</p>
+                        </div>
+                        <div className="p-2 rounded bg-white/10">
+                            <p className="text-lg font-medium text-cyan-400">
+                                {percent(summary.metadataCompleteness)}
+                            </p>
+                            <p className="text-white/60">Metadata complete</p>
+                        </div>
+                    </div>
+
+                    <div>
+                        <p className="mb-1 text-white/60">Minted</p>
+                        <p>
+                            {formatDate(summary.oldestToken)} - {formatDate(summary.newestToken)}
+                        </p>
+                    </div>
+
+                    {summary.topContracts.length > 0 && (
+                        <div>
+                            <p className="mb-1 text-white/60">Top contracts</p>
+                            <ul className="space-y-1">
+                                {summary.topContracts.slice(0, 5).map((contract) => (
+                                    <li key={contract.address} className="flex justify-between gap-2">
+                                        <span className="truncate">
+                                            {contract.name ||
+                                                `${contract.address.slice(0, 8)}...${contract.address.slice(-4)}`}
+                                        </span>
+                                        <span className="text-cyan-400 shrink-0">{contract.count}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {standards.length > 0 && (
+                        <div>
+                            <p className="mb-1 text-white/60">Token standards</p>
+                            <p>
+                                {standards.map(([standard, count]) => `${standard.toUpperCase()} ${count}`).join(" • ")}
+                            </p>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
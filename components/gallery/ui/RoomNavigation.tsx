@@ -1,7 +1,13 @@
 import { useState, useRef, useEffect } from "react";
-import { ChevronLeft, ChevronRight, MoreHorizontal, Hash, Dices } from "lucide-react";
+import { ChevronLeft, ChevronRight, MoreHorizontal, Hash, Dices, Search } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
+export interface RoomSearchResult {
+    id: string;
+    name: string;
+    room: number; // 0-based, like currentRoom
+}
+
 interface RoomNavigationProps {
     currentRoom: number;
     totalRooms: number;
@@ -11,6 +17,7 @@ interface RoomNavigationProps {
     onPrevRoom: () => void;
     onNextRoom: () => void;
     onGoToRoom?: (roomNumber: number) => void;
+    onSearch?: (query: string) => Promise<RoomSearchResult[]>; // Search the whole gallery
 }
 
 export default function RoomNavigation({
@@ -22,12 +29,18 @@ export default function RoomNavigation({
     onPrevRoom,
     onNextRoom,
     onGoToRoom,
+    onSearch,
 }: RoomNavigationProps) {
     const [isExpanded, setIsExpanded] = useState(false);
     const [jumpInput, setJumpInput] = useState("");
     const [showJumpInput, setShowJumpInput] = useState(false);
     const [hoveredRoom, setHoveredRoom] = useState<number | null>(null);
+    const [showSearch, setShowSearch] = useState(false);
+    const [searchInput, setSearchInput] = useState("");
+    const [searchResults, setSearchResults] = useState<RoomSearchResult[] | null>(null);
+    const [searching, setSearching] = useState(false);
     const inputRef = useRef<HTMLInputElement>(null);
+    const searchInputRef = useRef<HTMLInputElement>(null);
     const progressBarRef = useRef<HTMLDivElement>(null);
 
     // Focus input when it becomes visible
@@ -38,6 +51,12 @@ export default function RoomNavigation({
         }
     }, [showJumpInput]);
 
+    useEffect(() => {
+        if (showSearch && searchInputRef.current) {
+            searchInputRef.current.focus();
+        }
+    }, [showSearch]);
+
     const handleJumpSubmit = () => {
         const roomNum = parseInt(jumpInput) - 1; // Convert to 0-based index
         if (roomNum >= 0 && roomNum < totalRooms && onGoToRoom) {
@@ -48,6 +67,50 @@ export default function RoomNavigation({
         }
     };
 
+    const closeSearch = () => {
+        setSearchInput("");
+        setSearchResults(null);
+        setShowSearch(false);
+    };
+
+    // Jump to a match's room
+    const handleSearchResult = (result: RoomSearchResult) => {
+        if (!onGoToRoom) return;
+        onGoToRoom(result.room);
+        closeSearch();
+        setIsExpanded(false);
+    };
+
+    // Search the gallery - a single match jumps straight to its room
+    const handleSearchSubmit = async () => {
+        const query = searchInput.trim();
+        if (!query || !onSearch || searching) return;
+
+        setSearching(true);
+        try {
+            const results = await onSearch(query);
+            if (results.length === 1) {
+                handleSearchResult(results[0]);
+            } else {
+                setSearchResults(results);
+            }
+        } catch (err) {
+            console.error("Gallery search failed:", err);
+            setSearchResults([]);
+        } finally {
+            setSearching(false);
+        }
+    };
+
+    const handleSearchKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === "Enter") {
+            handleSearchSubmit();
+        } else if (e.key === "Escape") {
+            closeSearch();
+            setIsExpanded(false);
+        }
+    };
+
     const handleRandomRoom = () => {
         if (onGoToRoom && totalRooms > 1) {
             let randomRoom;
@@ -111,6 +174,8 @@ export default function RoomNavigation({
                     `}
                     onMouseEnter={() => setIsExpanded(true)}
                     onMouseLeave={() => {
+                        // Keep the search open while it is in use
+                        if (showSearch) return;
                         setIsExpanded(false);
                         setShowJumpInput(false);
                         setJumpInput("");
@@ -192,6 +257,15 @@ export default function RoomNavigation({
                                             <Hash size={12} className="text-cyan-400 sm:w-3.5 sm:h-3.5" />
                                         </button>
                                     )}
+                                    {onGoToRoom && onSearch && (
+                                        <button
+                                            onClick={() => (showSearch ? closeSearch() : setShowSearch(true))}
+                                            className="p-1 transition-colors rounded hover:bg-white/20"
+                                            title="Search this gallery"
+                                        >
+                                            <Search size={12} className="text-amber-400 sm:w-3.5 sm:h-3.5" />
+                                        </button>
+                                    )}
                                     {onGoToRoom && totalRooms > 1 && (
                                         <Tooltip>
                                             <TooltipTrigger asChild>
@@ -267,6 +341,50 @@ export default function RoomNavigation({
                                 </div>
                             )}
 
+                            {/* Search box - results open above the navigation */}
+                            {showSearch && (
+                                <div className="relative flex items-center gap-2">
+                                    <input
+                                        ref={searchInputRef}
+                                        type="search"
+                                        maxLength={100}
+                                        value={searchInput}
+                                        onChange={(e) => setSearchInput(e.target.value)}
+                                        onKeyDown={handleSearchKeyDown}
+                                        placeholder="Name, artist, tag..."
+                                        className="w-36 px-2 py-1 text-xs text-white placeholder-gray-400 border rounded sm:w-48 sm:text-sm bg-white/10 border-white/20 focus:outline-none focus:border-amber-400"
+                                    />
+                                    <button
+                                        onClick={handleSearchSubmit}
+                                        disabled={searching}
+                                        className="px-2 py-1 text-xs text-white transition-colors rounded bg-amber-500 hover:bg-amber-600 disabled:opacity-50"
+                                    >
+                                        {searching ? "..." : "Find"}
+                                    </button>
+
+                                    {searchResults && (
+                                        <div className="absolute left-0 right-0 mb-2 overflow-y-auto border rounded-lg bottom-full max-h-64 bg-black/90 border-white/20">
+                                            {searchResults.length === 0 ? (
+                                                <p className="px-3 py-2 text-xs text-gray-300">No matches</p>
+                                            ) : (
+                                                searchResults.map((result) => (
+                                                    <button
+                                                        key={result.id}
+                                                        onClick={() => handleSearchResult(result)}
+                                                        className="flex items-center justify-between w-full gap-2 px-3 py-2 text-left transition-colors hover:bg-white/10"
+                                                    >
+                                                        <span className="text-xs text-white truncate">{result.name}</span>
+                                                        <span className="text-xs text-amber-400 shrink-0">
+                                                            Room {result.room + 1}
+                                                        </span>
+                                                    </button>
+                                                ))
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
                             <button
                                 onClick={onNextRoom}
                                 disabled={currentRoom === totalRooms - 1}
@@ -15,6 +15,8 @@ interface RoomTitleProps {
     color?: string;
     hallwayLength?: number;
     hallwayWidth?: number; // Add hallway width prop
+    roomLabel?: string; // Shown before the room number (e.g. "Hidden tokens")
+    roomTheme?: string; // Shown after the room number (e.g. "works by alice" in grouped galleries)
 }
 
 // Load font for 3D text
@@ -31,6 +33,8 @@ export default function RoomTitle({
     color = "#00bcd4",
     hallwayLength = 30,
     hallwayWidth = 12, // Default hallway width
+    roomLabel,
+    roomTheme,
 }: RoomTitleProps) {
     // Position in center of hallway if not specified
     const titlePosition: [number, number, number] = position || [0, 7, hallwayLength / 2];
@@ -65,13 +69,18 @@ export default function RoomTitle({
                           )}`
                         : "Unknown Creator");
                 return `${galleryMetadata.name} by ${creatorName}`;
+            case "ARTIST":
+                return `Works by ${galleryMetadata.name}`;
             default:
                 return "ColleKT Gallery";
         }
     };
 
     const titleText = getTitleText();
-    const roomText = `Room ${roomNumber + 1} of ${totalRooms}`;
+    const roomNumberText = roomLabel
+        ? `${roomLabel} - Room ${roomNumber + 1} of ${totalRooms}`
+        : `Room ${roomNumber + 1} of ${totalRooms}`;
+    const roomText = roomTheme ? `${roomNumberText} - ${roomTheme}` : roomNumberText;
     const titleColor = galleryMetadata.isLoading ? "#888888" : color;
 
     // Calculate dynamic font size based on text length and room width
@@ -19,6 +19,7 @@ import {
     ZoomOut,
 } from "lucide-react";
 import { UnifiedToken } from "@/lib/data/types/token-types";
+import { useNetwork } from "@/hooks/use-network";
 
 interface MediaModalProps {
     nft: UnifiedToken | null;
@@ -36,6 +37,7 @@ export default function MediaModal({ nft, onClose }: MediaModalProps) {
     // Contract alias now comes directly from nft.contractAlias - no need for separate state/fetch
     const [artistAliases, setArtistAliases] = useState<{ [address: string]: string | null }>({});
     const [isLoadingArtistAliases, setIsLoadingArtistAliases] = useState(false);
+    const { config: networkConfig } = useNetwork();
     // Removed collectionInfo state - we get alias directly from nft.contractAlias now
     const videoRef = useRef<HTMLVideoElement>(null);
     const audioRef = useRef<HTMLAudioElement>(null);
@@ -62,7 +64,7 @@ export default function MediaModal({ nft, onClose }: MediaModalProps) {
     // Fetch artist alias from TzKT accounts endpoint
     const fetchArtistAlias = async (artistAddress: string): Promise<string | null> => {
         try {
-            const response = await fetch(`https://api.tzkt.io/v1/accounts/${artistAddress}`);
+            const response = await fetch(`${networkConfig.tzktApiUrl}/v1/accounts/${artistAddress}`);
             if (!response.ok) {
                 console.error(`❌ Artist API failed with status ${response.status}: ${response.statusText}`);
                 return null;
@@ -90,7 +92,7 @@ export default function MediaModal({ nft, onClose }: MediaModalProps) {
         tzips?: string[];
     } | null> => {
         try {
-            const response = await fetch(`https://api.tzkt.io/v1/contracts/${contractAddress}`);
+            const response = await fetch(`${networkConfig.tzktApiUrl}/v1/contracts/${contractAddress}`);
 
             if (!response.ok) {
                 console.error(`❌ DIRECT API failed with status ${response.status}: ${response.statusText}`);
@@ -126,6 +128,11 @@ export default function MediaModal({ nft, onClose }: MediaModalProps) {
                     if (artistAliases[creatorAddress] !== undefined) {
                         return [creatorAddress, artistAliases[creatorAddress]];
                     }
+                    // objkt-sourced tokens already carry creator aliases
+                    const profile = nft.metadata.creatorProfiles?.find((p) => p.address === creatorAddress);
+                    if (profile?.alias) {
+                        return [creatorAddress, profile.alias];
+                    }
                     const alias = await fetchArtistAlias(creatorAddress);
                     return [creatorAddress, alias];
                 })
@@ -584,7 +591,10 @@ export default function MediaModal({ nft, onClose }: MediaModalProps) {
                                     from{" "}
                                     <button
                                         onClick={() =>
-                                            window.open(`https://tzkt.io/${nft.metadata?.creators?.[0]}`, "_blank")
+                                            window.open(
+                                                `${networkConfig.tzktExplorerUrl}/${nft.metadata?.creators?.[0]}`,
+                                                "_blank"
+                                            )
                                         }
                                         className="text-gray-300 underline hover:text-white"
                                     >
@@ -676,7 +686,10 @@ export default function MediaModal({ nft, onClose }: MediaModalProps) {
                                                     </span>
                                                     <button
                                                         onClick={() =>
-                                                            window.open(`https://tzkt.io/${creatorAddress}`, "_blank")
+                                                            window.open(
+                                                                `${networkConfig.tzktExplorerUrl}/${creatorAddress}`,
+                                                                "_blank"
+                                                            )
                                                         }
                                                         className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300"
                                                     >
@@ -697,7 +710,10 @@ export default function MediaModal({ nft, onClose }: MediaModalProps) {
                                             <span className="text-sm text-white">{getCollectionDisplayName()}</span>
                                             <button
                                                 onClick={() =>
-                                                    window.open(`https://tzkt.io/${nft.contractAddress}`, "_blank")
+                                                    window.open(
+                                                        `${networkConfig.tzktExplorerUrl}/${nft.contractAddress}`,
+                                                        "_blank"
+                                                    )
                                                 }
                                                 className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300"
                                             >
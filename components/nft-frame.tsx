@@ -17,6 +17,7 @@ interface NFTFrameProps {
     isSelected: boolean;
     preloadedTexture?: any; // THREE.Texture but avoiding import issues
     aspectRatio?: number; // width/height ratio for proper sizing
+    caption?: string; // Extra line under the title (e.g. why a hidden token was filtered out)
 }
 
 export default function NFTFrame({
@@ -27,6 +28,7 @@ export default function NFTFrame({
     isSelected,
     preloadedTexture,
     aspectRatio = 1, // Default to square if no aspect ratio provided
+    caption,
 }: NFTFrameProps) {
     const meshRef = useRef<THREE.Mesh>(null);
     const frameRef = useRef<THREE.Group>(null);
@@ -219,8 +221,9 @@ export default function NFTFrame({
                 const sanitizedName = sanitizeNFTName(nft.metadata?.name, nft.tokenId, 35);
                 const textLines = splitTextForDisplay(sanitizedName, 25);
                 const fontSize = getDynamicFontSize(sanitizedName, 0.2);
+                const titleHeight = textLines.length * fontSize * 1.2;
 
-                return textLines.map((line, index) => (
+                const titleText = textLines.map((line, index) => (
                     <Text
                         key={index}
                         position={[0, -(frameBorderHeight / 2 + 0.3 + index * fontSize * 1.2), 0.1]}
@@ -235,6 +238,26 @@ export default function NFTFrame({
                         {line}
                     </Text>
                 ));
+
+                if (!caption) return titleText;
+
+                return [
+                    ...titleText,
+                    <Text
+                        key="caption"
+                        position={[0, -(frameBorderHeight / 2 + 0.35 + titleHeight), 0.1]}
+                        fontSize={0.14}
+                        color="#ffb74d"
+                        anchorX="center"
+                        anchorY="top"
+                        maxWidth={Math.max(frameWidth, 2.5)}
+                        textAlign="center"
+                        outlineWidth={0.01}
+                        outlineColor="#000000"
+                    >
+                        {caption}
+                    </Text>,
+                ];
             })()}
 
             {/* Improved hover info */}
@@ -2,11 +2,13 @@
 
 import { useState, useEffect } from "react";
 import { usePathname } from "next/navigation";
+import { useNetwork } from "@/hooks/use-network";
+import type { GalleryType } from "@/lib/data/types/gallery-types";
 
 interface GalleryMetadata {
     name: string;
     description?: string;
-    type: "USER" | "CURATION" | "COLLECTION";
+    type: GalleryType;
     isLoading: boolean;
     error?: string;
     creator_address?: string;
@@ -34,6 +36,7 @@ interface CollectionData {
  * - USER: Uses existing domain resolution
  * - CURATION: Fetches from objkt.com API
  * - COLLECTION: Fetches from objkt.com API
+ * - ARTIST: Uses domain resolution, like USER (the artist is the creator)
  */
 export function useGalleryMetadata(address: string, domain?: string | null, displayName?: string): GalleryMetadata {
     const [metadata, setMetadata] = useState<GalleryMetadata>({
@@ -42,13 +45,16 @@ export function useGalleryMetadata(address: string, domain?: string | null, disp
         isLoading: true,
     });
     const pathname = usePathname();
+    const { config: networkConfig } = useNetwork();
 
     // Determine gallery type from pathname
-    const getGalleryType = (): "USER" | "CURATION" | "COLLECTION" => {
+    const getGalleryType = (): GalleryType => {
         if (pathname.startsWith("/curation/")) {
             return "CURATION";
         } else if (pathname.startsWith("/collection/")) {
             return "COLLECTION";
+        } else if (pathname.startsWith("/artist/")) {
+            return "ARTIST";
         } else {
             return "USER";
         }
@@ -73,7 +79,7 @@ export function useGalleryMetadata(address: string, domain?: string | null, disp
 
                     case "CURATION":
                         // Fetch curation metadata from objkt.com
-                        const curationData = await fetchCurationMetadata(address);
+                        const curationData = await fetchCurationMetadata(address, networkConfig.objktGraphqlUrl);
                         setMetadata({
                             name: curationData.name || `Curation ${address}`,
                             description: curationData.description,
@@ -84,7 +90,7 @@ export function useGalleryMetadata(address: string, domain?: string | null, disp
 
                     case "COLLECTION":
                         // Fetch collection metadata from objkt.com
-                        const collectionData = await fetchCollectionMetadata(address);
+                        const collectionData = await fetchCollectionMetadata(address, networkConfig.objktGraphqlUrl);
                         setMetadata({
                             name:
                                 collectionData.name || collectionData.symbol || `Collection ${address.slice(0, 8)}...`,
@@ -95,6 +101,18 @@ export function useGalleryMetadata(address: string, domain?: string | null, disp
                             creator_domain: collectionData.creator_domain,
                         });
                         break;
+
+                    case "ARTIST":
+                        // The artist's own name - titles read "Works by <name>"
+                        const artistName = domain || displayName || `${address.slice(0, 8)}...${address.slice(-4)}`;
+                        setMetadata({
+                            name: artistName,
+                            type: "ARTIST",
+                            isLoading: false,
+                            creator_address: address,
+                            creator_domain: domain || undefined,
+                        });
+                        break;
                 }
             } catch (error) {
                 console.error("Failed to fetch gallery metadata:", error);
@@ -108,7 +126,7 @@ export function useGalleryMetadata(address: string, domain?: string | null, disp
         }
 
         fetchMetadata();
-    }, [address, domain, displayName, pathname]);
+    }, [address, domain, displayName, pathname, networkConfig.id]);
 
     return metadata;
 }
@@ -116,7 +134,11 @@ export function useGalleryMetadata(address: string, domain?: string | null, disp
 /**
  * Fetch curation metadata from objkt.com GraphQL API
  */
-async function fetchCurationMetadata(curationId: string): Promise<CurationData> {
+async function fetchCurationMetadata(curationId: string, endpoint?: string): Promise<CurationData> {
+    if (!endpoint) {
+        throw new Error("objkt.com data is not available on this network");
+    }
+
     // Support different curation ID formats
     let query: string;
     let variables: any;
@@ -164,7 +186,7 @@ async function fetchCurationMetadata(curationId: string): Promise<CurationData>
         throw new Error("Invalid curation ID format");
     }
 
-    const response = await fetch("https://data.objkt.com/v3/graphql", {
+    const response = await fetch(endpoint, {
         method: "POST",
         headers: {
             "Content-Type": "application/json",
@@ -201,7 +223,11 @@ async function fetchCurationMetadata(curationId: string): Promise<CurationData>
 /**
  * Fetch collection metadata from objkt.com GraphQL API
  */
-async function fetchCollectionMetadata(contractAddress: string): Promise<CollectionData> {
+async function fetchCollectionMetadata(contractAddress: string, endpoint?: string): Promise<CollectionData> {
+    if (!endpoint) {
+        throw new Error("objkt.com data is not available on this network");
+    }
+
     const query = `
         query GetCollectionMetadata($contract: String!) {
             fa(where: { contract: { _eq: $contract } }, limit: 1) {
@@ -215,7 +241,7 @@ async function fetchCollectionMetadata(contractAddress: string): Promise<Collect
         }
     `;
 
-    const response = await fetch("https://data.objkt.com/v3/graphql", {
+    const response = await fetch(endpoint, {
         method: "POST",
         headers: {
             "Content-Type": "application/json",
@@ -288,13 +314,14 @@ async function fetchCollectionMetadata(contractAddress: string): Promise<Collect
  * Generate fallback name when metadata fetch fails
  */
 function getFailbackName(
-    type: "USER" | "CURATION" | "COLLECTION",
+    type: GalleryType,
     address: string,
     domain?: string | null,
     displayName?: string
 ): string {
     switch (type) {
         case "USER":
+        case "ARTIST":
             return domain || displayName || `${address.slice(0, 8)}...${address.slice(-4)}`;
         case "CURATION":
             return `Curation ${address}`;
@@ -0,0 +1,48 @@
+"use client";
+
+import { useSearchParams } from "next/navigation";
+import { DEFAULT_SORT, GallerySort, parseSortParams } from "@/lib/data/utils/token-sort";
+import { GroupMode, parseGroupParam } from "@/lib/data/utils/token-group";
+
+const ARRANGEMENT_PARAMS = ["sort", "order", "seed", "group"] as const;
+
+type ArrangementParams = Partial<Record<(typeof ARRANGEMENT_PARAMS)[number], string>>;
+
+/**
+ * Hook to read the room order and grouping from the `?sort=`, `?order=`, `?seed=` and `?group=` query params
+ * - Invalid params fall back to the gallery's default order and plain rooms
+ * - withSort() keeps the order and grouping when navigating between rooms
+ */
+export function useGallerySort(): {
+    sort: GallerySort;
+    group: GroupMode;
+    withSort: (path: string, next?: ArrangementParams) => string;
+} {
+    const searchParams = useSearchParams();
+    const parsed = parseSortParams(searchParams);
+    const parsedGroup = parseGroupParam(searchParams);
+    const sort: GallerySort = parsed.valid ? parsed.sort : DEFAULT_SORT;
+    const group: GroupMode = parsedGroup.valid ? parsedGroup.group : "none";
+
+    // Carries the raw params (an unseeded random order stays unseeded), with `next` replacing any of them
+    const withSort = (path: string, next: ArrangementParams = {}) => {
+        const current: ArrangementParams = {
+            sort: parsed.valid ? searchParams.get("sort") ?? undefined : undefined,
+            order: parsed.valid ? searchParams.get("order") ?? undefined : undefined,
+            seed: parsed.valid ? searchParams.get("seed") ?? undefined : undefined,
+            group,
+        };
+
+        const params = new URLSearchParams();
+        for (const name of ARRANGEMENT_PARAMS) {
+            const value = name in next ? next[name] : current[name];
+            if (value && value !== "default" && value !== "none") params.set(name, value);
+        }
+
+        const query = params.toString();
+        if (!query) return path;
+        return `${path}${path.includes("?") ? "&" : "?"}${query}`;
+    };
+
+    return { sort, group, withSort };
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { useSearchParams } from "next/navigation";
+import {
+    DEFAULT_NETWORK,
+    NetworkConfig,
+    NetworkId,
+    getNetworkConfig,
+    resolveNetworkParam,
+} from "@/lib/data/config/networks";
+
+/**
+ * Hook to read the selected Tezos network from the `?network=` query param
+ * - Unknown or unconfigured networks fall back to mainnet
+ * - withNetwork() keeps the selection when navigating between gallery routes
+ */
+export function useNetwork(): {
+    network: NetworkId;
+    config: NetworkConfig;
+    withNetwork: (path: string) => string;
+} {
+    const searchParams = useSearchParams();
+    const network = resolveNetworkParam(searchParams.get("network")) || DEFAULT_NETWORK;
+
+    const withNetwork = (path: string) => (network === DEFAULT_NETWORK ? path : `${path}?network=${network}`);
+
+    return {
+        network,
+        config: getNetworkConfig(network),
+        withNetwork,
+    };
+}
@@ -1,7 +1,8 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { tzktSdkClient } from "@/lib/data/sources/tzkt-sdk-client";
+import { getTzktSdkClient } from "@/lib/data/sources/tzkt-sdk-client";
+import { useNetwork } from "@/hooks/use-network";
 
 interface TezosDomain {
     name: string;
@@ -18,6 +19,7 @@ export function useTezosDomain(walletAddress: string) {
     const [domain, setDomain] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const { network } = useNetwork();
 
     useEffect(() => {
         if (!walletAddress) {
@@ -30,8 +32,8 @@ export function useTezosDomain(walletAddress: string) {
             setError(null);
 
             try {
-                // Use TzKT SDK client for domain lookup
-                const domains = await tzktSdkClient.getDomainsByAddress(walletAddress, true, 1);
+                // Use TzKT SDK client for domain lookup on the selected network
+                const domains = await getTzktSdkClient(network).getDomainsByAddress(walletAddress, true, 1);
 
                 if (domains.length > 0 && domains[0].name) {
                     setDomain(domains[0].name);
@@ -47,7 +49,7 @@ export function useTezosDomain(walletAddress: string) {
         };
 
         fetchDomain();
-    }, [walletAddress]);
+    }, [walletAddress, network]);
 
     return {
         domain,
@@ -0,0 +1,88 @@
+/**
+ * Cache Backend Factory
+ *
+ * Selects the cache backend from environment configuration:
+ * - CACHE_BACKEND: upstash | memory | filesystem | tiered
+ *   (defaults to upstash when Upstash credentials are set, otherwise memory)
+ * - CACHE_MEMORY_MAX_BYTES: byte budget for the in-process LRU (default 64 MB)
+ * - CACHE_MEMORY_TTL_SECONDS: max memory-tier TTL in tiered mode (default 60)
+ * - CACHE_FS_DIR: directory for the filesystem backend (default OS temp dir)
+ */
+
+import { CACHE_BACKEND_TYPES, CacheBackend, CacheBackendType } from "./cache-backend";
+import { FilesystemCacheBackend } from "./filesystem-backend";
+import { MemoryCacheBackend } from "./memory-backend";
+import { TieredCacheBackend } from "./tiered-backend";
+import { UpstashCacheBackend } from "./upstash-backend";
+
+/**
+ * Parse a positive integer env value, falling back when missing or invalid
+ */
+function readPositiveInt(value: string | undefined): number | undefined {
+    const parsed = value ? parseInt(value, 10) : NaN;
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function createUpstashBackend(): UpstashCacheBackend | null {
+    const url = process.env.UPSTASH_REDIS_REST_URL;
+    const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+    if (!url || !token) {
+        return null;
+    }
+
+    return new UpstashCacheBackend({ url, token });
+}
+
+function createMemoryBackend(): MemoryCacheBackend {
+    const maxBytes = readPositiveInt(process.env.CACHE_MEMORY_MAX_BYTES);
+    return new MemoryCacheBackend(maxBytes ? { maxBytes } : {});
+}
+
+/**
+ * Resolve the configured backend type
+ */
+export function resolveCacheBackendType(): CacheBackendType {
+    const requested = process.env.CACHE_BACKEND?.toLowerCase();
+
+    if (requested) {
+        if ((CACHE_BACKEND_TYPES as readonly string[]).includes(requested)) {
+            return requested as CacheBackendType;
+        }
+        console.warn(`⚠️ Unknown CACHE_BACKEND "${requested}", expected one of: ${CACHE_BACKEND_TYPES.join(", ")}`);
+    }
+
+    return process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN ? "upstash" : "memory";
+}
+
+/**
+ * Create the cache backend selected by environment configuration
+ */
+export function createCacheBackend(type: CacheBackendType = resolveCacheBackendType()): CacheBackend {
+    switch (type) {
+        case "filesystem": {
+            const directory = process.env.CACHE_FS_DIR;
+            return new FilesystemCacheBackend(directory ? { directory } : {});
+        }
+
+        case "upstash":
+        case "tiered": {
+            const upstash = createUpstashBackend();
+            if (!upstash) {
+                console.warn(`⚠️ CACHE_BACKEND=${type} requires Upstash credentials, using in-memory cache`);
+                return createMemoryBackend();
+            }
+
+            if (type === "upstash") {
+                return upstash;
+            }
+
+            const memoryTtlSeconds = readPositiveInt(process.env.CACHE_MEMORY_TTL_SECONDS);
+            return new TieredCacheBackend(createMemoryBackend(), upstash, memoryTtlSeconds ? { memoryTtlSeconds } : {});
+        }
+
+        case "memory":
+        default:
+            return createMemoryBackend();
+    }
+}
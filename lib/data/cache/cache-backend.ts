@@ -0,0 +1,133 @@
+/**
+ * Cache Backend Interface
+ *
+ * Storage contract used by CacheManager so Redis, in-process memory and the
+ * filesystem can be swapped (or layered) without touching cache logic.
+ * Values are stored as strings; backends may return already-parsed JSON on read.
+ */
+
+/**
+ * Hit/miss counters for a single storage tier
+ */
+export interface CacheTierStats {
+    hits: number;
+    misses: number;
+    hitRate: number;
+}
+
+/**
+ * Sorted set member with its score
+ */
+export interface ScoredMember {
+    member: string;
+    score: number;
+}
+
+/**
+ * Key-value storage contract - all backends must implement this
+ */
+export interface CacheBackend {
+    readonly name: string;
+
+    /**
+     * Read operations (null when missing or expired)
+     */
+    get(key: string): Promise<unknown | null>;
+    mget(keys: string[]): Promise<(unknown | null)[]>;
+
+    /**
+     * Write operations
+     */
+    setex(key: string, ttlSeconds: number, value: string): Promise<void>;
+    setnx(key: string, ttlSeconds: number, value: string): Promise<boolean>; // Only if absent (used for locks)
+    del(keys: string[]): Promise<number>;
+    delIfEquals(key: string, value: string): Promise<boolean>; // Atomic compare-and-delete (used for locks)
+
+    /**
+     * Counters - integer hash fields incremented atomically (missing fields start at 0).
+     * Each increment also resets the key's expiry.
+     */
+    hincrby(key: string, increments: Record<string, number>, ttlSeconds: number): Promise<void>;
+    hgetall(key: string): Promise<Record<string, number> | null>;
+
+    /**
+     * Sorted sets - members read highest score first. Writes extend the key's expiry to at least
+     * ttlSeconds and never shorten it.
+     */
+    zadd(key: string, scores: Record<string, number>, ttlSeconds: number): Promise<void>;
+    zrem(key: string, members: string[]): Promise<void>;
+    zremrangebyscore(key: string, maxScore: number): Promise<void>; // Drops members scored at or below maxScore
+    ztrim(key: string, maxMembers: number): Promise<void>; // Keeps only the maxMembers highest-scored members
+    zrange(key: string, limit?: number): Promise<ScoredMember[]>;
+
+    /**
+     * Glob-style key listing (supports * and ?)
+     */
+    keys(pattern: string): Promise<string[]>;
+
+    /**
+     * Remaining lifetime in seconds (null when missing or without expiry)
+     */
+    ttl(key: string): Promise<number | null>;
+
+    /**
+     * Health and monitoring
+     */
+    ping(): Promise<boolean>;
+    getTierStats(): Record<string, CacheTierStats>;
+    resetTierStats(): void;
+}
+
+/**
+ * Supported backend types (selected via CACHE_BACKEND)
+ */
+export const CACHE_BACKEND_TYPES = ["upstash", "memory", "filesystem", "tiered"] as const;
+export type CacheBackendType = (typeof CACHE_BACKEND_TYPES)[number];
+
+/**
+ * Hit/miss counter shared by backend implementations
+ */
+export class TierStatsCounter {
+    private hits = 0;
+    private misses = 0;
+
+    record(hit: boolean): void {
+        if (hit) {
+            this.hits++;
+        } else {
+            this.misses++;
+        }
+    }
+
+    snapshot(): CacheTierStats {
+        const total = this.hits + this.misses;
+        return {
+            hits: this.hits,
+            misses: this.misses,
+            hitRate: total > 0 ? this.hits / total : 0,
+        };
+    }
+
+    reset(): void {
+        this.hits = 0;
+        this.misses = 0;
+    }
+}
+
+/**
+ * Sorted set members highest score first, optionally capped
+ */
+export function rankScores(scores: Record<string, number>, limit?: number): ScoredMember[] {
+    const ranked = Object.entries(scores)
+        .map(([member, score]) => ({ member, score }))
+        .sort((a, b) => b.score - a.score);
+    return limit === undefined ? ranked : ranked.slice(0, limit);
+}
+
+/**
+ * Convert a Redis-style glob pattern into a RegExp
+ */
+export function globToRegExp(pattern: string): RegExp {
+    const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+    return new RegExp(`^${escaped}$`);
+}
@@ -2,21 +2,52 @@
  * Cache Manager - Main orchestrator for cache operations
  *
  * Handles cache hit/miss logic, TTL management, compression, and cache invalidation.
- * Server-side only with direct Redis integration.
+ * Server-side only; storage is delegated to a pluggable CacheBackend (see backend-factory).
  */
 
-import { Redis } from "@upstash/redis";
-import { compressData, decompressData, CompressionConfig, DEFAULT_COMPRESSION_CONFIG } from "../utils/compression";
+import { randomUUID } from "crypto";
+import { CacheBackend, CacheTierStats } from "./cache-backend";
+import { createCacheBackend } from "./backend-factory";
+import { DailyUsageStats, GalleryVisits, UsageStatsRecorder } from "./usage-stats";
+import {
+    compressData,
+    decompressData,
+    CompressionConfig,
+    CompressionResult,
+    DEFAULT_COMPRESSION_CONFIG,
+    resolveCompressionCodec,
+} from "../utils/compression";
 import {
     CacheMetadata,
+    ChunkManifest,
     TokenCollectionCacheEntry,
     userCollection,
     curationCollection,
     contractCollection,
+    artistCollection,
     curationMetadata,
     collectionMetadata,
+    networkScopedKey,
+    entryMetadata,
+    hiddenTokens,
+    searchIndex,
+    roomGroups,
+    collectionSummary,
+    cacheChunk,
+    buildLock,
+    refreshThrottle,
+    filterRules,
+    galleryForKey,
+    galleryKeyIndex,
+    galleryTypeForKey,
+    cacheSizeIndex,
 } from "../types/cache-types";
-import { UnifiedToken, DataSource } from "../types/token-types";
+import type { GalleryType } from "../types/gallery-types";
+import type { FilterConfig } from "../config/filter-rules";
+import { UnifiedToken, DataSource, ExcludedToken, UnifiedCollection } from "../types/token-types";
+import type { SearchIndexEntry } from "../utils/token-search";
+import type { RoomGroup } from "../utils/token-group";
+import { DEFAULT_NETWORK, NetworkId } from "../config/networks";
 
 /**
  * Cache operation result
@@ -24,10 +55,21 @@ import { UnifiedToken, DataSource } from "../types/token-types";
 export interface CacheResult<T> {
     data: T | null;
     hit: boolean;
+    isStale?: boolean; // Past soft expiry - usable, but should be rebuilt
     metadata?: CacheMetadata;
     error?: string;
 }
 
+/**
+ * A slice of a cached collection
+ */
+export interface CacheRange<T> {
+    items: T[];
+    offset: number;
+    totalItems: number; // Size of the whole collection
+    chunksRead: number; // 0 when the entry is not chunked
+}
+
 /**
  * Cache build result for tracking cache population
  */
@@ -46,31 +88,127 @@ export interface CacheBuildResult {
 export interface CacheManagerConfig {
     compression: CompressionConfig;
     defaultTtlSeconds: number;
+    staleWindowSeconds: number; // How long entries stay servable (as stale) after their TTL
     maxRetries: number;
     enableStatistics: boolean;
+    distributedLocks: boolean; // Coordinate cache builds across instances through the backend
+    lockTtlSeconds: number; // Lock expiry, in case the holder dies mid-build
+    lockWaitMs: number; // How long to wait for another instance's build before building anyway
+    refreshIntervalSeconds: number; // Minimum time between public forced refreshes of one gallery
+    chunkSize: number; // Collections larger than this are stored in chunks of this many items (0 disables)
 }
 
 /**
  * Default cache manager configuration
  */
 export const DEFAULT_CACHE_CONFIG: CacheManagerConfig = {
-    compression: DEFAULT_COMPRESSION_CONFIG,
+    compression: { ...DEFAULT_COMPRESSION_CONFIG, codec: resolveCompressionCodec(process.env.CACHE_COMPRESSION_CODEC) },
     defaultTtlSeconds: 3600, // 1 hour
+    staleWindowSeconds: 86400, // 24 hours
     maxRetries: 3,
     enableStatistics: true,
+    distributedLocks: process.env.CACHE_DISTRIBUTED_LOCK === "true",
+    lockTtlSeconds: 60,
+    lockWaitMs: 15000,
+    refreshIntervalSeconds: 60,
+    chunkSize: parseInt(process.env.CACHE_CHUNK_SIZE || "200"), // 10 rooms of 20
 };
 
+/**
+ * Stored filter rules never expire in practice - backends only write with a TTL
+ */
+const FILTER_RULES_TTL_SECONDS = 10 * 365 * 86400;
+
+/**
+ * Interval between cache checks while waiting on another instance's build
+ */
+const LOCK_POLL_INTERVAL_MS = 250;
+
+/**
+ * Held build lock - the token proves ownership on release
+ */
+export interface CacheLock {
+    key: string;
+    token: string;
+}
+
 /**
  * Cache statistics for monitoring
  */
 export interface CacheStats {
     hits: number;
+    staleHits: number;
     misses: number;
     hitRate: number;
     totalRequests: number;
     totalCacheBuilds: number;
     totalErrors: number;
     averageBuildTimeMs: number;
+    backend?: string; // Active backend name (e.g. "memory+upstash")
+    tiers?: Record<string, CacheTierStats>; // Per-tier hits/misses from the backend
+}
+
+/**
+ * Size and compression of a stored token collection (from its entry metadata)
+ */
+export interface CacheKeySize {
+    key: string;
+    galleryType: GalleryType | null;
+    itemCount: number;
+    originalSize: number;
+    compressedSize: number;
+    compressionRatio: number;
+    isCompressed: boolean;
+    codec?: string;
+    createdAt: Date;
+    softExpiresAt?: Date;
+}
+
+/**
+ * Stored size, TTL and compression of a single cache key (for the admin API)
+ */
+export interface CacheKeyInfo {
+    key: string;
+    galleryType: GalleryType | null;
+    ttlSeconds: number | null; // Null when the key has no expiry
+    size: number; // Stored bytes (all chunks for chunked entries)
+    isCompressed: boolean | null; // Null for entries written without metadata
+    codec?: string;
+    originalSize?: number;
+    compressionRatio?: number;
+    itemCount?: number;
+    chunkCount?: number;
+    createdAt?: Date;
+    softExpiresAt?: Date;
+}
+
+/**
+ * Outcome of a public refresh request
+ */
+export interface RefreshSlot {
+    allowed: boolean;
+    retryAfterSeconds: number; // 0 when allowed
+}
+
+/**
+ * Size index bounds - the largest keys kept, and how long the index outlives its last write
+ */
+const SIZE_INDEX_MAX_KEYS = 1000;
+const SIZE_INDEX_TTL_SECONDS = 7 * 86400;
+
+/**
+ * Times the top keys are re-read after dropping expired or invalidated ones from the size index
+ */
+const SIZE_INDEX_READ_PASSES = 5;
+
+/**
+ * Chunk manifest stored at an entry key in place of the collection
+ */
+function chunkManifestOf(value: unknown): ChunkManifest | null {
+    if (value && typeof value === "object" && !Array.isArray(value) && "chunked" in value) {
+        return (value as { chunked: ChunkManifest }).chunked;
+    }
+    return null;
 }
 
 /**
@@ -79,13 +217,14 @@ export interface CacheStats {
 export class CacheManager {
     private config: CacheManagerConfig;
     private stats: CacheStats;
-    private redis: Redis | null = null;
-    private isConfigured: boolean;
+    private backend: CacheBackend;
+    private usage: UsageStatsRecorder;
 
-    constructor(config: Partial<CacheManagerConfig> = {}) {
+    constructor(config: Partial<CacheManagerConfig> = {}, backend: CacheBackend = createCacheBackend()) {
         this.config = { ...DEFAULT_CACHE_CONFIG, ...config };
         this.stats = {
             hits: 0,
+            staleHits: 0,
             misses: 0,
             hitRate: 0,
             totalRequests: 0,
@@ -93,97 +232,182 @@ export class CacheManager {
             totalErrors: 0,
             averageBuildTimeMs: 0,
         };
+        this.backend = backend;
+        this.usage = new UsageStatsRecorder(backend);
+    }
 
-        // Initialize Redis connection (server-side only)
-        this.isConfigured = !!(process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN);
+    /**
+     * Get cached data with automatic decompression (chunked collections are reassembled)
+     */
+    async get<T>(cacheKey: string): Promise<CacheResult<T>> {
+        this.stats.totalRequests++;
 
-        if (this.isConfigured) {
-            this.redis = new Redis({
-                url: process.env.UPSTASH_REDIS_REST_URL!,
-                token: process.env.UPSTASH_REDIS_REST_TOKEN!,
-            });
+        try {
+            const entry = await this.readEntry<T>(cacheKey);
+            return entry ? this.recordHit(entry.data, entry.metadata) : this.recordMiss();
+        } catch (error) {
+            this.recordError();
+            console.error("Cache get error:", error);
+            return { ...this.recordMiss<T>(), error: error instanceof Error ? error.message : "Unknown cache error" };
         }
     }
 
     /**
-     * Get cached data with automatic decompression
+     * Read and decode an entry (reassembling chunks) without touching hit/miss stats - null when missing
      */
-    async get<T>(cacheKey: string): Promise<CacheResult<T>> {
+    private async readEntry<T>(cacheKey: string): Promise<{ data: T; metadata?: CacheMetadata } | null> {
+        // Stored as Buffer if compressed - read along with its metadata
+        const [cached, rawMetadata] = await this.backend.mget([cacheKey, entryMetadata(cacheKey)]);
+
+        if (!cached) {
+            return null;
+        }
+
+        let data: T = await this.decode<T>(cached);
+
+        const manifest = chunkManifestOf(data);
+        if (manifest) {
+            const chunks = await this.readChunks<unknown>(cacheKey, manifest, 0, manifest.chunkCount - 1);
+            if (!chunks) {
+                return null;
+            }
+            data = chunks.flat() as T;
+        }
+
+        return { data, metadata: this.parseMetadata(rawMetadata) };
+    }
+
+    /**
+     * Get `limit` items starting at `offset` from a cached collection.
+     * Chunked collections only load the chunks covering the range; other entries are sliced.
+     */
+    async getRange<T>(cacheKey: string, offset: number, limit: number): Promise<CacheResult<CacheRange<T>>> {
         this.stats.totalRequests++;
 
         try {
-            // Check if cache is available
-            if (!this.isConfigured || !this.redis) {
-                this.stats.misses++;
-                this.updateHitRate();
-                return {
-                    data: null,
-                    hit: false,
-                    error: "Cache not available",
-                };
+            const [cached, rawMetadata] = await this.backend.mget([cacheKey, entryMetadata(cacheKey)]);
+
+            if (!cached) {
+                return this.recordMiss();
             }
 
-            // Attempt to get from cache - stored as Buffer if compressed
-            const cached = await this.redis.get(cacheKey);
+            const data = await this.decode<unknown>(cached);
+            const manifest = chunkManifestOf(data);
+            let range: CacheRange<T>;
 
-            if (!cached) {
-                this.stats.misses++;
-                this.updateHitRate();
-                return {
-                    data: null,
-                    hit: false,
+            if (manifest) {
+                const first = Math.floor(offset / manifest.chunkSize);
+                const last = Math.min(manifest.chunkCount - 1, Math.floor((offset + limit - 1) / manifest.chunkSize));
+                const chunks = first <= last ? await this.readChunks<T>(cacheKey, manifest, first, last) : [];
+                if (!chunks) {
+                    return this.recordMiss();
+                }
+
+                const start = offset - first * manifest.chunkSize;
+                range = {
+                    items: chunks.flat().slice(start, start + limit),
+                    offset,
+                    totalItems: manifest.totalItems,
+                    chunksRead: chunks.length,
                 };
+            } else {
+                const items = Array.isArray(data) ? (data as T[]) : [];
+                range = { items: items.slice(offset, offset + limit), offset, totalItems: items.length, chunksRead: 0 };
             }
 
-            // Check if data is compressed (stored as string) or uncompressed
-            let decompressedData: T;
+            return this.recordHit(range, this.parseMetadata(rawMetadata));
+        } catch (error) {
+            this.recordError();
+            console.error("Cache get range error:", error);
+            return {
+                ...this.recordMiss<CacheRange<T>>(),
+                error: error instanceof Error ? error.message : "Unknown cache error",
+            };
+        }
+    }
 
-            if (typeof cached === "string") {
-                // Try to determine if it's compressed by attempting decompression
+    /**
+     * Decode a stored value - compressed base64, plain JSON, legacy wrapper or an already-parsed object
+     */
+    private async decode<T>(cached: unknown): Promise<T> {
+        if (typeof cached === "string") {
+            // Try to determine if it's compressed by attempting decompression
+            try {
+                // First, try as compressed data (base64 -> gunzip -> JSON)
+                return await decompressData(cached, true);
+            } catch {
                 try {
-                    // First, try as compressed data (base64 -> gunzip -> JSON)
-                    decompressedData = await decompressData(cached, true);
+                    // If decompression fails, try parsing as JSON directly
+                    return JSON.parse(cached);
                 } catch {
-                    try {
-                        // If decompression fails, try parsing as JSON directly
-                        decompressedData = JSON.parse(cached);
-                    } catch {
-                        // If both fail, use as is
-                        decompressedData = cached as T;
-                    }
+                    // If both fail, use as is
+                    return cached as T;
                 }
-            } else if (typeof cached === "object" && cached !== null && "isCompressed" in cached) {
-                // Legacy format - check metadata
-                const cacheEntry = cached as any;
-                if (cacheEntry.isCompressed && typeof cacheEntry.data === "string") {
-                    decompressedData = await decompressData(cacheEntry.data, true);
-                } else {
-                    decompressedData = cacheEntry.data;
-                }
-            } else {
-                // Data was not compressed or is already an object
-                decompressedData = cached as T;
             }
+        }
 
-            this.stats.hits++;
-            this.updateHitRate();
+        if (typeof cached === "object" && cached !== null && "isCompressed" in cached) {
+            // Legacy format - check metadata
+            const cacheEntry = cached as any;
+            if (cacheEntry.isCompressed && typeof cacheEntry.data === "string") {
+                return decompressData(cacheEntry.data, true);
+            }
+            return cacheEntry.data;
+        }
 
-            return {
-                data: decompressedData,
-                hit: true,
-            };
-        } catch (error) {
-            this.stats.totalErrors++;
-            this.stats.misses++;
-            this.updateHitRate();
+        // Data was not compressed or is already an object
+        return cached as T;
+    }
 
-            console.error("Cache get error:", error);
-            return {
-                data: null,
-                hit: false,
-                error: error instanceof Error ? error.message : "Unknown cache error",
-            };
+    /**
+     * Load chunks `first`..`last` of a chunked collection (null if any has gone missing)
+     */
+    private async readChunks<T>(
+        cacheKey: string,
+        manifest: ChunkManifest,
+        first: number,
+        last: number
+    ): Promise<T[][] | null> {
+        const keys = Array.from({ length: last - first + 1 }, (_, index) =>
+            cacheChunk(cacheKey, manifest.buildId, first + index)
+        );
+        const values = await this.backend.mget(keys);
+
+        if (values.some((value) => value === null)) {
+            console.warn(`⚠️ Missing chunk for ${cacheKey} - treating as a miss`);
+            return null;
+        }
+
+        return Promise.all(values.map((value) => this.decode<T[]>(value)));
+    }
+
+    private recordHit<T>(data: T, metadata?: CacheMetadata): CacheResult<T> {
+        const isStale = !!metadata?.softExpiresAt && metadata.softExpiresAt.getTime() <= Date.now();
+
+        this.stats.hits++;
+        if (isStale) {
+            this.stats.staleHits++;
         }
+        this.usage.recordHit(isStale);
+        this.updateHitRate();
+
+        return {
+            data,
+            hit: true,
+            isStale,
+            metadata,
+        };
+    }
+
+    private recordMiss<T>(): CacheResult<T> {
+        this.stats.misses++;
+        this.usage.recordMiss();
+        this.updateHitRate();
+
+        return {
+            data: null,
+            hit: false,
+        };
     }
 
     /**
@@ -191,21 +415,25 @@ export class CacheManager {
      */
     async set<T>(cacheKey: string, data: T, ttlSeconds: number = this.config.defaultTtlSeconds): Promise<boolean> {
         try {
-            // Check if cache is available
-            if (!this.isConfigured || !this.redis) {
-                console.warn("Cache not available, skipping set operation");
-                return false;
-            }
-
             // Compress the data
             const compressionResult = await compressData(data, this.config.compression);
+            return await this.store(cacheKey, compressionResult, ttlSeconds);
+        } catch (error) {
+            this.recordError();
+            console.error("Cache set error:", error);
+            return false;
+        }
+    }
 
-            // Store the compressed data directly in Redis
-            await this.redis.setex(cacheKey, ttlSeconds, compressionResult.data);
-
+    /**
+     * Store already-compressed data directly in the backend
+     */
+    private async store(cacheKey: string, compressionResult: CompressionResult, ttlSeconds: number): Promise<boolean> {
+        try {
+            await this.backend.setex(cacheKey, ttlSeconds, compressionResult.data);
             return true;
         } catch (error) {
-            this.stats.totalErrors++;
+            this.recordError();
             console.error("Cache set error:", error);
             return false;
         }
@@ -216,69 +444,341 @@ export class CacheManager {
      */
     async invalidate(cacheKey: string): Promise<boolean> {
         try {
-            if (!this.isConfigured || !this.redis) {
-                return false;
-            }
-
-            const result = await this.redis.del(cacheKey);
+            const chunkKeys = await this.chunkKeysFor([cacheKey]);
+            const result = await this.backend.del([
+                cacheKey,
+                entryMetadata(cacheKey),
+                hiddenTokens(cacheKey),
+                searchIndex(cacheKey),
+                roomGroups(cacheKey),
+                collectionSummary(cacheKey),
+                ...chunkKeys,
+            ]);
             return result > 0;
         } catch (error) {
-            this.stats.totalErrors++;
+            this.recordError();
             console.error("Cache invalidate error:", error);
             return false;
         }
     }
 
+    /**
+     * Delete exact cache keys along with their entry metadata and chunks
+     */
+    async invalidateKeys(cacheKeys: string[]): Promise<number> {
+        if (cacheKeys.length === 0) {
+            return 0;
+        }
+
+        try {
+            const chunkKeys = await this.chunkKeysFor(cacheKeys);
+            const deleted = await this.backend.del(cacheKeys);
+            await this.backend.del([
+                ...cacheKeys.map(entryMetadata),
+                ...cacheKeys.map(hiddenTokens),
+                ...cacheKeys.map(searchIndex),
+                ...cacheKeys.map(roomGroups),
+                ...cacheKeys.map(collectionSummary),
+                ...chunkKeys,
+            ]);
+            return deleted;
+        } catch (error) {
+            this.recordError();
+            console.error("Cache invalidate keys error:", error);
+            return 0;
+        }
+    }
+
+    /**
+     * Delete every token collection key recorded in a gallery's key index (with their sidecars and chunks),
+     * plus the given exact keys. Reads the index instead of scanning the keyspace.
+     */
+    async invalidateGallery(
+        galleryType: GalleryType,
+        identifier: string,
+        network: NetworkId = DEFAULT_NETWORK,
+        exactKeys: string[] = []
+    ): Promise<number> {
+        const index = galleryKeyIndex(galleryType, identifier, network);
+
+        try {
+            const indexed = (await this.backend.zrange(index)).map(({ member }) => member);
+            const deleted = await this.invalidateKeys([...new Set([...indexed, ...exactKeys])]);
+            // Only the members read - keys a concurrent build adds stay indexed
+            await this.backend.zrem(index, indexed);
+            return deleted;
+        } catch (error) {
+            this.recordError();
+            console.error("Cache invalidate gallery error:", error);
+            return 0;
+        }
+    }
+
+    /**
+     * Chunk keys of the current build of each entry (from entry metadata)
+     */
+    private async chunkKeysFor(cacheKeys: string[]): Promise<string[]> {
+        const rawMetadata = await this.backend.mget(cacheKeys.map(entryMetadata));
+
+        return cacheKeys.flatMap((cacheKey, index) => {
+            const chunks = this.parseMetadata(rawMetadata[index])?.chunks;
+            return chunks
+                ? Array.from({ length: chunks.chunkCount }, (_, chunk) => cacheChunk(cacheKey, chunks.buildId, chunk))
+                : [];
+        });
+    }
+
     /**
      * Delete multiple cached entries using pattern matching
      * WARNING: Use with caution - this scans all keys
      */
     async invalidatePattern(pattern: string): Promise<number> {
         try {
-            if (!this.isConfigured || !this.redis) {
-                return 0;
-            }
-
             // Get all keys matching the pattern
-            const keys = await this.redis.keys(pattern);
+            const keys = await this.backend.keys(pattern);
 
             if (keys.length === 0) {
                 return 0;
             }
 
             // Delete all matching keys
-            const result = await this.redis.del(...keys);
+            const result = await this.backend.del(keys);
             return result;
         } catch (error) {
-            this.stats.totalErrors++;
+            this.recordError();
             console.error("Cache invalidate pattern error:", error);
             return 0;
         }
     }
 
+    /**
+     * Keys matching a glob pattern, without sidecars (metadata, hidden tokens, search, rooms, summary) or chunks
+     * WARNING: Scans all keys
+     */
+    async listKeys(pattern: string): Promise<string[]> {
+        const keys = await this.backend.keys(pattern);
+        const sidecarSuffixes = [
+            entryMetadata(""),
+            hiddenTokens(""),
+            searchIndex(""),
+            roomGroups(""),
+            collectionSummary(""),
+        ];
+        return keys
+            .filter((key) => !sidecarSuffixes.some((suffix) => key.endsWith(suffix)) && !key.includes(":chunk:"))
+            .sort();
+    }
+
+    /**
+     * Stored size, TTL and compression for each key (missing keys are left out)
+     */
+    async inspectKeys(cacheKeys: string[]): Promise<CacheKeyInfo[]> {
+        if (cacheKeys.length === 0) {
+            return [];
+        }
+
+        const [values, rawMetadata, ttls] = await Promise.all([
+            this.backend.mget(cacheKeys),
+            this.backend.mget(cacheKeys.map(entryMetadata)),
+            Promise.all(cacheKeys.map((key) => this.backend.ttl(key))),
+        ]);
+
+        const infos: CacheKeyInfo[] = [];
+        cacheKeys.forEach((key, index) => {
+            const value = values[index];
+            if (value === null) {
+                return;
+            }
+
+            const serialized = typeof value === "string" ? value : JSON.stringify(value);
+            const metadata = this.parseMetadata(rawMetadata[index]);
+            const originalSize = metadata?.originalSize;
+            const size = metadata?.chunks ? (metadata.compressedSize ?? 0) : Buffer.byteLength(serialized);
+
+            infos.push({
+                key,
+                galleryType: galleryTypeForKey(key),
+                ttlSeconds: ttls[index],
+                size,
+                isCompressed: metadata ? metadata.isCompressed : null,
+                codec: metadata?.codec,
+                originalSize,
+                compressionRatio: originalSize ? size / originalSize : undefined,
+                itemCount: metadata?.itemCount,
+                chunkCount: metadata?.chunks?.chunkCount,
+                createdAt: metadata?.createdAt,
+                softExpiresAt: metadata?.softExpiresAt,
+            });
+        });
+
+        return infos;
+    }
+
+    /**
+     * Claim the public refresh slot for a gallery - at most one forced refresh per refreshIntervalSeconds
+     */
+    async acquireRefreshSlot(
+        galleryType: GalleryType,
+        identifier: string,
+        network: NetworkId = DEFAULT_NETWORK
+    ): Promise<RefreshSlot> {
+        const key = refreshThrottle(galleryType, identifier, network);
+
+        try {
+            const interval = this.config.refreshIntervalSeconds;
+            if (await this.backend.setnx(key, interval, new Date().toISOString())) {
+                return { allowed: true, retryAfterSeconds: 0 };
+            }
+
+            const remaining = await this.backend.ttl(key);
+            return { allowed: false, retryAfterSeconds: remaining ?? interval };
+        } catch (error) {
+            // Without a working backend there is no cache to protect
+            this.recordError();
+            console.error("Cache refresh throttle error:", error);
+            return { allowed: true, retryAfterSeconds: 0 };
+        }
+    }
+
+    /**
+     * Whether cache builds should be coordinated across instances
+     */
+    get distributedLocksEnabled(): boolean {
+        return this.config.distributedLocks;
+    }
+
+    /**
+     * Try to take the build lock for a cache key (null when another instance holds it)
+     */
+    async acquireLock(cacheKey: string): Promise<CacheLock | null> {
+        const lock: CacheLock = { key: buildLock(cacheKey), token: randomUUID() };
+
+        try {
+            const acquired = await this.backend.setnx(lock.key, this.config.lockTtlSeconds, lock.token);
+            return acquired ? lock : null;
+        } catch (error) {
+            // Without a working lock every instance just builds for itself
+            this.recordError();
+            console.error("Cache lock acquire error:", error);
+            return lock;
+        }
+    }
+
+    /**
+     * Release a build lock, unless it has expired and been taken by someone else
+     */
+    async releaseLock(lock: CacheLock): Promise<void> {
+        try {
+            await this.backend.delIfEquals(lock.key, lock.token);
+        } catch (error) {
+            // The lock expires on its own
+            this.recordError();
+            console.error("Cache lock release error:", error);
+        }
+    }
+
+    /**
+     * Wait for an entry built at or after `builtAfter` to appear (another instance's build).
+     * Polls only the entry metadata and leaves hit/miss stats alone until the entry is served.
+     * Returns a miss once lockWaitMs has passed.
+     */
+    async waitForBuild<T>(cacheKey: string, builtAfter: Date): Promise<CacheResult<T>> {
+        const deadline = Date.now() + this.config.lockWaitMs;
+
+        while (Date.now() < deadline) {
+            await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_INTERVAL_MS));
+
+            try {
+                const metadata = this.parseMetadata(await this.backend.get(entryMetadata(cacheKey)));
+                if (!metadata || metadata.createdAt < builtAfter) {
+                    continue;
+                }
+
+                const entry = await this.readEntry<T>(cacheKey);
+                if (entry?.metadata && entry.metadata.createdAt >= builtAfter) {
+                    return this.recordHit(entry.data, entry.metadata);
+                }
+            } catch (error) {
+                this.recordError();
+                console.error("Cache wait for build error:", error);
+            }
+        }
+
+        return { data: null, hit: false };
+    }
+
     /**
      * Build cache for a collection of tokens
-     * This is the main cache population method
+     * This is the main cache population method.
+     * ttlSeconds is the soft expiry - the entry is kept for staleWindowSeconds longer and served as stale.
      */
     async buildCache(
         cacheKey: string,
         tokens: UnifiedToken[],
-        ttlSeconds: number = this.config.defaultTtlSeconds
+        ttlSeconds: number = this.config.defaultTtlSeconds,
+        metadata: Partial<CacheMetadata> = {}
     ): Promise<CacheBuildResult> {
         const startTime = Date.now();
         this.stats.totalCacheBuilds++;
 
         try {
-            // Get compression info before storing
-            const compressionResult = await compressData(tokens, this.config.compression);
+            // Hard expiry includes the stale window
+            const hardTtlSeconds = ttlSeconds + this.config.staleWindowSeconds;
+            const chunkSize = this.config.chunkSize;
 
-            // Set the cache with the token collection
-            const success = await this.set(cacheKey, tokens, ttlSeconds);
+            // Large collections are written as chunks first, then the manifest replaces the previous entry
+            const previousChunks = await this.chunkKeysFor([cacheKey]);
+            const chunked =
+                chunkSize > 0 && tokens.length > chunkSize
+                    ? await this.storeChunks(cacheKey, tokens, chunkSize, hardTtlSeconds)
+                    : null;
+            const compressionResult = chunked
+                ? chunked.compression
+                : await compressData(tokens, this.config.compression);
+
+            // Set the cache with the token collection (or its chunk manifest)
+            const success = await this.store(cacheKey, compressionResult, hardTtlSeconds);
+
+            if (success && previousChunks.length > 0) {
+                this.backend.del(previousChunks).catch(() => undefined); // Old chunks would expire anyway
+            }
+
+            if (success) {
+                await this.indexGalleryKey(cacheKey, hardTtlSeconds);
+                await this.indexKeySize(cacheKey, compressionResult.compressedSize);
+            }
 
             const buildTimeMs = Date.now() - startTime;
             this.updateAverageBuildTime(buildTimeMs);
 
             if (success) {
+                this.usage.recordBuild(cacheKey, buildTimeMs, compressionResult);
+
+                const now = new Date();
+                await this.setMetadata(
+                    cacheKey,
+                    {
+                        createdAt: now,
+                        expiresAt: new Date(now.getTime() + hardTtlSeconds * 1000),
+                        softExpiresAt: new Date(now.getTime() + ttlSeconds * 1000),
+                        lastAccessedAt: now,
+                        sources: [],
+                        contentType: "tokens",
+                        version: "1.0",
+                        isCompressed: compressionResult.isCompressed,
+                        codec: compressionResult.codec,
+                        originalSize: compressionResult.originalSize,
+                        compressedSize: compressionResult.compressedSize,
+                        itemCount: tokens.length,
+                        completeness: 1,
+                        hitCount: 0,
+                        buildDuration: buildTimeMs,
+                        chunks: chunked?.manifest,
+                        ...metadata,
+                    },
+                    hardTtlSeconds
+                );
+
                 return {
                     success: true,
                     itemsCached: tokens.length,
@@ -297,7 +797,7 @@ export class CacheManager {
                 };
             }
         } catch (error) {
-            this.stats.totalErrors++;
+            this.recordError();
             const buildTimeMs = Date.now() - startTime;
 
             return {
@@ -311,17 +811,125 @@ export class CacheManager {
         }
     }
 
+    /**
+     * Write a collection as page-aligned chunks under a fresh build id.
+     * Returns the manifest plus a combined compression result whose data is the manifest entry.
+     */
+    private async storeChunks(
+        cacheKey: string,
+        tokens: UnifiedToken[],
+        chunkSize: number,
+        ttlSeconds: number
+    ): Promise<{ manifest: ChunkManifest; compression: CompressionResult }> {
+        const manifest: ChunkManifest = {
+            buildId: randomUUID().slice(0, 8),
+            chunkSize,
+            chunkCount: Math.ceil(tokens.length / chunkSize),
+            totalItems: tokens.length,
+        };
+
+        const results = await Promise.all(
+            Array.from({ length: manifest.chunkCount }, async (_, index) => {
+                const chunk = tokens.slice(index * chunkSize, (index + 1) * chunkSize);
+                const result = await compressData(chunk, this.config.compression);
+                await this.backend.setex(cacheChunk(cacheKey, manifest.buildId, index), ttlSeconds, result.data);
+                return result;
+            })
+        );
+
+        const originalSize = results.reduce((sum, result) => sum + result.originalSize, 0);
+        const compressedSize = results.reduce((sum, result) => sum + result.compressedSize, 0);
+
+        return {
+            manifest,
+            compression: {
+                data: JSON.stringify({ chunked: manifest }),
+                isCompressed: results.some((result) => result.isCompressed),
+                codec: results.find((result) => result.codec)?.codec,
+                originalSize,
+                compressedSize,
+                compressionRatio: originalSize > 0 ? compressedSize / originalSize : 1,
+            },
+        };
+    }
+
+    /**
+     * Record a token collection key in its gallery's key index, scored by when the entry expires.
+     * Expired members are pruned on each write so the index only lists keys that may still exist.
+     */
+    private async indexGalleryKey(cacheKey: string, ttlSeconds: number): Promise<void> {
+        const gallery = galleryForKey(cacheKey);
+        if (!gallery) {
+            return;
+        }
+
+        const index = galleryKeyIndex(gallery.galleryType, gallery.identifier, gallery.network);
+        try {
+            await this.backend.zremrangebyscore(index, Date.now());
+            await this.backend.zadd(index, { [cacheKey]: Date.now() + ttlSeconds * 1000 }, ttlSeconds);
+        } catch (error) {
+            // The entry still expires on its own - it just can't be invalidated with its gallery
+            this.recordError();
+            console.error("Cache key index error:", error);
+        }
+    }
+
+    /**
+     * Record a token collection's stored size in the size index, keeping only the largest keys
+     */
+    private async indexKeySize(cacheKey: string, compressedSize: number): Promise<void> {
+        try {
+            await this.backend.zadd(cacheSizeIndex(), { [cacheKey]: compressedSize }, SIZE_INDEX_TTL_SECONDS);
+            await this.backend.ztrim(cacheSizeIndex(), SIZE_INDEX_MAX_KEYS);
+        } catch (error) {
+            this.recordError();
+            console.error("Cache size index error:", error);
+        }
+    }
+
+    /**
+     * Store metadata for a cache entry (expires with the entry)
+     */
+    private async setMetadata(cacheKey: string, metadata: CacheMetadata, ttlSeconds: number): Promise<void> {
+        try {
+            await this.backend.setex(entryMetadata(cacheKey), ttlSeconds, JSON.stringify(metadata));
+        } catch (error) {
+            // Entries stay usable without metadata - they just can't be refreshed incrementally
+            this.recordError();
+            console.error("Cache metadata set error:", error);
+        }
+    }
+
+    /**
+     * Parse stored entry metadata, restoring dates (entries written before metadata existed have none)
+     */
+    private parseMetadata(raw: unknown): CacheMetadata | undefined {
+        if (!raw) {
+            return undefined;
+        }
+
+        try {
+            const metadata = (typeof raw === "string" ? JSON.parse(raw) : raw) as CacheMetadata;
+            return {
+                ...metadata,
+                createdAt: new Date(metadata.createdAt),
+                expiresAt: new Date(metadata.expiresAt),
+                softExpiresAt: metadata.softExpiresAt ? new Date(metadata.softExpiresAt) : undefined,
+                lastAccessedAt: new Date(metadata.lastAccessedAt),
+                lastHitAt: metadata.lastHitAt ? new Date(metadata.lastHitAt) : undefined,
+            };
+        } catch (error) {
+            console.warn("⚠️ Ignoring unreadable cache metadata:", error);
+            return undefined;
+        }
+    }
+
     /**
      * Check if cache is healthy and available
      */
     async healthCheck(): Promise<boolean> {
         try {
-            if (!this.isConfigured || !this.redis) {
-                return false;
-            }
-
-            const result = await this.redis.ping();
-            return result === "PONG";
+            return await this.backend.ping();
         } catch (error) {
             console.error("Cache health check failed:", error);
             return false;
@@ -332,7 +940,79 @@ export class CacheManager {
      * Get cache statistics
      */
     getStats(): CacheStats {
-        return { ...this.stats };
+        return {
+            ...this.stats,
+            backend: this.backend.name,
+            tiers: this.backend.getTierStats(),
+        };
+    }
+
+    /**
+     * Persisted daily usage stats for the last `days` days (most recent first)
+     */
+    async getUsageStats(days: number = 7): Promise<DailyUsageStats[]> {
+        return this.usage.getDailyStats(days);
+    }
+
+    /**
+     * Count a gallery view (used to rank galleries for cache warming)
+     */
+    recordVisit(galleryType: GalleryType, identifier: string, network: NetworkId = DEFAULT_NETWORK): void {
+        this.usage.recordVisit(galleryType, identifier, network);
+    }
+
+    /**
+     * Most visited galleries over the last `days` days
+     */
+    async getPopularGalleries(days: number = 7, limit: number = 20): Promise<GalleryVisits[]> {
+        return this.usage.getPopularGalleries(days, limit);
+    }
+
+    /**
+     * Largest token collections in the cache, by stored (compressed) size.
+     * Reads the bounded size index written at build time; keys that have since expired or been invalidated
+     * are dropped from it as they are found.
+     */
+    async getTopKeysBySize(limit: number = 20): Promise<CacheKeySize[]> {
+        const index = cacheSizeIndex();
+        let keys: string[] = [];
+        let rawMetadata: unknown[] = [];
+
+        for (let pass = 0; pass < SIZE_INDEX_READ_PASSES; pass++) {
+            keys = (await this.backend.zrange(index, limit)).map(({ member }) => member);
+            rawMetadata = await this.backend.mget(keys.map(entryMetadata));
+
+            const missing = keys.filter((_, i) => !rawMetadata[i]);
+            if (missing.length === 0) {
+                break;
+            }
+            await this.backend.zrem(index, missing);
+        }
+
+        const sizes: CacheKeySize[] = [];
+        keys.forEach((key, i) => {
+            const metadata = this.parseMetadata(rawMetadata[i]);
+            if (!metadata) {
+                return;
+            }
+
+            const originalSize = metadata.originalSize ?? 0;
+            const compressedSize = metadata.compressedSize ?? originalSize;
+            sizes.push({
+                key,
+                galleryType: galleryTypeForKey(key),
+                itemCount: metadata.itemCount,
+                originalSize,
+                compressedSize,
+                compressionRatio: originalSize > 0 ? compressedSize / originalSize : 1,
+                isCompressed: metadata.isCompressed,
+                codec: metadata.codec,
+                createdAt: metadata.createdAt,
+                softExpiresAt: metadata.softExpiresAt,
+            });
+        });
+
+        return sizes.sort((a, b) => b.compressedSize - a.compressedSize);
     }
 
     /**
@@ -341,6 +1021,7 @@ export class CacheManager {
     resetStats(): void {
         this.stats = {
             hits: 0,
+            staleHits: 0,
             misses: 0,
             hitRate: 0,
             totalRequests: 0,
@@ -348,6 +1029,15 @@ export class CacheManager {
             totalErrors: 0,
             averageBuildTimeMs: 0,
         };
+        this.backend.resetTierStats();
+    }
+
+    /**
+     * Count an error in process stats and the persisted daily stats
+     */
+    private recordError(): void {
+        this.stats.totalErrors++;
+        this.usage.recordError();
     }
 
     /**
@@ -373,21 +1063,190 @@ export class CacheManager {
         }
     }
 
+    // ===== HIDDEN TOKENS =====
+
+    /**
+     * Tokens filtering removed from a cached collection (null when not stored).
+     * Read alongside a collection hit, so it is not counted as a separate hit or miss.
+     */
+    async getHiddenTokens(cacheKey: string): Promise<ExcludedToken[] | null> {
+        try {
+            const value = await this.backend.get(hiddenTokens(cacheKey));
+            return value ? await this.decode<ExcludedToken[]>(value) : null;
+        } catch (error) {
+            this.recordError();
+            console.error("Cache get hidden tokens error:", error);
+            return null;
+        }
+    }
+
+    /**
+     * Store the tokens filtering removed from a collection, expiring with the collection entry
+     */
+    async setHiddenTokens(cacheKey: string, hidden: ExcludedToken[]): Promise<boolean> {
+        try {
+            const ttlSeconds = await this.backend.ttl(cacheKey);
+            if (!ttlSeconds || ttlSeconds <= 0) {
+                return false; // Collection is gone (or never stored) - nothing to attach to
+            }
+            return await this.set(hiddenTokens(cacheKey), hidden, ttlSeconds);
+        } catch (error) {
+            this.recordError();
+            console.error("Cache set hidden tokens error:", error);
+            return false;
+        }
+    }
+
+    // ===== SEARCH INDEX =====
+
+    /**
+     * Search index of a cached collection (null when not stored)
+     */
+    async getSearchIndex(cacheKey: string): Promise<SearchIndexEntry[] | null> {
+        try {
+            const value = await this.backend.get(searchIndex(cacheKey));
+            return value ? await this.decode<SearchIndexEntry[]>(value) : null;
+        } catch (error) {
+            this.recordError();
+            console.error("Cache get search index error:", error);
+            return null;
+        }
+    }
+
+    /**
+     * Store the search index of a collection, expiring with the collection entry
+     */
+    async setSearchIndex(cacheKey: string, index: SearchIndexEntry[]): Promise<boolean> {
+        try {
+            const ttlSeconds = await this.backend.ttl(cacheKey);
+            if (!ttlSeconds || ttlSeconds <= 0) {
+                return false; // Collection is gone (or never stored) - nothing to attach to
+            }
+            return await this.set(searchIndex(cacheKey), index, ttlSeconds);
+        } catch (error) {
+            this.recordError();
+            console.error("Cache set search index error:", error);
+            return false;
+        }
+    }
+
+    // ===== ROOM GROUPS =====
+
+    /**
+     * Room layout of a grouped collection (null when not stored)
+     */
+    async getRoomGroups(cacheKey: string): Promise<RoomGroup[] | null> {
+        try {
+            const value = await this.backend.get(roomGroups(cacheKey));
+            return value ? await this.decode<RoomGroup[]>(value) : null;
+        } catch (error) {
+            this.recordError();
+            console.error("Cache get room groups error:", error);
+            return null;
+        }
+    }
+
+    /**
+     * Store the room layout of a grouped collection, expiring with the collection entry
+     */
+    async setRoomGroups(cacheKey: string, rooms: RoomGroup[]): Promise<boolean> {
+        try {
+            const ttlSeconds = await this.backend.ttl(cacheKey);
+            if (!ttlSeconds || ttlSeconds <= 0) {
+                return false; // Collection is gone (or never stored) - nothing to attach to
+            }
+            return await this.set(roomGroups(cacheKey), rooms, ttlSeconds);
+        } catch (error) {
+            this.recordError();
+            console.error("Cache set room groups error:", error);
+            return false;
+        }
+    }
+
+    // ===== COLLECTION SUMMARY =====
+
+    /**
+     * Overview stats of a cached collection (null when not stored). Dates come back as ISO strings.
+     */
+    async getCollectionSummary(cacheKey: string): Promise<UnifiedCollection | null> {
+        try {
+            const value = await this.backend.get(collectionSummary(cacheKey));
+            return value ? await this.decode<UnifiedCollection>(value) : null;
+        } catch (error) {
+            this.recordError();
+            console.error("Cache get collection summary error:", error);
+            return null;
+        }
+    }
+
+    /**
+     * Store the overview stats of a collection, expiring with the collection entry
+     */
+    async setCollectionSummary(cacheKey: string, summary: UnifiedCollection): Promise<boolean> {
+        try {
+            const ttlSeconds = await this.backend.ttl(cacheKey);
+            if (!ttlSeconds || ttlSeconds <= 0) {
+                return false; // Collection is gone (or never stored) - nothing to attach to
+            }
+            return await this.set(collectionSummary(cacheKey), summary, ttlSeconds);
+        } catch (error) {
+            this.recordError();
+            console.error("Cache set collection summary error:", error);
+            return false;
+        }
+    }
+
+    // ===== FILTER RULES =====
+
+    /**
+     * Filter rules stored at runtime (null when none are stored). Not validated - callers must validate.
+     */
+    async getFilterRules(): Promise<FilterConfig | null> {
+        const value = await this.backend.get(filterRules());
+        if (!value) {
+            return null;
+        }
+        return (typeof value === "string" ? JSON.parse(value) : value) as FilterConfig;
+    }
+
+    /**
+     * Store filter rules for every instance to pick up
+     */
+    async setFilterRules(config: FilterConfig): Promise<void> {
+        await this.backend.setex(filterRules(), FILTER_RULES_TTL_SECONDS, JSON.stringify(config));
+    }
+
+    /**
+     * Remove stored filter rules (instances fall back to the built-in configuration)
+     */
+    async clearFilterRules(): Promise<boolean> {
+        return (await this.backend.del([filterRules()])) > 0;
+    }
+
     // ===== GALLERY-SPECIFIC CACHE METHODS (NEW) =====
 
     /**
      * Get cached USER gallery tokens
      */
-    async getUserTokens(address: string, filterHash: string): Promise<CacheResult<UnifiedToken[]>> {
-        const cacheKey = userCollection(address, filterHash);
+    async getUserTokens(
+        address: string,
+        filterHash: string,
+        network: NetworkId = DEFAULT_NETWORK
+    ): Promise<CacheResult<UnifiedToken[]>> {
+        const cacheKey = userCollection(address, filterHash, network);
         return this.get<UnifiedToken[]>(cacheKey);
     }
 
     /**
      * Set cached USER gallery tokens
      */
-    async setUserTokens(address: string, tokens: UnifiedToken[], filterHash: string): Promise<CacheBuildResult> {
-        const cacheKey = userCollection(address, filterHash);
+    async setUserTokens(
+        address: string,
+        tokens: UnifiedToken[],
+        filterHash: string,
+        network: NetworkId = DEFAULT_NETWORK
+    ): Promise<CacheBuildResult> {
+        const cacheKey = userCollection(address, filterHash, network);
         const ttlSeconds = 3600; // 1 hour for user galleries
         return this.buildCache(cacheKey, tokens, ttlSeconds);
     }
@@ -395,16 +1254,25 @@ export class CacheManager {
     /**
      * Get cached CURATION gallery tokens
      */
-    async getCurationTokens(curationId: string, filterHash: string): Promise<CacheResult<UnifiedToken[]>> {
-        const cacheKey = curationCollection(curationId, filterHash);
+    async getCurationTokens(
+        curationId: string,
+        filterHash: string,
+        network: NetworkId = DEFAULT_NETWORK
+    ): Promise<CacheResult<UnifiedToken[]>> {
+        const cacheKey = curationCollection(curationId, filterHash, network);
         return this.get<UnifiedToken[]>(cacheKey);
     }
 
     /**
      * Set cached CURATION gallery tokens
      */
-    async setCurationTokens(curationId: string, tokens: UnifiedToken[], filterHash: string): Promise<CacheBuildResult> {
-        const cacheKey = curationCollection(curationId, filterHash);
+    async setCurationTokens(
+        curationId: string,
+        tokens: UnifiedToken[],
+        filterHash: string,
+        network: NetworkId = DEFAULT_NETWORK
+    ): Promise<CacheBuildResult> {
+        const cacheKey = curationCollection(curationId, filterHash, network);
         const ttlSeconds = 7200; // 2 hours for curations (rarely change)
         return this.buildCache(cacheKey, tokens, ttlSeconds);
     }
@@ -412,8 +1280,12 @@ export class CacheManager {
     /**
      * Get cached COLLECTION gallery tokens (contract-based)
      */
-    async getCollectionTokens(contractAddress: string, filterHash: string): Promise<CacheResult<UnifiedToken[]>> {
-        const cacheKey = contractCollection(contractAddress, filterHash);
+    async getCollectionTokens(
+        contractAddress: string,
+        filterHash: string,
+        network: NetworkId = DEFAULT_NETWORK
+    ): Promise<CacheResult<UnifiedToken[]>> {
+        const cacheKey = contractCollection(contractAddress, filterHash, network);
         return this.get<UnifiedToken[]>(cacheKey);
     }
 
@@ -423,13 +1295,41 @@ export class CacheManager {
     async setCollectionTokens(
         contractAddress: string,
         tokens: UnifiedToken[],
-        filterHash: string
+        filterHash: string,
+        network: NetworkId = DEFAULT_NETWORK
     ): Promise<CacheBuildResult> {
-        const cacheKey = contractCollection(contractAddress, filterHash);
+        const cacheKey = contractCollection(contractAddress, filterHash, network);
         const ttlSeconds = 1800; // 30 minutes for collections (contracts mint frequently)
         return this.buildCache(cacheKey, tokens, ttlSeconds);
     }
 
+    /**
+     * Get cached ARTIST gallery tokens (works created by an address)
+     */
+    async getArtistTokens(
+        artistAddress: string,
+        filterHash: string,
+        network: NetworkId = DEFAULT_NETWORK
+    ): Promise<CacheResult<UnifiedToken[]>> {
+        const cacheKey = artistCollection(artistAddress, filterHash, network);
+        return this.get<UnifiedToken[]>(cacheKey);
+    }
+
+    /**
+     * Set cached ARTIST gallery tokens (works created by an address)
+     */
+    async setArtistTokens(
+        artistAddress: string,
+        tokens: UnifiedToken[],
+        filterHash: string,
+        network: NetworkId = DEFAULT_NETWORK,
+        metadata: Partial<CacheMetadata> = {}
+    ): Promise<CacheBuildResult> {
+        const cacheKey = artistCollection(artistAddress, filterHash, network);
+        const ttlSeconds = 3600; // 1 hour for artists (new mints and burns now and then)
+        return this.buildCache(cacheKey, tokens, ttlSeconds, metadata);
+    }
+
     /**
      * Gallery-specific cache invalidation methods
      */
@@ -437,13 +1337,13 @@ export class CacheManager {
     /**
      * Clear all cache for a USER gallery (all filter variations)
      */
-    async clearUserCache(address: string): Promise<number> {
-        const pattern = `tokens:user:${address}:*`;
+    async clearUserCache(address: string, network: NetworkId = DEFAULT_NETWORK): Promise<number> {
+        const pattern = networkScopedKey(`tokens:user:${address}:*`, network);
         return this.invalidatePattern(pattern);
     }
 
     /**
-     * Clear all cache for a CURATION gallery (all filter variations)
+     * Clear all cache for a CURATION gallery (all filter variations, all networks)
      */
     async clearCurationCache(curationId: string): Promise<number> {
         const pattern = `*:curation:${curationId}:*`;
@@ -451,24 +1351,38 @@ export class CacheManager {
     }
 
     /**
-     * Clear all cache for a COLLECTION gallery (all filter variations)
+     * Clear all cache for a COLLECTION gallery (all filter variations, all networks)
      */
     async clearCollectionCache(contractAddress: string): Promise<number> {
         const pattern = `*:collection:${contractAddress}:*`;
         return this.invalidatePattern(pattern);
     }
 
+    /**
+     * Clear all cache for an ARTIST gallery (all filter variations, all networks)
+     */
+    async clearArtistCache(artistAddress: string): Promise<number> {
+        const pattern = `*:artist:${artistAddress}:*`;
+        return this.invalidatePattern(pattern);
+    }
+
     /**
      * Clear all cache for a specific gallery type and identifier
      */
-    async clearGalleryCache(galleryType: "USER" | "CURATION" | "COLLECTION", identifier: string): Promise<number> {
+    async clearGalleryCache(
+        galleryType: GalleryType,
+        identifier: string,
+        network: NetworkId = DEFAULT_NETWORK
+    ): Promise<number> {
         switch (galleryType) {
             case "USER":
-                return this.clearUserCache(identifier);
+                return this.clearUserCache(identifier, network);
             case "CURATION":
                 return this.clearCurationCache(identifier);
             case "COLLECTION":
                 return this.clearCollectionCache(identifier);
+            case "ARTIST":
+                return this.clearArtistCache(identifier);
             default:
                 console.warn(`Unknown gallery type: ${galleryType}`);
                 return 0;
@@ -0,0 +1,272 @@
+/**
+ * Filesystem Cache Backend
+ *
+ * Stores each key as a JSON file ({ expiresAt, value }) in a cache directory.
+ * Useful for self-hosted deployments without Redis where the cache should survive restarts.
+ */
+
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+    CacheBackend,
+    CacheTierStats,
+    ScoredMember,
+    TierStatsCounter,
+    globToRegExp,
+    rankScores,
+} from "./cache-backend";
+
+/**
+ * Filesystem backend settings
+ */
+export interface FilesystemBackendConfig {
+    directory: string;
+}
+
+/**
+ * Default filesystem backend configuration
+ */
+export const DEFAULT_FILESYSTEM_BACKEND_CONFIG: FilesystemBackendConfig = {
+    directory: path.join(os.tmpdir(), "collekt-cache"),
+};
+
+interface FilesystemEntry {
+    expiresAt: number;
+    value: string;
+}
+
+/**
+ * Filesystem implementation of the CacheBackend contract
+ */
+export class FilesystemCacheBackend implements CacheBackend {
+    readonly name = "filesystem";
+
+    private config: FilesystemBackendConfig;
+    private stats = new TierStatsCounter();
+    private ready: Promise<void> | null = null;
+    private counterWrites: Promise<void> = Promise.resolve(); // Serializes counter and sorted set read-modify-writes
+
+    constructor(config: Partial<FilesystemBackendConfig> = {}) {
+        this.config = { ...DEFAULT_FILESYSTEM_BACKEND_CONFIG, ...config };
+    }
+
+    async get(key: string): Promise<unknown | null> {
+        const entry = await this.readEntry(key);
+        this.stats.record(entry !== null);
+        return entry ? entry.value : null;
+    }
+
+    async mget(keys: string[]): Promise<(unknown | null)[]> {
+        return Promise.all(keys.map((key) => this.get(key)));
+    }
+
+    async setex(key: string, ttlSeconds: number, value: string): Promise<void> {
+        await this.ensureDirectory();
+
+        const entry: FilesystemEntry = { expiresAt: Date.now() + ttlSeconds * 1000, value };
+        const filePath = this.filePath(key);
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+
+        // Write then rename so concurrent readers never see a partial file
+        await fs.writeFile(tempPath, JSON.stringify(entry), "utf8");
+        await fs.rename(tempPath, filePath);
+    }
+
+    async setnx(key: string, ttlSeconds: number, value: string): Promise<boolean> {
+        await this.ensureDirectory();
+
+        // Expired files would block an exclusive create
+        await this.readEntry(key);
+
+        const entry: FilesystemEntry = { expiresAt: Date.now() + ttlSeconds * 1000, value };
+        try {
+            await fs.writeFile(this.filePath(key), JSON.stringify(entry), { encoding: "utf8", flag: "wx" });
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    async del(keys: string[]): Promise<number> {
+        const results = await Promise.all(keys.map((key) => this.removeFile(this.filePath(key))));
+        return results.filter(Boolean).length;
+    }
+
+    async delIfEquals(key: string, value: string): Promise<boolean> {
+        // Check then delete - not atomic, but the filesystem backend serves a single instance
+        const entry = await this.readEntry(key);
+        return entry !== null && entry.value === value && this.removeFile(this.filePath(key));
+    }
+
+    async hincrby(key: string, increments: Record<string, number>, ttlSeconds: number): Promise<void> {
+        // Atomic within this process - the filesystem backend is meant for a single instance
+        const write = this.counterWrites.then(async () => {
+            const counters = this.readCounters(await this.readEntry(key));
+            for (const [field, increment] of Object.entries(increments)) {
+                counters[field] = (counters[field] || 0) + increment;
+            }
+            await this.setex(key, ttlSeconds, JSON.stringify(counters));
+        });
+        this.counterWrites = write.catch(() => undefined);
+        return write;
+    }
+
+    async hgetall(key: string): Promise<Record<string, number> | null> {
+        const entry = await this.readEntry(key);
+        this.stats.record(entry !== null);
+        return entry ? this.readCounters(entry) : null;
+    }
+
+    async zadd(key: string, scores: Record<string, number>, ttlSeconds: number): Promise<void> {
+        return this.updateScores(key, ttlSeconds, (current) => Object.assign(current, scores));
+    }
+
+    async zrem(key: string, members: string[]): Promise<void> {
+        return this.updateScores(key, 0, (current) => members.forEach((member) => delete current[member]));
+    }
+
+    async zremrangebyscore(key: string, maxScore: number): Promise<void> {
+        return this.updateScores(key, 0, (current) => {
+            for (const [member, score] of Object.entries(current)) {
+                if (score <= maxScore) {
+                    delete current[member];
+                }
+            }
+        });
+    }
+
+    async ztrim(key: string, maxMembers: number): Promise<void> {
+        return this.updateScores(key, 0, (current) => {
+            for (const { member } of rankScores(current).slice(maxMembers)) {
+                delete current[member];
+            }
+        });
+    }
+
+    async zrange(key: string, limit?: number): Promise<ScoredMember[]> {
+        const entry = await this.readEntry(key);
+        this.stats.record(entry !== null);
+        return rankScores(this.readCounters(entry), limit);
+    }
+
+    async keys(pattern: string): Promise<string[]> {
+        await this.ensureDirectory();
+
+        const regex = globToRegExp(pattern);
+        const files = await fs.readdir(this.config.directory);
+        const matches: string[] = [];
+
+        for (const file of files) {
+            if (!file.endsWith(".json")) {
+                continue;
+            }
+
+            const key = decodeURIComponent(file.slice(0, -".json".length));
+            if (regex.test(key) && (await this.readEntry(key))) {
+                matches.push(key);
+            }
+        }
+
+        return matches;
+    }
+
+    async ttl(key: string): Promise<number | null> {
+        const entry = await this.readEntry(key);
+        return entry ? Math.ceil((entry.expiresAt - Date.now()) / 1000) : null;
+    }
+
+    async ping(): Promise<boolean> {
+        try {
+            await this.ensureDirectory();
+            await fs.access(this.config.directory);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    getTierStats(): Record<string, CacheTierStats> {
+        return { [this.name]: this.stats.snapshot() };
+    }
+
+    resetTierStats(): void {
+        this.stats.reset();
+    }
+
+    /**
+     * Read a live entry, removing the file if it has expired
+     */
+    private async readEntry(key: string): Promise<FilesystemEntry | null> {
+        const filePath = this.filePath(key);
+
+        let entry: FilesystemEntry;
+        try {
+            entry = JSON.parse(await fs.readFile(filePath, "utf8"));
+        } catch {
+            return null;
+        }
+
+        if (entry.expiresAt <= Date.now()) {
+            await this.removeFile(filePath);
+            return null;
+        }
+
+        return entry;
+    }
+
+    /**
+     * Read-modify-write a sorted set in the counter write queue. The expiry only ever grows;
+     * removals (ttlSeconds 0) leave missing keys alone.
+     */
+    private updateScores(
+        key: string,
+        ttlSeconds: number,
+        update: (scores: Record<string, number>) => void
+    ): Promise<void> {
+        const write = this.counterWrites.then(async () => {
+            const entry = await this.readEntry(key);
+            if (!entry && ttlSeconds <= 0) {
+                return;
+            }
+
+            const scores = this.readCounters(entry);
+            update(scores);
+            const expiresAt = Math.max(entry?.expiresAt ?? 0, Date.now() + ttlSeconds * 1000);
+            await this.setex(key, (expiresAt - Date.now()) / 1000, JSON.stringify(scores));
+        });
+        this.counterWrites = write.catch(() => undefined);
+        return write;
+    }
+
+    private readCounters(entry: FilesystemEntry | null): Record<string, number> {
+        try {
+            return entry ? JSON.parse(entry.value) : {};
+        } catch {
+            return {};
+        }
+    }
+
+    private async removeFile(filePath: string): Promise<boolean> {
+        try {
+            await fs.unlink(filePath);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private filePath(key: string): string {
+        return path.join(this.config.directory, `${encodeURIComponent(key)}.json`);
+    }
+
+    private ensureDirectory(): Promise<void> {
+        if (!this.ready) {
+            this.ready = fs.mkdir(this.config.directory, { recursive: true }).then(() => undefined);
+            this.ready.catch(() => {
+                this.ready = null;
+            });
+        }
+        return this.ready;
+    }
+}
@@ -0,0 +1,225 @@
+/**
+ * In-Memory LRU Cache Backend
+ *
+ * Process-local cache bounded by total value size in bytes.
+ * Least recently used entries are evicted first; expired entries are dropped on access.
+ */
+
+import {
+    CacheBackend,
+    CacheTierStats,
+    ScoredMember,
+    TierStatsCounter,
+    globToRegExp,
+    rankScores,
+} from "./cache-backend";
+
+/**
+ * Memory backend settings
+ */
+export interface MemoryBackendConfig {
+    maxBytes: number; // Upper bound for stored keys + values
+}
+
+/**
+ * Default memory backend configuration
+ */
+export const DEFAULT_MEMORY_BACKEND_CONFIG: MemoryBackendConfig = {
+    maxBytes: 64 * 1024 * 1024, // 64 MB
+};
+
+interface MemoryEntry {
+    value: string;
+    expiresAt: number;
+    size: number;
+}
+
+/**
+ * In-process LRU implementation of the CacheBackend contract
+ */
+export class MemoryCacheBackend implements CacheBackend {
+    readonly name = "memory";
+
+    private config: MemoryBackendConfig;
+    private entries = new Map<string, MemoryEntry>(); // Insertion order doubles as LRU order
+    private totalBytes = 0;
+    private stats = new TierStatsCounter();
+
+    constructor(config: Partial<MemoryBackendConfig> = {}) {
+        this.config = { ...DEFAULT_MEMORY_BACKEND_CONFIG, ...config };
+    }
+
+    async get(key: string): Promise<unknown | null> {
+        const entry = this.getEntry(key);
+        this.stats.record(entry !== null);
+        return entry ? entry.value : null;
+    }
+
+    async mget(keys: string[]): Promise<(unknown | null)[]> {
+        return Promise.all(keys.map((key) => this.get(key)));
+    }
+
+    async setex(key: string, ttlSeconds: number, value: string): Promise<void> {
+        const size = Buffer.byteLength(key) + Buffer.byteLength(value);
+
+        this.remove(key);
+
+        // Values that can never fit are not cached at all
+        if (size > this.config.maxBytes) {
+            return;
+        }
+
+        this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000, size });
+        this.totalBytes += size;
+        this.evict();
+    }
+
+    async setnx(key: string, ttlSeconds: number, value: string): Promise<boolean> {
+        if (this.getEntry(key, false)) {
+            return false;
+        }
+
+        await this.setex(key, ttlSeconds, value);
+        return true;
+    }
+
+    async del(keys: string[]): Promise<number> {
+        return keys.filter((key) => this.remove(key)).length;
+    }
+
+    async delIfEquals(key: string, value: string): Promise<boolean> {
+        const entry = this.getEntry(key, false);
+        return entry !== null && entry.value === value && this.remove(key);
+    }
+
+    async hincrby(key: string, increments: Record<string, number>, ttlSeconds: number): Promise<void> {
+        // Read and write happen in the same tick, so increments never interleave
+        const counters = this.readCounters(this.getEntry(key, false));
+        for (const [field, increment] of Object.entries(increments)) {
+            counters[field] = (counters[field] || 0) + increment;
+        }
+        await this.setex(key, ttlSeconds, JSON.stringify(counters));
+    }
+
+    async hgetall(key: string): Promise<Record<string, number> | null> {
+        const entry = this.getEntry(key);
+        this.stats.record(entry !== null);
+        return entry ? this.readCounters(entry) : null;
+    }
+
+    async zadd(key: string, scores: Record<string, number>, ttlSeconds: number): Promise<void> {
+        const entry = this.getEntry(key, false);
+        const expiresAt = Math.max(entry?.expiresAt ?? 0, Date.now() + ttlSeconds * 1000);
+        const merged = { ...this.readCounters(entry), ...scores };
+        await this.setex(key, (expiresAt - Date.now()) / 1000, JSON.stringify(merged));
+    }
+
+    async zrem(key: string, members: string[]): Promise<void> {
+        const entry = this.getEntry(key, false);
+        if (!entry) {
+            return;
+        }
+
+        const scores = this.readCounters(entry);
+        members.forEach((member) => delete scores[member]);
+        await this.setex(key, (entry.expiresAt - Date.now()) / 1000, JSON.stringify(scores));
+    }
+
+    async zremrangebyscore(key: string, maxScore: number): Promise<void> {
+        const scores = this.readCounters(this.getEntry(key, false));
+        await this.zrem(key, Object.keys(scores).filter((member) => scores[member] <= maxScore));
+    }
+
+    async ztrim(key: string, maxMembers: number): Promise<void> {
+        const ranked = rankScores(this.readCounters(this.getEntry(key, false)));
+        await this.zrem(key, ranked.slice(maxMembers).map(({ member }) => member));
+    }
+
+    async zrange(key: string, limit?: number): Promise<ScoredMember[]> {
+        const entry = this.getEntry(key);
+        this.stats.record(entry !== null);
+        return rankScores(this.readCounters(entry), limit);
+    }
+
+    async keys(pattern: string): Promise<string[]> {
+        const regex = globToRegExp(pattern);
+        return Array.from(this.entries.keys()).filter((key) => regex.test(key) && this.getEntry(key, false));
+    }
+
+    async ttl(key: string): Promise<number | null> {
+        const entry = this.getEntry(key, false);
+        return entry ? Math.ceil((entry.expiresAt - Date.now()) / 1000) : null;
+    }
+
+    async ping(): Promise<boolean> {
+        return true;
+    }
+
+    getTierStats(): Record<string, CacheTierStats> {
+        return { [this.name]: this.stats.snapshot() };
+    }
+
+    resetTierStats(): void {
+        this.stats.reset();
+    }
+
+    /**
+     * Current memory usage in bytes
+     */
+    get usedBytes(): number {
+        return this.totalBytes;
+    }
+
+    /**
+     * Look up a live entry, optionally marking it as most recently used
+     */
+    private getEntry(key: string, touch: boolean = true): MemoryEntry | null {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return null;
+        }
+
+        if (entry.expiresAt <= Date.now()) {
+            this.remove(key);
+            return null;
+        }
+
+        if (touch) {
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+
+        return entry;
+    }
+
+    private readCounters(entry: MemoryEntry | null): Record<string, number> {
+        try {
+            return entry ? JSON.parse(entry.value) : {};
+        } catch {
+            return {};
+        }
+    }
+
+    private remove(key: string): boolean {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return false;
+        }
+
+        this.entries.delete(key);
+        this.totalBytes -= entry.size;
+        return true;
+    }
+
+    /**
+     * Drop least recently used entries until within the byte budget
+     */
+    private evict(): void {
+        for (const key of this.entries.keys()) {
+            if (this.totalBytes <= this.config.maxBytes) {
+                break;
+            }
+            this.remove(key);
+        }
+    }
+}
@@ -0,0 +1,148 @@
+/**
+ * Tiered Cache Backend
+ *
+ * Two-tier cache: a small in-process LRU in front of a shared backend (usually Redis).
+ * Reads check memory first and backfill it from the shared tier; writes go to both.
+ * Memory TTLs are capped so other instances' writes become visible quickly.
+ */
+
+import { CacheBackend, CacheTierStats, ScoredMember } from "./cache-backend";
+import { MemoryCacheBackend } from "./memory-backend";
+
+/**
+ * Tiered backend settings
+ */
+export interface TieredBackendConfig {
+    memoryTtlSeconds: number; // Max time an entry lives in the memory tier
+}
+
+/**
+ * Default tiered backend configuration
+ */
+export const DEFAULT_TIERED_BACKEND_CONFIG: TieredBackendConfig = {
+    memoryTtlSeconds: 60,
+};
+
+/**
+ * Memory-in-front-of-shared-store implementation of the CacheBackend contract
+ */
+export class TieredCacheBackend implements CacheBackend {
+    readonly name: string;
+
+    private config: TieredBackendConfig;
+
+    constructor(
+        private memory: MemoryCacheBackend,
+        private shared: CacheBackend,
+        config: Partial<TieredBackendConfig> = {}
+    ) {
+        this.config = { ...DEFAULT_TIERED_BACKEND_CONFIG, ...config };
+        this.name = `${memory.name}+${shared.name}`;
+    }
+
+    async get(key: string): Promise<unknown | null> {
+        const [value] = await this.mget([key]);
+        return value;
+    }
+
+    async mget(keys: string[]): Promise<(unknown | null)[]> {
+        const values = await this.memory.mget(keys);
+        const missing = keys.filter((_, index) => values[index] === null);
+
+        if (missing.length === 0) {
+            return values;
+        }
+
+        const sharedValues = await this.shared.mget(missing);
+        const backfills: Promise<void>[] = [];
+
+        missing.forEach((key, index) => {
+            const value = sharedValues[index];
+            if (value === null) {
+                return;
+            }
+
+            values[keys.indexOf(key)] = value;
+            const serialized = typeof value === "string" ? value : JSON.stringify(value);
+            backfills.push(this.memory.setex(key, this.config.memoryTtlSeconds, serialized));
+        });
+
+        await Promise.all(backfills);
+        return values;
+    }
+
+    async setex(key: string, ttlSeconds: number, value: string): Promise<void> {
+        await this.shared.setex(key, ttlSeconds, value);
+        await this.memory.setex(key, Math.min(ttlSeconds, this.config.memoryTtlSeconds), value);
+    }
+
+    async setnx(key: string, ttlSeconds: number, value: string): Promise<boolean> {
+        // Locks must be visible to every instance, so they live in the shared tier only
+        return this.shared.setnx(key, ttlSeconds, value);
+    }
+
+    async del(keys: string[]): Promise<number> {
+        const [, deleted] = await Promise.all([this.memory.del(keys), this.shared.del(keys)]);
+        return deleted;
+    }
+
+    async delIfEquals(key: string, value: string): Promise<boolean> {
+        // Locks live in the shared tier only (see setnx)
+        return this.shared.delIfEquals(key, value);
+    }
+
+    async hincrby(key: string, increments: Record<string, number>, ttlSeconds: number): Promise<void> {
+        // Counters are shared across instances, so they live in the shared tier only
+        await this.shared.hincrby(key, increments, ttlSeconds);
+    }
+
+    async hgetall(key: string): Promise<Record<string, number> | null> {
+        return this.shared.hgetall(key);
+    }
+
+    async zadd(key: string, scores: Record<string, number>, ttlSeconds: number): Promise<void> {
+        // Sorted sets index data across instances, so they live in the shared tier only
+        await this.shared.zadd(key, scores, ttlSeconds);
+    }
+
+    async zrem(key: string, members: string[]): Promise<void> {
+        await this.shared.zrem(key, members);
+    }
+
+    async zremrangebyscore(key: string, maxScore: number): Promise<void> {
+        await this.shared.zremrangebyscore(key, maxScore);
+    }
+
+    async ztrim(key: string, maxMembers: number): Promise<void> {
+        await this.shared.ztrim(key, maxMembers);
+    }
+
+    async zrange(key: string, limit?: number): Promise<ScoredMember[]> {
+        return this.shared.zrange(key, limit);
+    }
+
+    async keys(pattern: string): Promise<string[]> {
+        // The shared tier is authoritative; memory only holds a subset of it
+        return this.shared.keys(pattern);
+    }
+
+    async ttl(key: string): Promise<number | null> {
+        return this.shared.ttl(key);
+    }
+
+    async ping(): Promise<boolean> {
+        return this.shared.ping();
+    }
+
+    getTierStats(): Record<string, CacheTierStats> {
+        return {
+            ...this.memory.getTierStats(),
+            ...this.shared.getTierStats(),
+        };
+    }
+
+    resetTierStats(): void {
+        this.memory.resetTierStats();
+        this.shared.resetTierStats();
+    }
+}
@@ -0,0 +1,169 @@
+/**
+ * Upstash Redis Cache Backend
+ *
+ * Shared cache across serverless instances via the Upstash REST API.
+ */
+
+import { Redis } from "@upstash/redis";
+import { CacheBackend, CacheTierStats, ScoredMember, TierStatsCounter } from "./cache-backend";
+
+/**
+ * Deletes KEYS[1] only while it still holds ARGV[1] - check and delete run as one step on the server
+ */
+const DEL_IF_EQUALS_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+    return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Upstash connection settings
+ */
+export interface UpstashBackendConfig {
+    url: string;
+    token: string;
+}
+
+/**
+ * Upstash implementation of the CacheBackend contract
+ */
+export class UpstashCacheBackend implements CacheBackend {
+    readonly name = "upstash";
+
+    private redis: Redis;
+    private stats = new TierStatsCounter();
+
+    constructor(config: UpstashBackendConfig) {
+        this.redis = new Redis({
+            url: config.url,
+            token: config.token,
+        });
+    }
+
+    async get(key: string): Promise<unknown | null> {
+        const value = await this.redis.get(key);
+        this.stats.record(value !== null && value !== undefined);
+        return value ?? null;
+    }
+
+    async mget(keys: string[]): Promise<(unknown | null)[]> {
+        if (keys.length === 0) {
+            return [];
+        }
+
+        const values = await this.redis.mget<unknown[]>(...keys);
+        values.forEach((value) => this.stats.record(value !== null && value !== undefined));
+        return values.map((value) => value ?? null);
+    }
+
+    async setex(key: string, ttlSeconds: number, value: string): Promise<void> {
+        await this.redis.setex(key, ttlSeconds, value);
+    }
+
+    async setnx(key: string, ttlSeconds: number, value: string): Promise<boolean> {
+        const result = await this.redis.set(key, value, { nx: true, ex: ttlSeconds });
+        return result === "OK";
+    }
+
+    async del(keys: string[]): Promise<number> {
+        if (keys.length === 0) {
+            return 0;
+        }
+        return this.redis.del(...keys);
+    }
+
+    async delIfEquals(key: string, value: string): Promise<boolean> {
+        const deleted = await this.redis.eval<[string], number>(DEL_IF_EQUALS_SCRIPT, [key], [value]);
+        return deleted === 1;
+    }
+
+    async hincrby(key: string, increments: Record<string, number>, ttlSeconds: number): Promise<void> {
+        const fields = Object.entries(increments);
+        if (fields.length === 0) {
+            return;
+        }
+
+        // One transaction, so a failed write applies none of the increments
+        const transaction = this.redis.multi();
+        for (const [field, increment] of fields) {
+            transaction.hincrby(key, field, increment);
+        }
+        transaction.expire(key, ttlSeconds);
+        await transaction.exec();
+    }
+
+    async hgetall(key: string): Promise<Record<string, number> | null> {
+        const fields = await this.redis.hgetall<Record<string, unknown>>(key);
+        if (!fields) {
+            return null;
+        }
+        return Object.fromEntries(Object.entries(fields).map(([field, value]) => [field, Number(value)]));
+    }
+
+    async zadd(key: string, scores: Record<string, number>, ttlSeconds: number): Promise<void> {
+        const [first, ...rest] = Object.entries(scores).map(([member, score]) => ({ member, score }));
+        if (!first) {
+            return;
+        }
+
+        // NX gives a new key its expiry, GT extends an existing one - neither shortens it
+        const transaction = this.redis.multi();
+        transaction.zadd(key, first, ...rest);
+        transaction.expire(key, ttlSeconds, "NX");
+        transaction.expire(key, ttlSeconds, "GT");
+        await transaction.exec();
+    }
+
+    async zrem(key: string, members: string[]): Promise<void> {
+        if (members.length === 0) {
+            return;
+        }
+        await this.redis.zrem(key, ...members);
+    }
+
+    async zremrangebyscore(key: string, maxScore: number): Promise<void> {
+        await this.redis.zremrangebyscore(key, "-inf", maxScore);
+    }
+
+    async ztrim(key: string, maxMembers: number): Promise<void> {
+        // Ranks count from the lowest score - drop all but the top maxMembers
+        await this.redis.zremrangebyrank(key, 0, -maxMembers - 1);
+    }
+
+    async zrange(key: string, limit?: number): Promise<ScoredMember[]> {
+        // Flat [member, score, member, score, ...] reply
+        const reply = await this.redis.zrange<unknown[]>(key, 0, limit === undefined ? -1 : limit - 1, {
+            rev: true,
+            withScores: true,
+        });
+
+        const members: ScoredMember[] = [];
+        for (let i = 0; i < reply.length; i += 2) {
+            members.push({ member: String(reply[i]), score: Number(reply[i + 1]) });
+        }
+        return members;
+    }
+
+    async keys(pattern: string): Promise<string[]> {
+        return this.redis.keys(pattern);
+    }
+
+    async ttl(key: string): Promise<number | null> {
+        // Redis returns -2 for missing keys and -1 for keys without expiry
+        const seconds = await this.redis.ttl(key);
+        return seconds >= 0 ? seconds : null;
+    }
+
+    async ping(): Promise<boolean> {
+        return (await this.redis.ping()) === "PONG";
+    }
+
+    getTierStats(): Record<string, CacheTierStats> {
+        return { [this.name]: this.stats.snapshot() };
+    }
+
+    resetTierStats(): void {
+        this.stats.reset();
+    }
+}
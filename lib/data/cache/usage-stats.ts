@@ -0,0 +1,416 @@
+/**
+ * Usage Stats Recorder - Persists cache activity as daily aggregates
+ *
+ * CacheManager records hits, misses, builds and compression results here. Counters are
+ * kept as in-process deltas and added to `stats:daily:<YYYY-MM-DD>` counter hashes with
+ * atomic increments, so numbers survive restarts and add up across serverless instances.
+ * Gallery visits are counted the same way in `stats:visits:<YYYY-MM-DD>` to rank popular galleries.
+ */
+
+import { CacheBackend } from "./cache-backend";
+import { CompressionResult } from "../utils/compression";
+import { galleryTypeForKey, usageStats } from "../types/cache-types";
+import { GALLERY_TYPES, GalleryType } from "../types/gallery-types";
+import { NetworkId, isNetworkId } from "../config/networks";
+
+/**
+ * Compression totals for one gallery type
+ */
+export interface GalleryCompressionStats {
+    builds: number;
+    originalSize: number;
+    compressedSize: number;
+    compressionRatio: number;
+}
+
+/**
+ * Aggregated cache activity for one UTC day
+ */
+export interface DailyUsageStats {
+    date: string; // YYYY-MM-DD
+    hits: number;
+    staleHits: number;
+    misses: number;
+    builds: number;
+    totalBuildTimeMs: number;
+    errors: number;
+    compression: {
+        operations: number; // Writes that were actually compressed
+        originalSize: number;
+        compressedSize: number;
+    };
+    byGalleryType: Record<string, GalleryCompressionStats>;
+}
+
+/**
+ * Visit counts for one UTC day, keyed by `<galleryType>:<network>:<identifier>`
+ */
+export type DailyVisits = Record<string, number>;
+
+/**
+ * A gallery ranked by visits over a range of days
+ */
+export interface GalleryVisits {
+    galleryType: GalleryType;
+    identifier: string;
+    network: NetworkId;
+    visits: number;
+}
+
+/**
+ * How long daily documents are kept
+ */
+const DAILY_STATS_TTL_SECONDS = 90 * 86400; // 90 days
+
+/**
+ * Minimum time between automatic flushes (activity in between is flushed once it is up)
+ */
+const FLUSH_INTERVAL_MS = 60000;
+
+/**
+ * UTC day for a timestamp
+ */
+export function statsDate(date: Date = new Date()): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function emptyDailyStats(date: string): DailyUsageStats {
+    return {
+        date,
+        hits: 0,
+        staleHits: 0,
+        misses: 0,
+        builds: 0,
+        totalBuildTimeMs: 0,
+        errors: 0,
+        compression: { operations: 0, originalSize: 0, compressedSize: 0 },
+        byGalleryType: {},
+    };
+}
+
+/**
+ * Counter hash fields for a day's stats - compression ratios are derived on read
+ */
+function dailyStatsFields(stats: DailyUsageStats): Record<string, number> {
+    const fields: Record<string, number> = {
+        hits: stats.hits,
+        staleHits: stats.staleHits,
+        misses: stats.misses,
+        builds: stats.builds,
+        totalBuildTimeMs: stats.totalBuildTimeMs,
+        errors: stats.errors,
+        "compression:operations": stats.compression.operations,
+        "compression:originalSize": stats.compression.originalSize,
+        "compression:compressedSize": stats.compression.compressedSize,
+    };
+    for (const [type, gallery] of Object.entries(stats.byGalleryType)) {
+        fields[`gallery:${type}:builds`] = gallery.builds;
+        fields[`gallery:${type}:originalSize`] = gallery.originalSize;
+        fields[`gallery:${type}:compressedSize`] = gallery.compressedSize;
+    }
+
+    return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== 0));
+}
+
+function dailyStatsFromFields(date: string, fields: Record<string, number>): DailyUsageStats {
+    const byGalleryType: Record<string, GalleryCompressionStats> = {};
+    for (const type of GALLERY_TYPES) {
+        const builds = fields[`gallery:${type}:builds`] || 0;
+        if (builds === 0) {
+            continue;
+        }
+
+        const originalSize = fields[`gallery:${type}:originalSize`] || 0;
+        const compressedSize = fields[`gallery:${type}:compressedSize`] || 0;
+        byGalleryType[type] = {
+            builds,
+            originalSize,
+            compressedSize,
+            compressionRatio: originalSize > 0 ? compressedSize / originalSize : 1,
+        };
+    }
+
+    return {
+        date,
+        hits: fields.hits || 0,
+        staleHits: fields.staleHits || 0,
+        misses: fields.misses || 0,
+        builds: fields.builds || 0,
+        totalBuildTimeMs: fields.totalBuildTimeMs || 0,
+        errors: fields.errors || 0,
+        compression: {
+            operations: fields["compression:operations"] || 0,
+            originalSize: fields["compression:originalSize"] || 0,
+            compressedSize: fields["compression:compressedSize"] || 0,
+        },
+        byGalleryType,
+    };
+}
+
+function visitKey(galleryType: GalleryType, identifier: string, network: NetworkId): string {
+    return `${galleryType}:${network}:${identifier}`;
+}
+
+function parseVisitKey(key: string): Omit<GalleryVisits, "visits"> | null {
+    const [galleryType, network, ...rest] = key.split(":");
+    const identifier = rest.join(":");
+    if (!GALLERY_TYPES.includes(galleryType as GalleryType) || !isNetworkId(network) || !identifier) {
+        return null;
+    }
+    return { galleryType: galleryType as GalleryType, identifier, network };
+}
+
+function mergeVisits(target: DailyVisits, delta: DailyVisits): DailyVisits {
+    const merged = { ...target };
+    for (const [key, visits] of Object.entries(delta)) {
+        merged[key] = (merged[key] || 0) + visits;
+    }
+    return merged;
+}
+
+/**
+ * Add `delta` into `target` (both for the same day)
+ */
+function mergeDailyStats(target: DailyUsageStats, delta: DailyUsageStats): DailyUsageStats {
+    const byGalleryType = { ...target.byGalleryType };
+    for (const [type, stats] of Object.entries(delta.byGalleryType)) {
+        const existing = byGalleryType[type] || { builds: 0, originalSize: 0, compressedSize: 0, compressionRatio: 1 };
+        const originalSize = existing.originalSize + stats.originalSize;
+        const compressedSize = existing.compressedSize + stats.compressedSize;
+        byGalleryType[type] = {
+            builds: existing.builds + stats.builds,
+            originalSize,
+            compressedSize,
+            compressionRatio: originalSize > 0 ? compressedSize / originalSize : 1,
+        };
+    }
+
+    return {
+        date: target.date,
+        hits: target.hits + delta.hits,
+        staleHits: target.staleHits + delta.staleHits,
+        misses: target.misses + delta.misses,
+        builds: target.builds + delta.builds,
+        totalBuildTimeMs: target.totalBuildTimeMs + delta.totalBuildTimeMs,
+        errors: target.errors + delta.errors,
+        compression: {
+            operations: target.compression.operations + delta.compression.operations,
+            originalSize: target.compression.originalSize + delta.compression.originalSize,
+            compressedSize: target.compression.compressedSize + delta.compression.compressedSize,
+        },
+        byGalleryType,
+    };
+}
+
+/**
+ * Records cache activity and flushes it into daily documents
+ */
+export class UsageStatsRecorder {
+    private pending = new Map<string, DailyUsageStats>(); // Unflushed deltas by day
+    private pendingVisits = new Map<string, DailyVisits>(); // Unflushed visit counts by day
+    private lastFlush = Date.now();
+    private flushing: Promise<void> | null = null;
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(private backend: CacheBackend) {}
+
+    recordHit(stale: boolean): void {
+        const today = this.today();
+        today.hits++;
+        if (stale) {
+            today.staleHits++;
+        }
+        this.scheduleFlush();
+    }
+
+    recordMiss(): void {
+        this.today().misses++;
+        this.scheduleFlush();
+    }
+
+    recordError(): void {
+        this.today().errors++;
+        this.scheduleFlush();
+    }
+
+    recordVisit(galleryType: GalleryType, identifier: string, network: NetworkId): void {
+        const date = statsDate();
+        const visits = this.pendingVisits.get(date) || {};
+        const key = visitKey(galleryType, identifier, network);
+        visits[key] = (visits[key] || 0) + 1;
+        this.pendingVisits.set(date, visits);
+        this.scheduleFlush();
+    }
+
+    recordBuild(cacheKey: string, buildTimeMs: number, compression: CompressionResult): void {
+        const today = this.today();
+        today.builds++;
+        today.totalBuildTimeMs += buildTimeMs;
+
+        if (compression.isCompressed) {
+            today.compression.operations++;
+        }
+        today.compression.originalSize += compression.originalSize;
+        today.compression.compressedSize += compression.compressedSize;
+
+        const galleryType = galleryTypeForKey(cacheKey);
+        if (galleryType) {
+            const stats = today.byGalleryType[galleryType] || {
+                builds: 0,
+                originalSize: 0,
+                compressedSize: 0,
+                compressionRatio: 1,
+            };
+            stats.builds++;
+            stats.originalSize += compression.originalSize;
+            stats.compressedSize += compression.compressedSize;
+            today.byGalleryType[galleryType] = stats;
+        }
+
+        this.scheduleFlush();
+    }
+
+    /**
+     * Add pending deltas to the persisted daily counters
+     */
+    flush(): Promise<void> {
+        if (!this.flushing) {
+            this.flushing = this.writePending().finally(() => {
+                this.flushing = null;
+            });
+        }
+        return this.flushing;
+    }
+
+    /**
+     * Persisted daily stats for the last `days` days (most recent first), including unflushed activity
+     */
+    async getDailyStats(days: number): Promise<DailyUsageStats[]> {
+        await this.flush();
+
+        const dates = Array.from({ length: days }, (_, index) => statsDate(new Date(Date.now() - index * 86400000)));
+        const counters = await Promise.all(dates.map((date) => this.backend.hgetall(usageStats("daily", date))));
+
+        return dates.flatMap((date, index) => {
+            const fields = counters[index];
+            return fields ? [dailyStatsFromFields(date, fields)] : [];
+        });
+    }
+
+    /**
+     * Most visited galleries over the last `days` days, including unflushed visits
+     */
+    async getPopularGalleries(days: number, limit: number): Promise<GalleryVisits[]> {
+        await this.flush();
+
+        const dates = Array.from({ length: days }, (_, index) => statsDate(new Date(Date.now() - index * 86400000)));
+        const counters = await Promise.all(dates.map((date) => this.backend.hgetall(usageStats("visits", date))));
+        const totals = counters.reduce<DailyVisits>((sum, visits) => mergeVisits(sum, visits || {}), {});
+
+        return Object.entries(totals)
+            .map(([key, visits]) => {
+                const gallery = parseVisitKey(key);
+                return gallery ? { ...gallery, visits } : null;
+            })
+            .filter((gallery): gallery is GalleryVisits => gallery !== null)
+            .sort((a, b) => b.visits - a.visits)
+            .slice(0, limit);
+    }
+
+    private today(): DailyUsageStats {
+        const date = statsDate();
+        let stats = this.pending.get(date);
+        if (!stats) {
+            stats = emptyDailyStats(date);
+            this.pending.set(date, stats);
+        }
+        return stats;
+    }
+
+    private scheduleFlush(): void {
+        const waitMs = this.lastFlush + FLUSH_INTERVAL_MS - Date.now();
+        if (waitMs <= 0) {
+            this.flush().catch(() => undefined);
+            return;
+        }
+
+        // Without this, activity after the last flush would wait for more activity to be written
+        if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => {
+                this.flushTimer = null;
+                this.flush().catch(() => undefined);
+            }, waitMs);
+            this.flushTimer.unref?.();
+        }
+    }
+
+    private async writePending(): Promise<void> {
+        this.lastFlush = Date.now();
+        const pending = Array.from(this.pending.values());
+        const pendingVisits = Array.from(this.pendingVisits.entries());
+        this.pending.clear();
+        this.pendingVisits.clear();
+
+        for (const delta of pending) {
+            try {
+                await this.backend.hincrby(
+                    usageStats("daily", delta.date),
+                    dailyStatsFields(delta),
+                    DAILY_STATS_TTL_SECONDS
+                );
+            } catch (error) {
+                // Keep the delta for the next flush rather than losing it
+                const current = this.pending.get(delta.date);
+                this.pending.set(delta.date, current ? mergeDailyStats(delta, current) : delta);
+                console.error("❌ Failed to persist usage stats:", error);
+            }
+        }
+
+        for (const [date, delta] of pendingVisits) {
+            try {
+                await this.backend.hincrby(usageStats("visits", date), delta, DAILY_STATS_TTL_SECONDS);
+            } catch (error) {
+                this.pendingVisits.set(date, mergeVisits(delta, this.pendingVisits.get(date) || {}));
+                console.error("❌ Failed to persist gallery visits:", error);
+            }
+        }
+    }
+}
+
+/**
+ * Totals across a range of days
+ */
+export interface UsageStatsSummary {
+    days: number; // Days with recorded activity
+    hits: number;
+    staleHits: number;
+    misses: number;
+    hitRate: number;
+    builds: number;
+    averageBuildTimeMs: number;
+    errors: number;
+    compressionRatio: number; // Stored bytes / original bytes across all builds
+    byGalleryType: Record<string, GalleryCompressionStats>;
+}
+
+/**
+ * Aggregate daily stats into range totals
+ */
+export function summarizeUsageStats(daily: DailyUsageStats[]): UsageStatsSummary {
+    const total = daily.reduce((sum, day) => mergeDailyStats(sum, day), emptyDailyStats("total"));
+    const requests = total.hits + total.misses;
+
+    return {
+        days: daily.length,
+        hits: total.hits,
+        staleHits: total.staleHits,
+        misses: total.misses,
+        hitRate: requests > 0 ? total.hits / requests : 0,
+        builds: total.builds,
+        averageBuildTimeMs: total.builds > 0 ? total.totalBuildTimeMs / total.builds : 0,
+        errors: total.errors,
+        compressionRatio:
+            total.compression.originalSize > 0 ? total.compression.compressedSize / total.compression.originalSize : 1,
+        byGalleryType: total.byGalleryType,
+    };
+}
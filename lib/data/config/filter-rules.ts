@@ -1,8 +1,9 @@
 /**
- * Filter Rules Configuration - Source of truth for all token filtering
+ * Filter Rules Configuration - Built-in token filtering rules
  *
  * Defines what tokens should be excluded from collections to improve user experience.
  * Applied client-side BEFORE caching to solve pagination issues.
+ * Rules can be edited at runtime (see filters/filter-rules-store.ts); these are the defaults.
  */
 
 /**
@@ -32,6 +33,66 @@ export interface MetadataFilterConfig {
     requireName: boolean; // Require name field in metadata
 }
 
+/**
+ * Spam signals scored by the spam detection stage
+ * - unsolicitedTransfer: the holder received the token in a single transfer they didn't initiate, from an account
+ *   other than a marketplace contract, never moved it and didn't create it
+ * - phishingUrl: the name or description links to a site and uses claim/airdrop/reward wording
+ * - massMinted: supply at or above massMintedSupply (mass airdrops mint one edition per recipient)
+ * - knownSpamCreator: created by an address in knownSpamCreators
+ */
+export type SpamSignal = "unsolicitedTransfer" | "phishingUrl" | "massMinted" | "knownSpamCreator";
+
+export const SPAM_SIGNALS: SpamSignal[] = ["unsolicitedTransfer", "phishingUrl", "massMinted", "knownSpamCreator"];
+
+/**
+ * Spam and airdrop detection configuration
+ */
+export interface SpamDetectionConfig {
+    enabled: boolean;
+    threshold: number; // Tokens scoring at or above this are hidden
+    weights: Record<SpamSignal, number>; // Points each signal adds to a token's score
+    massMintedSupply: number; // Supply that counts as mass-minted
+    knownSpamCreators: string[]; // Creator addresses whose tokens are spam
+    marketplaceContracts: string[]; // Transfers sent by these contracts are sales, never unsolicited
+    phishingKeywords: string[]; // Wording that turns a link in the description into a phishing signal
+}
+
+/**
+ * A single test against a token field
+ * - tags: metadata.tags contains any of the values (case-insensitive)
+ * - mimeType: any of metadata.formats has a matching mime type ("video/*" matches every video type)
+ * - creators: metadata.creators (or creatorProfiles) contains any of the addresses
+ * - attribute: an attribute with this trait_type exists, optionally with one of the values
+ * - firstMintAt: first mint falls inside the range (ISO dates, either bound optional)
+ * - balance: balance falls inside the range (either bound optional, inclusive)
+ */
+export type FilterCondition =
+    | { field: "tags"; values: string[] }
+    | { field: "mimeType"; values: string[] }
+    | { field: "creators"; values: string[] }
+    | { field: "attribute"; traitType: string; values?: Array<string | number> }
+    | { field: "firstMintAt"; after?: string; before?: string }
+    | { field: "balance"; min?: number; max?: number };
+
+/**
+ * Boolean expression over token conditions
+ */
+export type FilterExpression =
+    | FilterCondition
+    | { and: FilterExpression[] }
+    | { or: FilterExpression[] }
+    | { not: FilterExpression };
+
+/**
+ * Declarative filter rule - "include" keeps only matching tokens, "exclude" drops them
+ */
+export interface FilterRule {
+    name: string; // Reported in filter stats
+    action: "include" | "exclude";
+    when: FilterExpression;
+}
+
 /**
  * Complete filter configuration
  */
@@ -41,8 +102,16 @@ export interface FilterConfig {
     metadata: MetadataFilterConfig;
     whitelistedContracts: string[]; // Always include these contracts (overrides blacklist)
     blacklistedContracts: string[]; // Never include these contracts
+    rules?: FilterRule[]; // Declarative rules, applied in order after the built-in filters
+    spam?: SpamDetectionConfig; // Airdrop spam and scam detection (disabled when missing)
 }
 
+/**
+ * Limits for rule expressions (rules can arrive in request parameters)
+ */
+const MAX_FILTER_RULES = 20;
+const MAX_EXPRESSION_DEPTH = 8;
+
 /**
  * Default filter configuration - Production settings
  */
@@ -79,6 +148,29 @@ export const FILTER_CONFIG: FilterConfig = {
         // Common utility/coin contracts that show up as "NFTs"
         // Add more as discovered...
     ],
+    spam: {
+        enabled: true,
+        threshold: 6, // A phishing link or a known spam creator alone; mass-minted + unsolicited together
+        weights: {
+            unsolicitedTransfer: 3,
+            phishingUrl: 6,
+            massMinted: 3,
+            knownSpamCreator: 10,
+        },
+        massMintedSupply: 1000,
+        knownSpamCreators: [
+            // Add creator addresses of known airdrop spam campaigns
+            // Format: "tz1..."
+        ],
+        marketplaceContracts: [
+            "KT1FvqJwEDWb1Gwc55Jd1jjTHRVWbYKUUpyq", // objkt marketplace v1
+            "KT1WvzYHCNBvDSdwafTHv7nJ1dWmZ8GCYuuC", // objkt marketplace v2
+            "KT1HbQepzV1nVGg8QVznG7z4RcHseD5kwqBn", // hic et nunc marketplace
+            "KT1PHubm9HtyQEJ4BBpMTVomq6mhbfNZ9z5w", // Teia marketplace
+            "KT1GbyoDi7H1sfXmimXpptZJuCdHMh66WN7u", // fxhash marketplace
+        ],
+        phishingKeywords: ["claim", "airdrop", "reward", "bonus", "giveaway", "redeem", "eligible", "voucher", "winner"],
+    },
 };
 
 /**
@@ -105,8 +197,29 @@ export const DEV_FILTER_CONFIG: FilterConfig = {
         // Only the most obvious utility contracts in dev
         "KT18kkvmUoefkdok5mrjU6fxsm7xmumy1NEw", // veNFT
     ],
+    spam: {
+        enabled: false, // Show everything in dev
+        threshold: 6,
+        weights: {
+            unsolicitedTransfer: 3,
+            phishingUrl: 6,
+            massMinted: 3,
+            knownSpamCreator: 10,
+        },
+        massMintedSupply: 1000,
+        knownSpamCreators: [],
+        marketplaceContracts: [],
+        phishingKeywords: ["claim", "airdrop", "reward", "bonus", "giveaway", "redeem", "eligible", "voucher", "winner"],
+    },
 };
 
+/**
+ * Basic contract address check (KT1 prefix and 36 characters)
+ */
+export function isContractAddress(address: string): boolean {
+    return typeof address === "string" && address.startsWith("KT1") && address.length === 36;
+}
+
 /**
  * Validate filter configuration
  */
@@ -151,10 +264,172 @@ export function validateFilterConfig(config: FilterConfig): void {
 
     // Validate contract addresses format (basic check for KT1 prefix and reasonable length)
     [...config.whitelistedContracts, ...config.blacklistedContracts].forEach((address) => {
-        if (!address.startsWith("KT1") || address.length !== 36) {
+        if (!isContractAddress(address)) {
             throw new Error(`Invalid contract address format: ${address} (must start with KT1 and be 36 characters)`);
         }
     });
+
+    // Validate spam detection config
+    if (config.spam !== undefined) {
+        if (typeof config.spam.enabled !== "boolean") {
+            throw new Error("spam.enabled must be boolean");
+        }
+        if (typeof config.spam.threshold !== "number" || config.spam.threshold <= 0) {
+            throw new Error("spam.threshold must be > 0");
+        }
+        for (const signal of SPAM_SIGNALS) {
+            if (typeof config.spam.weights?.[signal] !== "number" || config.spam.weights[signal] < 0) {
+                throw new Error(`spam.weights.${signal} must be >= 0`);
+            }
+        }
+        if (typeof config.spam.massMintedSupply !== "number" || config.spam.massMintedSupply < 0) {
+            throw new Error("spam.massMintedSupply must be >= 0");
+        }
+        if (
+            !Array.isArray(config.spam.knownSpamCreators) ||
+            !Array.isArray(config.spam.phishingKeywords) ||
+            !Array.isArray(config.spam.marketplaceContracts)
+        ) {
+            throw new Error(
+                "spam.knownSpamCreators, spam.phishingKeywords and spam.marketplaceContracts must be arrays"
+            );
+        }
+    }
+
+    // Validate declarative rules
+    if (config.rules !== undefined) {
+        if (!Array.isArray(config.rules)) {
+            throw new Error("rules must be array");
+        }
+        if (config.rules.length > MAX_FILTER_RULES) {
+            throw new Error(`rules must have at most ${MAX_FILTER_RULES} entries`);
+        }
+        config.rules.forEach((rule, index) => validateFilterRule(rule, `rules[${index}]`));
+    }
+}
+
+/**
+ * Validate a declarative filter rule
+ */
+export function validateFilterRule(rule: FilterRule, path: string = "rule"): void {
+    if (!rule || typeof rule !== "object") {
+        throw new Error(`${path} must be an object`);
+    }
+    if (typeof rule.name !== "string" || rule.name.trim().length === 0) {
+        throw new Error(`${path}.name must be a non-empty string`);
+    }
+    if (rule.action !== "include" && rule.action !== "exclude") {
+        throw new Error(`${path}.action must be include or exclude`);
+    }
+    validateFilterExpression(rule.when, `${path}.when`, 1);
+}
+
+function validateFilterExpression(expression: FilterExpression, path: string, depth: number): void {
+    if (depth > MAX_EXPRESSION_DEPTH) {
+        throw new Error(`${path} is nested deeper than ${MAX_EXPRESSION_DEPTH} levels`);
+    }
+    if (!expression || typeof expression !== "object" || Array.isArray(expression)) {
+        throw new Error(`${path} must be an object`);
+    }
+
+    if ("and" in expression || "or" in expression) {
+        const operator = "and" in expression ? "and" : "or";
+        const operands = "and" in expression ? expression.and : expression.or;
+        if (!Array.isArray(operands) || operands.length === 0) {
+            throw new Error(`${path}.${operator} must be a non-empty array`);
+        }
+        operands.forEach((operand, index) =>
+            validateFilterExpression(operand, `${path}.${operator}[${index}]`, depth + 1)
+        );
+        return;
+    }
+
+    if ("not" in expression) {
+        validateFilterExpression(expression.not, `${path}.not`, depth + 1);
+        return;
+    }
+
+    const isStringList = (values: unknown) =>
+        Array.isArray(values) && values.length > 0 && values.every((value) => typeof value === "string");
+    const isOptionalNumber = (value: unknown) => value === undefined || (typeof value === "number" && value >= 0);
+    const isOptionalDate = (value: unknown) =>
+        value === undefined || (typeof value === "string" && !Number.isNaN(Date.parse(value)));
+
+    switch (expression.field) {
+        case "tags":
+        case "mimeType":
+        case "creators":
+            if (!isStringList(expression.values)) {
+                throw new Error(`${path}.values must be a non-empty array of strings`);
+            }
+            return;
+        case "attribute":
+            if (typeof expression.traitType !== "string" || expression.traitType.length === 0) {
+                throw new Error(`${path}.traitType must be a non-empty string`);
+            }
+            if (
+                expression.values !== undefined &&
+                (!Array.isArray(expression.values) ||
+                    !expression.values.every((value) => typeof value === "string" || typeof value === "number"))
+            ) {
+                throw new Error(`${path}.values must be an array of strings or numbers`);
+            }
+            return;
+        case "firstMintAt":
+            if (!isOptionalDate(expression.after) || !isOptionalDate(expression.before)) {
+                throw new Error(`${path}.after and ${path}.before must be ISO dates`);
+            }
+            return;
+        case "balance":
+            if (!isOptionalNumber(expression.min) || !isOptionalNumber(expression.max)) {
+                throw new Error(`${path}.min and ${path}.max must be numbers >= 0`);
+            }
+            return;
+        default:
+            throw new Error(
+                `${path} must be and/or/not or a condition on tags, mimeType, creators, attribute, firstMintAt or balance`
+            );
+    }
+}
+
+/**
+ * Human-readable form of a rule expression (used to explain rule results)
+ */
+export function describeFilterExpression(expression: FilterExpression): string {
+    if ("and" in expression) {
+        return `(${expression.and.map(describeFilterExpression).join(" AND ")})`;
+    }
+    if ("or" in expression) {
+        return `(${expression.or.map(describeFilterExpression).join(" OR ")})`;
+    }
+    if ("not" in expression) {
+        return `NOT ${describeFilterExpression(expression.not)}`;
+    }
+
+    switch (expression.field) {
+        case "tags":
+        case "mimeType":
+        case "creators":
+            return `${expression.field} in [${expression.values.join(", ")}]`;
+        case "attribute":
+            return expression.values
+                ? `attribute ${expression.traitType} in [${expression.values.join(", ")}]`
+                : `has attribute ${expression.traitType}`;
+        case "firstMintAt": {
+            const bounds = [
+                expression.after !== undefined && `after ${expression.after}`,
+                expression.before !== undefined && `before ${expression.before}`,
+            ];
+            return `firstMintAt ${bounds.filter(Boolean).join(" and ") || "set"}`;
+        }
+        case "balance": {
+            const bounds = [
+                expression.min !== undefined && `>= ${expression.min}`,
+                expression.max !== undefined && `<= ${expression.max}`,
+            ];
+            return `balance ${bounds.filter(Boolean).join(" and ") || "any"}`;
+        }
+    }
 }
 
 /**
@@ -178,6 +453,138 @@ export function getFilterSummary(config: FilterConfig): string {
     if (config.metadata.requireName) filters.push("name");
     if (config.whitelistedContracts.length > 0) filters.push(`whitelist:${config.whitelistedContracts.length}`);
     if (config.blacklistedContracts.length > 0) filters.push(`blacklist:${config.blacklistedContracts.length}`);
+    if (config.rules && config.rules.length > 0) filters.push(`rules:${config.rules.length}`);
+    if (config.spam?.enabled) filters.push(`spam>=${config.spam.threshold}`);
 
     return filters.length > 0 ? filters.join(", ") : "no-filters";
 }
+
+/**
+ * Per-request filter overrides (e.g. from API query parameters) applied on top of a base configuration
+ */
+export interface FilterOverrides {
+    includeUtility?: boolean; // Keep fungible/utility tokens
+    includeSpam?: boolean; // Keep tokens flagged by spam detection
+    requireImage?: boolean; // Require an image URI
+    minBalance?: number; // Minimum balance threshold
+    blacklist?: string[]; // Extra contracts to exclude
+    whitelist?: string[]; // Extra contracts to always include
+    rules?: FilterRule[]; // Extra declarative rules, applied after the configured ones
+}
+
+/**
+ * Check whether overrides would change anything
+ */
+export function hasFilterOverrides(overrides: FilterOverrides | undefined): overrides is FilterOverrides {
+    return (
+        !!overrides &&
+        (overrides.includeUtility !== undefined ||
+            overrides.includeSpam !== undefined ||
+            overrides.requireImage !== undefined ||
+            overrides.minBalance !== undefined ||
+            (overrides.blacklist?.length ?? 0) > 0 ||
+            (overrides.whitelist?.length ?? 0) > 0 ||
+            (overrides.rules?.length ?? 0) > 0)
+    );
+}
+
+/**
+ * Build the effective configuration for a request (contract lists are extended, not replaced)
+ */
+export function applyFilterOverrides(config: FilterConfig, overrides: FilterOverrides): FilterConfig {
+    // Extra contracts are sorted so the same overrides always produce the same configuration (and hash)
+    const merge = (base: string[], extra: string[] = []) =>
+        Array.from(new Set([...base, ...extra.filter((address) => !base.includes(address)).sort()]));
+
+    const effective: FilterConfig = {
+        basic: {
+            ...config.basic,
+            excludeUtilityTokens:
+                overrides.includeUtility !== undefined ? !overrides.includeUtility : config.basic.excludeUtilityTokens,
+            minimumBalance: overrides.minBalance ?? config.basic.minimumBalance,
+        },
+        utilityTokenFilters: { ...config.utilityTokenFilters },
+        metadata: {
+            ...config.metadata,
+            requireImage: overrides.requireImage ?? config.metadata.requireImage,
+        },
+        whitelistedContracts: merge(config.whitelistedContracts, overrides.whitelist),
+        blacklistedContracts: merge(config.blacklistedContracts, overrides.blacklist),
+        rules: overrides.rules?.length ? [...(config.rules ?? []), ...overrides.rules] : config.rules,
+        spam:
+            config.spam && overrides.includeSpam !== undefined
+                ? { ...config.spam, enabled: !overrides.includeSpam }
+                : config.spam,
+    };
+
+    validateFilterConfig(effective);
+    return effective;
+}
+
+/**
+ * Result of reading filter overrides from query parameters
+ */
+export type FilterOverridesParseResult =
+    | { valid: true; overrides: FilterOverrides | undefined }
+    | { valid: false; error: string };
+
+/**
+ * Read filter overrides from query parameters
+ * - includeUtility / includeSpam / requireImage: "true" | "false"
+ * - minBalance: number >= 0
+ * - blacklist / whitelist: comma-separated KT1 addresses (may be repeated)
+ * - rules: JSON filter rule, or array of rules
+ */
+export function parseFilterOverrides(searchParams: URLSearchParams): FilterOverridesParseResult {
+    const overrides: FilterOverrides = {};
+
+    for (const name of ["includeUtility", "includeSpam", "requireImage"] as const) {
+        const value = searchParams.get(name);
+        if (value === null) continue;
+        if (value !== "true" && value !== "false") {
+            return { valid: false, error: `${name} parameter must be true or false` };
+        }
+        overrides[name] = value === "true";
+    }
+
+    const minBalance = searchParams.get("minBalance");
+    if (minBalance !== null) {
+        const value = Number(minBalance);
+        if (minBalance.trim() === "" || !Number.isFinite(value) || value < 0) {
+            return { valid: false, error: "minBalance parameter must be a number >= 0" };
+        }
+        overrides.minBalance = value;
+    }
+
+    for (const name of ["blacklist", "whitelist"] as const) {
+        const contracts = searchParams
+            .getAll(name)
+            .flatMap((value) => value.split(","))
+            .map((address) => address.trim())
+            .filter(Boolean);
+        const invalid = contracts.find((address) => !isContractAddress(address));
+        if (invalid) {
+            return { valid: false, error: `Invalid contract address in ${name}: ${invalid}` };
+        }
+        if (contracts.length > 0) {
+            overrides[name] = contracts;
+        }
+    }
+
+    const rules = searchParams.get("rules");
+    if (rules !== null) {
+        try {
+            const parsed = JSON.parse(rules);
+            overrides.rules = Array.isArray(parsed) ? parsed : [parsed];
+            if (overrides.rules.length > MAX_FILTER_RULES) {
+                return { valid: false, error: `rules parameter must have at most ${MAX_FILTER_RULES} entries` };
+            }
+            overrides.rules.forEach((rule, index) => validateFilterRule(rule, `rules[${index}]`));
+        } catch (error) {
+            const reason = error instanceof SyntaxError ? "must be valid JSON" : (error as Error).message;
+            return { valid: false, error: `Invalid rules parameter: ${reason}` };
+        }
+    }
+
+    return { valid: true, overrides: hasFilterOverrides(overrides) ? overrides : undefined };
+}
@@ -0,0 +1,101 @@
+/**
+ * Network Configuration - Tezos networks a gallery can be served from
+ *
+ * Every TzKT / objkt URL used by the data layer and the UI is resolved from here,
+ * so a single `network` value selects the indexers for the whole request.
+ * The custom network points at a self-hosted TzKT instance configured via env.
+ */
+
+/**
+ * Supported network identifiers
+ */
+export const NETWORK_IDS = ["mainnet", "ghostnet", "custom"] as const;
+export type NetworkId = (typeof NETWORK_IDS)[number];
+
+/**
+ * Default network (used when no network is requested)
+ */
+export const DEFAULT_NETWORK: NetworkId = "mainnet";
+
+/**
+ * Indexer and explorer endpoints for a network
+ */
+export interface NetworkConfig {
+    id: NetworkId;
+    name: string;
+    tzktApiUrl: string; // TzKT REST API base URL
+    tzktExplorerUrl: string; // TzKT web explorer (for links)
+    objktGraphqlUrl?: string; // objkt.com data API (not available on custom networks)
+}
+
+/**
+ * Built-in network definitions
+ */
+export const NETWORKS: Record<NetworkId, NetworkConfig> = {
+    mainnet: {
+        id: "mainnet",
+        name: "Mainnet",
+        tzktApiUrl: "https://api.tzkt.io",
+        tzktExplorerUrl: "https://tzkt.io",
+        objktGraphqlUrl: "https://data.objkt.com/v3/graphql",
+    },
+    ghostnet: {
+        id: "ghostnet",
+        name: "Ghostnet",
+        tzktApiUrl: "https://api.ghostnet.tzkt.io",
+        tzktExplorerUrl: "https://ghostnet.tzkt.io",
+        objktGraphqlUrl: "https://data.ghostnet.objkt.com/v3/graphql",
+    },
+    custom: {
+        id: "custom",
+        name: "Custom",
+        // Only configurable through env so requests can't point the server at arbitrary hosts
+        tzktApiUrl: process.env.NEXT_PUBLIC_CUSTOM_TZKT_API_URL || "",
+        tzktExplorerUrl: process.env.NEXT_PUBLIC_CUSTOM_TZKT_EXPLORER_URL || "https://tzkt.io",
+    },
+};
+
+/**
+ * Type guard for network identifiers
+ */
+export function isNetworkId(value: string): value is NetworkId {
+    return (NETWORK_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a network has its indexer configured and can be queried
+ */
+export function isNetworkAvailable(network: NetworkId): boolean {
+    return !!NETWORKS[network].tzktApiUrl;
+}
+
+/**
+ * Networks that can currently be selected
+ */
+export function getAvailableNetworks(): NetworkId[] {
+    return NETWORK_IDS.filter(isNetworkAvailable);
+}
+
+/**
+ * Get the configuration for a network
+ */
+export function getNetworkConfig(network: NetworkId = DEFAULT_NETWORK): NetworkConfig {
+    const config = NETWORKS[network];
+    if (!config.tzktApiUrl) {
+        throw new Error(`Network "${network}" is not configured (set NEXT_PUBLIC_CUSTOM_TZKT_API_URL)`);
+    }
+    return config;
+}
+
+/**
+ * Resolve a `network` query parameter, falling back to mainnet when absent.
+ * Returns null for unknown or unconfigured networks.
+ */
+export function resolveNetworkParam(value: string | null | undefined): NetworkId | null {
+    if (!value) {
+        return DEFAULT_NETWORK;
+    }
+
+    const network = value.toLowerCase();
+    return isNetworkId(network) && isNetworkAvailable(network) ? network : null;
+}
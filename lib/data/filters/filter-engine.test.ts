@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { FilterEngine, TokenFilters } from "./filter-engine";
+import { FILTER_CONFIG, FilterConfig, SpamDetectionConfig } from "../config/filter-rules";
+import { UnifiedToken } from "../types/token-types";
+
+const OWNER = "tz1OwnerAddressOwnerAddressOwnerAddr";
+const AIRDROPPER = "tz1AirdropperAirdropperAirdropperAir";
+const MARKETPLACE = "KT1WvzYHCNBvDSdwafTHv7nJ1dWmZ8GCYuuC";
+
+function token(overrides: Partial<UnifiedToken> = {}): UnifiedToken {
+    return {
+        id: "KT1Contract_1",
+        contractAddress: "KT1ContractContractContractContract1",
+        tokenId: "1",
+        balance: "1",
+        standard: "fa2",
+        metadata: { name: "Token", artifactUri: "ipfs://artifact", creators: ["tz1Artist"] },
+        source: { provider: "tzkt", version: "v1", endpoint: "https://api.tzkt.io", priority: 1 },
+        fetchedAt: new Date("2024-01-01T00:00:00Z"),
+        isValid: true,
+        hasImage: true,
+        hasMetadata: true,
+        ...overrides,
+    };
+}
+
+function engine(overrides: Partial<FilterConfig> = {}): FilterEngine {
+    return new FilterEngine({ ...FILTER_CONFIG, ...overrides });
+}
+
+const spam: SpamDetectionConfig = FILTER_CONFIG.spam!;
+
+describe("TokenFilters.scoreSpam", () => {
+    const airdrop = (overrides: Partial<UnifiedToken> = {}) =>
+        token({ transferCount: 1, receivedVia: { sender: AIRDROPPER, initiator: AIRDROPPER }, ...overrides });
+
+    it("flags a single transfer someone else signed", () => {
+        expect(TokenFilters.scoreSpam(airdrop(), spam, OWNER)).toEqual({ score: 3, signals: ["unsolicitedTransfer"] });
+    });
+
+    it("does not flag a transfer without origin data, or without a known owner", () => {
+        expect(TokenFilters.scoreSpam(token({ transferCount: 1 }), spam, OWNER).signals).toEqual([]);
+        expect(TokenFilters.scoreSpam(airdrop(), spam).signals).toEqual([]);
+    });
+
+    it("does not flag purchases, accepted offers or the holder's own work", () => {
+        const purchase = airdrop({ receivedVia: { sender: MARKETPLACE, initiator: AIRDROPPER } });
+        const signedByOwner = airdrop({ receivedVia: { sender: AIRDROPPER, initiator: OWNER } });
+        const ownWork = airdrop({ metadata: { name: "Mine", creators: [OWNER] } });
+        const resold = airdrop({ transferCount: 2 });
+
+        for (const candidate of [purchase, signedByOwner, ownWork, resold]) {
+            expect(TokenFilters.scoreSpam(candidate, spam, OWNER).signals).not.toContain("unsolicitedTransfer");
+        }
+    });
+
+    it("flags links with claim wording, mass mints and known spam creators", () => {
+        const phishing = token({ metadata: { name: "Claim your reward", description: "visit free-tez.xyz now" } });
+        const massMinted = token({ metadata: { name: "Edition", supply: "5000" } });
+        const knownSpam = token({ metadata: { name: "Gift", creators: ["tz1Spammer"] } });
+        const config = { ...spam, knownSpamCreators: ["tz1Spammer"] };
+
+        expect(TokenFilters.scoreSpam(phishing, config).signals).toEqual(["phishingUrl"]);
+        expect(TokenFilters.scoreSpam(massMinted, config).signals).toEqual(["massMinted"]);
+        expect(TokenFilters.scoreSpam(knownSpam, config)).toEqual({ score: 10, signals: ["knownSpamCreator"] });
+    });
+
+    it("ignores links without claim wording", () => {
+        const artwork = token({ metadata: { name: "Sunset", description: "More at artist.com" } });
+        expect(TokenFilters.scoreSpam(artwork, spam).signals).toEqual([]);
+    });
+});
+
+describe("FilterEngine.applyFilters", () => {
+    it("hides tokens at or above the spam threshold and reports each signal", () => {
+        const airdrop = token({
+            id: "airdrop",
+            transferCount: 1,
+            receivedVia: { sender: AIRDROPPER, initiator: AIRDROPPER },
+            metadata: { name: "Free drop", supply: "10000" },
+        });
+        const kept = token({ id: "kept" });
+
+        const result = engine().applyFilters([airdrop, kept], { owner: OWNER, keepExcluded: true });
+
+        expect(result.filteredTokens.map((t) => t.id)).toEqual(["kept"]);
+        expect(result.filterStats.removedBySpam).toBe(1);
+        expect(result.excludedReasons).toEqual({ "spam:unsolicitedTransfer": 1, "spam:massMinted": 1 });
+        expect(result.excludedTokens?.[0]).toMatchObject({ reason: "spam", token: { id: "airdrop" } });
+    });
+
+    it("drops sold, fungible and blacklisted tokens", () => {
+        const blacklisted = FILTER_CONFIG.blacklistedContracts[0];
+        const tokens = [
+            token({ id: "ok" }),
+            token({ id: "sold", balance: "0" }),
+            token({ id: "blacklisted", contractAddress: blacklisted }),
+            token({ id: "fungible", metadata: { name: "Coin", decimals: 6 } }),
+        ];
+
+        const result = engine().applyFilters(tokens);
+
+        expect(result.filteredTokens.map((t) => t.id)).toEqual(["ok"]);
+        expect(result.excludedReasons).toEqual({ balance: 1, utility: 1, contract: 1 });
+    });
+
+    it("applies declarative rules in order", () => {
+        const rules: FilterConfig["rules"] = [
+            { name: "videos", action: "include", when: { field: "mimeType", values: ["video/*"] } },
+            { name: "no-nsfw", action: "exclude", when: { field: "tags", values: ["NSFW"] } },
+        ];
+        const video = (id: string, tags: string[] = []) =>
+            token({ id, metadata: { name: id, formats: [{ uri: "ipfs://video", mimeType: "video/mp4" }], tags } });
+        const tokens = [video("clip"), video("explicit", ["nsfw"]), token({ id: "still" })];
+
+        const result = engine({ rules }).applyFilters(tokens);
+
+        expect(result.filteredTokens.map((t) => t.id)).toEqual(["clip"]);
+        expect(result.filterStats.rules.map((rule) => rule.removed)).toEqual([1, 1]);
+    });
+
+    it("keys every effective configuration by its own hash", () => {
+        const base = engine();
+        expect(base.generateFilterHash()).toBe(engine().generateFilterHash());
+        expect(base.withOverrides({ includeSpam: true }).generateFilterHash()).not.toBe(base.generateFilterHash());
+    });
+});
+
+describe("FilterEngine.needsTransferOrigins", () => {
+    it("asks for origins only while the unsolicited transfer signal counts", () => {
+        expect(engine().needsTransferOrigins()).toBe(true);
+        expect(engine({ spam: { ...spam, enabled: false } }).needsTransferOrigins()).toBe(false);
+        expect(
+            engine({ spam: { ...spam, weights: { ...spam.weights, unsolicitedTransfer: 0 } } }).needsTransferOrigins()
+        ).toBe(false);
+    });
+});
@@ -6,8 +6,67 @@
  * relying on server-side filtering which breaks pagination.
  */
 
-import { UnifiedToken } from "../types/token-types";
-import { FILTER_CONFIG, FilterConfig, validateFilterConfig } from "../config/filter-rules";
+import { createHash } from "crypto";
+import { ExcludedToken, UnifiedToken } from "../types/token-types";
+import {
+    FILTER_CONFIG,
+    FilterConfig,
+    FilterExpression,
+    FilterOverrides,
+    FilterRule,
+    SpamDetectionConfig,
+    SpamSignal,
+    applyFilterOverrides,
+    describeFilterExpression,
+    hasFilterOverrides,
+    validateFilterConfig,
+} from "../config/filter-rules";
+
+/**
+ * Outcome of one declarative rule
+ */
+export interface FilterRuleStats {
+    name: string;
+    action: FilterRule["action"];
+    condition: string; // Human-readable rule expression
+    evaluated: number; // Tokens the rule was checked against
+    matched: number; // Tokens matching the expression
+    removed: number; // Tokens the rule filtered out
+    explanation: string;
+}
+
+/**
+ * What the engine knows about the collection being filtered
+ */
+export interface FilterContext {
+    owner?: string; // Wallet holding the tokens (USER galleries) - enables holder-based spam signals
+    keepExcluded?: boolean; // Return the removed tokens with their exclusion reason
+}
+
+/**
+ * Spam score for a token and the signals behind it
+ */
+export interface SpamScore {
+    score: number;
+    signals: SpamSignal[];
+}
+
+/**
+ * Links in token text (full URLs, www. hosts and bare domains on common TLDs)
+ */
+const URL_PATTERN = /(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|net|org|io|xyz|app|site|online|live|top|gift|fun|club)\b/i;
+
+/**
+ * Explanations for tokens removed by the built-in filter stages
+ */
+const EXCLUSION_EXPLANATIONS: Record<string, string> = {
+    metadata: "No metadata",
+    balance: "Balance below the minimum",
+    utility: "Utility or fungible token",
+    contract: "Contract is blacklisted or not whitelisted",
+    image: "No image",
+    name: "No name",
+};
 
 /**
  * Filter application result with metadata
@@ -23,11 +82,32 @@ export interface FilterResult {
         removedByContract: number;
         removedByImageRequirement: number;
         removedByNameRequirement: number;
+        removedByRules: number;
+        removedBySpam: number;
+        rules: FilterRuleStats[]; // Per-rule results, in evaluation order
     };
     filtersApplied: string[];
+    excludedReasons: Record<string, number>; // reason -> tokens removed (spam tokens count once per signal)
+    excludedTokens?: ExcludedToken[]; // Removed tokens with their reason (only when keepExcluded is set)
     filterHash: string; // Hash of applied filter configuration
 }
 
+/**
+ * Serialize a value with object keys sorted at every level, so equal configurations serialize identically
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(",")}]`;
+    }
+    if (value && typeof value === "object") {
+        const entries = Object.entries(value)
+            .filter(([, entry]) => entry !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b));
+        return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
+
 /**
  * Individual filter functions for modular testing
  */
@@ -121,6 +201,146 @@ export class TokenFilters {
         });
     }
 
+    /**
+     * Score a token against the spam signals
+     */
+    static scoreSpam(token: UnifiedToken, config: SpamDetectionConfig, owner?: string): SpamScore {
+        const metadata = token.metadata || {};
+        const creators = [
+            ...(metadata.creators || []),
+            ...(metadata.creatorProfiles || []).map((profile) => profile.address),
+        ];
+        const signals: SpamSignal[] = [];
+
+        // Received once in an operation someone else signed, not sent by a marketplace and not created by the
+        // holder - an airdrop rather than a purchase, accepted offer or mint. Unscored without origin data.
+        const origin = token.receivedVia;
+        if (
+            owner &&
+            origin &&
+            token.transferCount === 1 &&
+            origin.initiator !== owner &&
+            !config.marketplaceContracts.includes(origin.sender) &&
+            !creators.includes(owner)
+        ) {
+            signals.push("unsolicitedTransfer");
+        }
+
+        const text = `${metadata.name || ""} ${metadata.description || ""}`;
+        if (URL_PATTERN.test(text)) {
+            // Keywords match word starts, so "claim" also catches "claimed" and "claiming"
+            const words = text.toLowerCase().split(/[^a-z0-9]+/);
+            const keywords = config.phishingKeywords.map((keyword) => keyword.toLowerCase());
+            if (words.some((word) => keywords.some((keyword) => word.startsWith(keyword)))) {
+                signals.push("phishingUrl");
+            }
+        }
+
+        const supply = Number(metadata.supply) || 0;
+        if (config.massMintedSupply > 0 && supply >= config.massMintedSupply) {
+            signals.push("massMinted");
+        }
+
+        if (creators.some((creator) => config.knownSpamCreators.includes(creator))) {
+            signals.push("knownSpamCreator");
+        }
+
+        return {
+            score: signals.reduce((total, signal) => total + config.weights[signal], 0),
+            signals,
+        };
+    }
+
+    /**
+     * Evaluate a declarative rule expression against a token
+     */
+    static matchesExpression(token: UnifiedToken, expression: FilterExpression): boolean {
+        if ("and" in expression) {
+            return expression.and.every((operand) => TokenFilters.matchesExpression(token, operand));
+        }
+        if ("or" in expression) {
+            return expression.or.some((operand) => TokenFilters.matchesExpression(token, operand));
+        }
+        if ("not" in expression) {
+            return !TokenFilters.matchesExpression(token, expression.not);
+        }
+
+        const metadata = token.metadata || {};
+
+        switch (expression.field) {
+            case "tags": {
+                const tags = (metadata.tags || []).map((tag) => String(tag).toLowerCase());
+                return expression.values.some((value) => tags.includes(value.toLowerCase()));
+            }
+            case "mimeType": {
+                const mimeTypes = (metadata.formats || []).map((format) => (format.mimeType || "").toLowerCase());
+                return expression.values.some((pattern) => {
+                    const expected = pattern.toLowerCase();
+                    return expected.endsWith("/*")
+                        ? mimeTypes.some((mimeType) => mimeType.startsWith(expected.slice(0, -1)))
+                        : mimeTypes.includes(expected);
+                });
+            }
+            case "creators": {
+                const creators = [
+                    ...(metadata.creators || []),
+                    ...(metadata.creatorProfiles || []).map((profile) => profile.address),
+                ];
+                return expression.values.some((address) => creators.includes(address));
+            }
+            case "attribute": {
+                const traitType = expression.traitType.toLowerCase();
+                const values = expression.values?.map((value) => String(value).toLowerCase());
+                return (metadata.attributes || []).some(
+                    (attribute) =>
+                        String(attribute.trait_type).toLowerCase() === traitType &&
+                        (!values || values.includes(String(attribute.value).toLowerCase()))
+                );
+            }
+            case "firstMintAt": {
+                // Cached tokens carry dates as strings
+                const mintedAt = token.firstMintAt ? new Date(token.firstMintAt).getTime() : NaN;
+                if (Number.isNaN(mintedAt)) return false;
+                if (expression.after !== undefined && mintedAt < Date.parse(expression.after)) return false;
+                if (expression.before !== undefined && mintedAt > Date.parse(expression.before)) return false;
+                return true;
+            }
+            case "balance": {
+                const balance = Number(token.balance) || 0;
+                if (expression.min !== undefined && balance < expression.min) return false;
+                if (expression.max !== undefined && balance > expression.max) return false;
+                return true;
+            }
+        }
+    }
+
+    /**
+     * Apply a declarative rule, reporting how it affected the tokens
+     */
+    static applyRule(tokens: UnifiedToken[], rule: FilterRule): { tokens: UnifiedToken[]; stats: FilterRuleStats } {
+        const matches = tokens.map((token) => TokenFilters.matchesExpression(token, rule.when));
+        const kept = tokens.filter((_, index) => matches[index] === (rule.action === "include"));
+        const matched = matches.filter(Boolean).length;
+        const removed = tokens.length - kept.length;
+        const condition = describeFilterExpression(rule.when);
+
+        return {
+            tokens: kept,
+            stats: {
+                name: rule.name,
+                action: rule.action,
+                condition,
+                evaluated: tokens.length,
+                matched,
+                removed,
+                explanation:
+                    rule.action === "include"
+                        ? `Kept ${kept.length} of ${tokens.length} tokens matching ${condition}`
+                        : `Removed ${removed} of ${tokens.length} tokens matching ${condition}`,
+            },
+        };
+    }
+
     /**
      * Filter tokens that require name metadata
      */
@@ -146,10 +366,24 @@ export class FilterEngine {
     /**
      * Apply all configured filters to a token array
      */
-    applyFilters(tokens: UnifiedToken[]): FilterResult {
+    applyFilters(tokens: UnifiedToken[], context: FilterContext = {}): FilterResult {
         const originalCount = tokens.length;
         let currentTokens = [...tokens]; // Copy to avoid mutation
         const filtersApplied: string[] = [];
+        const excludedReasons: Record<string, number> = {};
+        const exclude = (reason: string, count: number) => {
+            if (count > 0) excludedReasons[reason] = (excludedReasons[reason] || 0) + count;
+        };
+        const excludedTokens: ExcludedToken[] = [];
+        const keep = (reason: string, before: UnifiedToken[], after: UnifiedToken[], explanation?: string) => {
+            if (!context.keepExcluded || before.length === after.length) return;
+            const kept = new Set(after);
+            before
+                .filter((token) => !kept.has(token))
+                .forEach((token) =>
+                    excludedTokens.push({ token, reason, explanation: explanation || EXCLUSION_EXPLANATIONS[reason] })
+                );
+        };
 
         // Initialize filter stats
         const filterStats = {
@@ -159,13 +393,18 @@ export class FilterEngine {
             removedByContract: 0,
             removedByImageRequirement: 0,
             removedByNameRequirement: 0,
+            removedByRules: 0,
+            removedBySpam: 0,
+            rules: [] as FilterRuleStats[],
         };
 
         // Apply metadata requirement filter
         if (this.config.basic.requireMetadata) {
-            const beforeCount = currentTokens.length;
+            const before = currentTokens;
             currentTokens = TokenFilters.requireMetadata(currentTokens);
-            filterStats.removedByMetadata = beforeCount - currentTokens.length;
+            keep("metadata", before, currentTokens);
+            filterStats.removedByMetadata = before.length - currentTokens.length;
+            exclude("metadata", filterStats.removedByMetadata);
             if (filterStats.removedByMetadata > 0) {
                 filtersApplied.push("requireMetadata");
             }
@@ -173,9 +412,11 @@ export class FilterEngine {
 
         // Apply balance requirement filter
         if (this.config.basic.requirePositiveBalance) {
-            const beforeCount = currentTokens.length;
+            const before = currentTokens;
             currentTokens = TokenFilters.requirePositiveBalance(currentTokens, this.config.basic.minimumBalance || 0);
-            filterStats.removedByBalance = beforeCount - currentTokens.length;
+            keep("balance", before, currentTokens);
+            filterStats.removedByBalance = before.length - currentTokens.length;
+            exclude("balance", filterStats.removedByBalance);
             if (filterStats.removedByBalance > 0) {
                 filtersApplied.push("requirePositiveBalance");
             }
@@ -183,9 +424,11 @@ export class FilterEngine {
 
         // Apply utility token filters
         if (this.config.basic.excludeUtilityTokens) {
-            const beforeCount = currentTokens.length;
+            const before = currentTokens;
             currentTokens = TokenFilters.excludeUtilityTokens(currentTokens, this.config.utilityTokenFilters);
-            filterStats.removedByUtilityRules = beforeCount - currentTokens.length;
+            keep("utility", before, currentTokens);
+            filterStats.removedByUtilityRules = before.length - currentTokens.length;
+            exclude("utility", filterStats.removedByUtilityRules);
 
             if (filterStats.removedByUtilityRules > 0) {
                 filtersApplied.push("excludeUtilityTokens");
@@ -193,13 +436,15 @@ export class FilterEngine {
         }
 
         // Apply contract filtering
-        const beforeContractCount = currentTokens.length;
+        const beforeContract = currentTokens;
         currentTokens = TokenFilters.filterByContracts(
             currentTokens,
             this.config.whitelistedContracts,
             this.config.blacklistedContracts
         );
-        filterStats.removedByContract = beforeContractCount - currentTokens.length;
+        keep("contract", beforeContract, currentTokens);
+        filterStats.removedByContract = beforeContract.length - currentTokens.length;
+        exclude("contract", filterStats.removedByContract);
         if (filterStats.removedByContract > 0) {
             if (this.config.whitelistedContracts.length > 0) {
                 filtersApplied.push("contractWhitelist");
@@ -210,9 +455,11 @@ export class FilterEngine {
 
         // Apply image requirement filter
         if (this.config.metadata.requireImage) {
-            const beforeCount = currentTokens.length;
+            const before = currentTokens;
             currentTokens = TokenFilters.requireImage(currentTokens);
-            filterStats.removedByImageRequirement = beforeCount - currentTokens.length;
+            keep("image", before, currentTokens);
+            filterStats.removedByImageRequirement = before.length - currentTokens.length;
+            exclude("image", filterStats.removedByImageRequirement);
             if (filterStats.removedByImageRequirement > 0) {
                 filtersApplied.push("requireImage");
             }
@@ -220,14 +467,57 @@ export class FilterEngine {
 
         // Apply name requirement filter
         if (this.config.metadata.requireName) {
-            const beforeCount = currentTokens.length;
+            const before = currentTokens;
             currentTokens = TokenFilters.requireName(currentTokens);
-            filterStats.removedByNameRequirement = beforeCount - currentTokens.length;
+            keep("name", before, currentTokens);
+            filterStats.removedByNameRequirement = before.length - currentTokens.length;
+            exclude("name", filterStats.removedByNameRequirement);
             if (filterStats.removedByNameRequirement > 0) {
                 filtersApplied.push("requireName");
             }
         }
 
+        // Apply spam detection (hidden at or above the score threshold)
+        const spam = this.config.spam;
+        if (spam?.enabled) {
+            currentTokens = currentTokens.filter((token) => {
+                const { score, signals } = TokenFilters.scoreSpam(token, spam, context.owner);
+                if (score < spam.threshold) return true;
+
+                filterStats.removedBySpam++;
+                signals.forEach((signal) => exclude(`spam:${signal}`, 1));
+                if (context.keepExcluded) {
+                    excludedTokens.push({
+                        token,
+                        reason: "spam",
+                        explanation: `Spam score ${score} (${signals.join(", ")})`,
+                    });
+                }
+                return false;
+            });
+            if (filterStats.removedBySpam > 0) {
+                filtersApplied.push("spamDetection");
+            }
+        }
+
+        // Apply declarative rules in order
+        for (const rule of this.config.rules || []) {
+            const result = TokenFilters.applyRule(currentTokens, rule);
+            keep(
+                `rule:${rule.name}`,
+                currentTokens,
+                result.tokens,
+                `Rule "${rule.name}" ${rule.action === "include" ? "keeps only" : "excludes"} ${result.stats.condition}`
+            );
+            currentTokens = result.tokens;
+            filterStats.removedByRules += result.stats.removed;
+            exclude(`rule:${rule.name}`, result.stats.removed);
+            filterStats.rules.push(result.stats);
+            if (result.stats.removed > 0) {
+                filtersApplied.push(`rule:${rule.name}`);
+            }
+        }
+
         // Generate filter hash for caching
         const filterHash = this.generateFilterHash();
 
@@ -237,6 +527,8 @@ export class FilterEngine {
             filteredCount: currentTokens.length,
             filterStats,
             filtersApplied,
+            excludedReasons,
+            excludedTokens: context.keepExcluded ? excludedTokens : undefined,
             filterHash,
         };
     }
@@ -257,13 +549,21 @@ export class FilterEngine {
     }
 
     /**
-     * Generate a hash of the current filter configuration for cache keys
+     * Engine for a single request's effective configuration (this engine when there is nothing to override)
+     */
+    withOverrides(overrides?: FilterOverrides): FilterEngine {
+        return hasFilterOverrides(overrides) ? new FilterEngine(applyFilterOverrides(this.config, overrides)) : this;
+    }
+
+    /**
+     * Generate a hash of the complete filter configuration for cache keys - every setting contributes,
+     * so each effective configuration is cached separately
      */
     generateFilterHash(): string {
-        const configString = JSON.stringify(this.config, Object.keys(this.config).sort());
         // Use base64 and make it URL-safe manually (base64url isn't supported in all Node versions)
-        return Buffer.from(configString)
-            .toString("base64")
+        return createHash("sha256")
+            .update(stableStringify(this.config))
+            .digest("base64")
             .replace(/\+/g, "-")
             .replace(/\//g, "_")
             .replace(/=/g, "")
@@ -281,10 +581,20 @@ export class FilterEngine {
             this.config.whitelistedContracts.length > 0 ||
             this.config.blacklistedContracts.length > 0 ||
             !!this.config.metadata.requireImage ||
-            !!this.config.metadata.requireName
+            !!this.config.metadata.requireName ||
+            (this.config.rules?.length ?? 0) > 0 ||
+            !!this.config.spam?.enabled
         );
     }
 
+    /**
+     * Check if spam scoring uses transfer origins, so USER builds know to ask providers for them
+     */
+    needsTransferOrigins(): boolean {
+        const spam = this.config.spam;
+        return !!spam?.enabled && spam.weights.unsolicitedTransfer > 0;
+    }
+
     /**
      * Get a summary of filter impact for logging/debugging
      */
@@ -301,6 +611,8 @@ export class FilterEngine {
         if (filterStats.removedByContract > 0) summary += `, contract: ${filterStats.removedByContract}`;
         if (filterStats.removedByImageRequirement > 0) summary += `, image: ${filterStats.removedByImageRequirement}`;
         if (filterStats.removedByNameRequirement > 0) summary += `, name: ${filterStats.removedByNameRequirement}`;
+        if (filterStats.removedByRules > 0) summary += `, rules: ${filterStats.removedByRules}`;
+        if (filterStats.removedBySpam > 0) summary += `, spam: ${filterStats.removedBySpam}`;
 
         return summary;
     }
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { FilterRulesStore } from "./filter-rules-store";
+import { FilterEngine } from "./filter-engine";
+import { FILTER_CONFIG } from "../config/filter-rules";
+
+const CONTRACT = "KT1BlacklistedBlacklistedBlacklisted";
+
+describe("FilterRulesStore", () => {
+    it("loads new rules into a new engine, leaving engines already handed out unchanged", async () => {
+        const store = new FilterRulesStore(new FilterEngine(FILTER_CONFIG));
+        const before = await store.current();
+        const hash = before.generateFilterHash();
+
+        try {
+            await store.addBlacklistedContracts([CONTRACT]);
+            const after = await store.current();
+
+            expect(before.generateFilterHash()).toBe(hash);
+            expect(before.getConfig().blacklistedContracts).not.toContain(CONTRACT);
+            expect(after.getConfig().blacklistedContracts).toContain(CONTRACT);
+            expect(after.generateFilterHash()).not.toBe(hash);
+        } finally {
+            await store.reset();
+        }
+    });
+});
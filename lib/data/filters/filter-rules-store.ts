@@ -0,0 +1,172 @@
+/**
+ * Filter Rules Store - Runtime-editable filter rules kept in the cache backend
+ *
+ * Rules are stored at `filters:rules` and loaded into a FilterEngine, re-checked at most
+ * once per refresh interval so edits reach every instance without a redeploy. Stored rules are
+ * validated on load; invalid rules are ignored in favour of the built-in configuration.
+ * Because the filter hash covers the whole configuration, edited rules get fresh cache entries.
+ * Engines are never changed once loaded - new rules get a new engine - so a request that holds one
+ * hashes and filters with the same rules.
+ */
+
+import { cacheManager } from "../cache/cache-manager";
+import { filterEngine, FilterEngine } from "./filter-engine";
+import { FilterConfig, validateFilterConfig } from "../config/filter-rules";
+
+/**
+ * Filter rules store settings
+ */
+export interface FilterRulesStoreConfig {
+    refreshIntervalMs: number; // How long loaded rules are trusted before the backend is checked again
+}
+
+/**
+ * Default filter rules store configuration
+ */
+export const DEFAULT_FILTER_RULES_STORE_CONFIG: FilterRulesStoreConfig = {
+    refreshIntervalMs: parseInt(process.env.FILTER_RULES_REFRESH_SECONDS || "60") * 1000,
+};
+
+/**
+ * Where the active rules came from
+ */
+export type FilterRulesSource = "stored" | "default";
+
+/**
+ * Active filter rules
+ */
+export interface FilterRulesSnapshot {
+    rules: FilterConfig;
+    source: FilterRulesSource;
+    filterHash: string;
+    loadedAt: Date | null;
+}
+
+/**
+ * Loads stored filter rules into FilterEngine snapshots and applies admin edits
+ */
+export class FilterRulesStore {
+    private config: FilterRulesStoreConfig;
+    private engine: FilterEngine; // Active rules - replaced, never updated in place
+    private defaults: FilterConfig; // Built-in rules, used when nothing valid is stored
+    private source: FilterRulesSource = "default";
+    private loadedAt = 0;
+    private loading: Promise<void> | null = null;
+
+    constructor(engine: FilterEngine = filterEngine, config: Partial<FilterRulesStoreConfig> = {}) {
+        this.config = { ...DEFAULT_FILTER_RULES_STORE_CONFIG, ...config };
+        this.engine = engine;
+        this.defaults = engine.getConfig();
+    }
+
+    /**
+     * Load stored rules into the engine when the refresh interval has passed (or when forced)
+     */
+    async refresh(force: boolean = false): Promise<void> {
+        if (!force && Date.now() - this.loadedAt < this.config.refreshIntervalMs) {
+            return;
+        }
+
+        // Concurrent callers share one load
+        if (!this.loading) {
+            this.loading = this.load().finally(() => {
+                this.loading = null;
+            });
+        }
+        return this.loading;
+    }
+
+    /**
+     * Engine for the active rules (refreshed first) - keep it for the whole request
+     */
+    async current(): Promise<FilterEngine> {
+        await this.refresh();
+        return this.engine;
+    }
+
+    /**
+     * Active rules (refreshed first)
+     */
+    async getRules(): Promise<FilterRulesSnapshot> {
+        const engine = await this.current();
+        return {
+            rules: engine.getConfig(),
+            source: this.source,
+            filterHash: engine.generateFilterHash(),
+            loadedAt: this.loadedAt > 0 ? new Date(this.loadedAt) : null,
+        };
+    }
+
+    /**
+     * Validate and store a complete rule set, then apply it to this instance immediately
+     */
+    async save(rules: FilterConfig): Promise<FilterRulesSnapshot> {
+        validateFilterConfig(rules);
+        await cacheManager.setFilterRules(rules);
+        this.apply(rules, "stored");
+        return this.getRules();
+    }
+
+    /**
+     * Add contracts to the stored blacklist (starting from the active rules)
+     */
+    async addBlacklistedContracts(contracts: string[]): Promise<FilterRulesSnapshot> {
+        await this.refresh(true);
+        const rules = this.engine.getConfig();
+        const added = contracts.filter((address) => !rules.blacklistedContracts.includes(address));
+        return this.save({ ...rules, blacklistedContracts: [...rules.blacklistedContracts, ...added] });
+    }
+
+    /**
+     * Remove contracts from the stored blacklist (starting from the active rules)
+     */
+    async removeBlacklistedContracts(contracts: string[]): Promise<FilterRulesSnapshot> {
+        await this.refresh(true);
+        const rules = this.engine.getConfig();
+        const blacklistedContracts = rules.blacklistedContracts.filter((address) => !contracts.includes(address));
+        return this.save({ ...rules, blacklistedContracts });
+    }
+
+    /**
+     * Delete the stored rules and go back to the built-in configuration
+     */
+    async reset(): Promise<FilterRulesSnapshot> {
+        await cacheManager.clearFilterRules();
+        this.apply(this.defaults, "default");
+        return this.getRules();
+    }
+
+    private async load(): Promise<void> {
+        try {
+            const stored = await cacheManager.getFilterRules();
+
+            if (!stored) {
+                this.apply(this.defaults, "default");
+                return;
+            }
+
+            validateFilterConfig(stored);
+            this.apply(stored, "stored");
+        } catch (error) {
+            // Keep filtering with the rules already loaded rather than failing requests
+            console.warn("⚠️ Ignoring stored filter rules:", error instanceof Error ? error.message : error);
+        } finally {
+            this.loadedAt = Date.now();
+        }
+    }
+
+    private apply(rules: FilterConfig, source: FilterRulesSource): void {
+        const previousHash = this.engine.generateFilterHash();
+        this.engine = new FilterEngine({ ...rules });
+        this.source = source;
+        this.loadedAt = Date.now();
+
+        const filterHash = this.engine.generateFilterHash();
+        if (filterHash !== previousHash) {
+            console.log(`🔧 Filter rules updated from ${source} configuration (hash ${previousHash} → ${filterHash})`);
+        }
+    }
+}
+
+// Export singleton instance, starting from the built-in rules of the shared filter engine
+export const filterRulesStore = new FilterRulesStore();
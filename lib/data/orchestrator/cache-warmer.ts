@@ -0,0 +1,232 @@
+/**
+ * Cache Warmer - Rebuilds popular galleries before their cache entries expire
+ *
+ * Galleries are ranked by recorded visits (`stats:visits:*`), with featured galleries
+ * always first. Entries that are missing or close to their soft expiry are rebuilt in
+ * place, one at a time. Each build is bounded by what is left of the time budget, so a run
+ * ends within the budget even when a provider is slow.
+ */
+
+import { cacheManager } from "../cache/cache-manager";
+import { dataOrchestrator } from "./data-orchestrator";
+import { GALLERY_TYPES, GalleryType } from "../types/gallery-types";
+import { DEFAULT_NETWORK, NetworkId, isNetworkId } from "../config/networks";
+
+/**
+ * A gallery to keep warm
+ */
+export interface WarmTarget {
+    galleryType: GalleryType;
+    identifier: string;
+    network: NetworkId;
+}
+
+/**
+ * Cache warming settings
+ */
+export interface CacheWarmingConfig {
+    timeBudgetMs: number; // The run - builds included - ends by this
+    maxGalleries: number; // Popular galleries considered per run (featured come on top)
+    lookbackDays: number; // Days of visit counts used for ranking
+    refreshAheadSeconds: number; // Rebuild entries whose soft expiry is closer than this
+    featured: WarmTarget[]; // Always warmed, regardless of visits
+}
+
+/**
+ * Parse featured galleries from `TYPE:identifier[@network]` entries, comma-separated
+ * e.g. CACHE_WARM_FEATURED=USER:tz1...,CURATION:b264a749-...@ghostnet
+ */
+export function parseFeaturedGalleries(value: string | undefined): WarmTarget[] {
+    if (!value) {
+        return [];
+    }
+
+    return value
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .flatMap((entry) => {
+            const [target, network = DEFAULT_NETWORK] = entry.split("@");
+            const [galleryType, identifier] = target.split(":");
+
+            if (!GALLERY_TYPES.includes(galleryType as GalleryType) || !identifier || !isNetworkId(network)) {
+                console.warn(`⚠️ Ignoring invalid featured gallery "${entry}"`);
+                return [];
+            }
+            return [{ galleryType: galleryType as GalleryType, identifier, network }];
+        });
+}
+
+/**
+ * Default cache warming configuration
+ */
+export const DEFAULT_CACHE_WARMING_CONFIG: CacheWarmingConfig = {
+    timeBudgetMs: 50000, // Leaves headroom under a 60s function limit
+    maxGalleries: 20,
+    lookbackDays: 7,
+    refreshAheadSeconds: 900, // 15 minutes - one cron interval
+    featured: parseFeaturedGalleries(process.env.CACHE_WARM_FEATURED),
+};
+
+/**
+ * A gallery the warmer rebuilt
+ */
+export interface WarmedGallery extends WarmTarget {
+    visits: number;
+    featured: boolean;
+    reason: "missing" | "expiring";
+    itemCount: number;
+    durationMs: number;
+}
+
+/**
+ * A gallery the warmer left alone
+ */
+export interface SkippedGallery extends WarmTarget {
+    visits: number;
+    featured: boolean;
+    reason: "fresh" | "time-budget" | "failed";
+    expiresInSeconds?: number;
+    error?: string;
+}
+
+/**
+ * Outcome of one warming run
+ */
+export interface CacheWarmingReport {
+    startedAt: Date;
+    elapsedMs: number;
+    timeBudgetMs: number;
+    warmed: WarmedGallery[];
+    skipped: SkippedGallery[];
+}
+
+type RankedTarget = WarmTarget & { visits: number; featured: boolean };
+
+/**
+ * Settle with the build, or with null once the remaining budget is spent. An overrunning build keeps going in
+ * the background (its entry is still served as stale, and its build lock expires on its own).
+ */
+function withinBudget<T>(build: Promise<T>, remainingMs: number): Promise<T | null> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), remainingMs);
+    });
+
+    build.catch(() => undefined); // A late failure is not reported
+    return Promise.race([build, deadline]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Rebuilds popular and featured galleries within a time budget
+ */
+export class CacheWarmer {
+    private config: CacheWarmingConfig;
+
+    constructor(config: Partial<CacheWarmingConfig> = {}) {
+        this.config = { ...DEFAULT_CACHE_WARMING_CONFIG, ...config };
+    }
+
+    /**
+     * Run one warming pass (settings can be overridden per run)
+     */
+    async warm(overrides: Partial<CacheWarmingConfig> = {}): Promise<CacheWarmingReport> {
+        const config = { ...this.config, ...overrides };
+        const startedAt = new Date();
+        const report: CacheWarmingReport = {
+            startedAt,
+            elapsedMs: 0,
+            timeBudgetMs: config.timeBudgetMs,
+            warmed: [],
+            skipped: [],
+        };
+
+        const targets = await this.rankTargets(config);
+        console.log(`🔥 Warming cache for up to ${targets.length} galleries (budget ${config.timeBudgetMs}ms)`);
+
+        const remainingMs = () => config.timeBudgetMs - (Date.now() - startedAt.getTime());
+
+        for (const target of targets) {
+            const { galleryType, identifier, network } = target;
+
+            if (remainingMs() <= 0) {
+                report.skipped.push({ ...target, reason: "time-budget" });
+                continue;
+            }
+
+            const cacheKey = await dataOrchestrator.getGalleryCacheKey(galleryType, identifier, network);
+            const [entry] = await cacheManager.inspectKeys([cacheKey]);
+            const expiresInSeconds = entry
+                ? entry.softExpiresAt
+                    ? Math.round((entry.softExpiresAt.getTime() - Date.now()) / 1000)
+                    : entry.ttlSeconds ?? 0
+                : undefined;
+
+            if (expiresInSeconds !== undefined && expiresInSeconds > config.refreshAheadSeconds) {
+                report.skipped.push({ ...target, reason: "fresh", expiresInSeconds });
+                continue;
+            }
+
+            const buildStart = Date.now();
+            try {
+                const result = await withinBudget(
+                    dataOrchestrator.warmGallery(galleryType, identifier, network),
+                    Math.max(remainingMs(), 0)
+                );
+                if (!result) {
+                    console.warn(`⏱️ Stopped waiting for ${galleryType} ${identifier}: time budget spent`);
+                    report.skipped.push({ ...target, reason: "time-budget", expiresInSeconds });
+                    continue;
+                }
+
+                report.warmed.push({
+                    ...target,
+                    reason: entry ? "expiring" : "missing",
+                    itemCount: result.pagination.totalItems,
+                    durationMs: Date.now() - buildStart,
+                });
+            } catch (error) {
+                console.error(`❌ Failed to warm ${galleryType} ${identifier}:`, error);
+                report.skipped.push({
+                    ...target,
+                    reason: "failed",
+                    expiresInSeconds,
+                    error: error instanceof Error ? error.message : "Unknown error",
+                });
+            }
+        }
+
+        report.elapsedMs = Date.now() - startedAt.getTime();
+        console.log(
+            `🔥 Cache warming done in ${report.elapsedMs}ms: ${report.warmed.length} warmed, ${report.skipped.length} skipped`
+        );
+        return report;
+    }
+
+    /**
+     * Featured galleries first, then the most visited ones (deduplicated)
+     */
+    private async rankTargets(config: CacheWarmingConfig): Promise<RankedTarget[]> {
+        const popular = await cacheManager.getPopularGalleries(config.lookbackDays, config.maxGalleries);
+        const targets = new Map<string, RankedTarget>();
+        const targetKey = (target: WarmTarget) => `${target.galleryType}:${target.network}:${target.identifier}`;
+
+        for (const target of config.featured) {
+            targets.set(targetKey(target), { ...target, visits: 0, featured: true });
+        }
+
+        for (const gallery of popular) {
+            const existing = targets.get(targetKey(gallery));
+            if (existing) {
+                existing.visits = gallery.visits;
+            } else {
+                targets.set(targetKey(gallery), { ...gallery, featured: false });
+            }
+        }
+
+        return Array.from(targets.values());
+    }
+}
+
+// Export singleton instance
+export const cacheWarmer = new CacheWarmer();
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CircuitBreaker, isAvailabilityFailure } from "./circuit-breaker";
+import { ProviderError, ProviderRateLimitError, ProviderTimeoutError } from "../sources/provider-interface";
+
+const failure = (statusCode?: number, originalError: Error = new Error("fetch failed")) =>
+    new ProviderError("TzKT getTokenBalances failed", "tzkt", "getTokenBalances", originalError, statusCode);
+
+describe("isAvailabilityFailure", () => {
+    it("counts timeouts, rate limits, 5xx responses and network errors", () => {
+        expect(isAvailabilityFailure(new ProviderTimeoutError("tzkt", "getTokenBalances", 1000))).toBe(true);
+        expect(isAvailabilityFailure(new ProviderRateLimitError("tzkt", "getTokenBalances", 10))).toBe(true);
+        expect(isAvailabilityFailure(failure(503))).toBe(true);
+        expect(isAvailabilityFailure(failure())).toBe(true);
+    });
+
+    it("ignores client errors, GraphQL errors and failures without a request", () => {
+        expect(isAvailabilityFailure(failure(400))).toBe(false);
+        expect(isAvailabilityFailure(failure(404))).toBe(false);
+        const unanswered = new ProviderError("Too many balance changes", "tzkt", "getTokenBalanceChanges");
+        expect(isAvailabilityFailure(unanswered)).toBe(false);
+
+        const graphqlError = Object.assign(new Error("GraphQL errors"), { graphqlErrors: [{ message: "bad" }] });
+        expect(isAvailabilityFailure(failure(undefined, graphqlError))).toBe(false);
+    });
+
+    it("looks through wrapped errors for the provider's answer", () => {
+        const clientError = Object.assign(new Error("Not found"), { statusCode: 404 });
+        const serverError = Object.assign(new Error("Bad gateway"), { statusCode: 502 });
+
+        expect(isAvailabilityFailure(failure(undefined, clientError))).toBe(false);
+        expect(isAvailabilityFailure(failure(undefined, serverError))).toBe(true);
+    });
+});
+
+describe("CircuitBreaker", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("opens after consecutive failures and skips requests until the cooldown ends", () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+
+        breaker.recordFailure(failure(500));
+        expect(breaker.state).toBe("closed");
+        breaker.recordFailure(failure(500));
+
+        expect(breaker.state).toBe("open");
+        expect(breaker.canRequest()).toBe(false);
+        expect(breaker.getStatus()).toMatchObject({
+            consecutiveFailures: 2,
+            lastError: "TzKT getTokenBalances failed",
+        });
+    });
+
+    it("lets one trial through when half-open and closes on success", () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+        breaker.recordFailure(failure(500));
+
+        vi.advanceTimersByTime(1000);
+        expect(breaker.state).toBe("half-open");
+        expect(breaker.canRequest()).toBe(true);
+        expect(breaker.canRequest()).toBe(false);
+
+        breaker.recordSuccess();
+        expect(breaker.state).toBe("closed");
+        expect(breaker.canRequest()).toBe(true);
+    });
+
+    it("re-opens when the trial fails", () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 });
+        breaker.trip(Date.now() + 1000);
+
+        vi.advanceTimersByTime(1000);
+        expect(breaker.canRequest()).toBe(true);
+        breaker.recordFailure(failure(500));
+
+        expect(breaker.state).toBe("open");
+    });
+
+    it("retries an abandoned trial after another cooldown", () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+        breaker.recordFailure(failure(500));
+
+        vi.advanceTimersByTime(1000);
+        expect(breaker.canRequest()).toBe(true);
+        vi.advanceTimersByTime(999);
+        expect(breaker.canRequest()).toBe(false);
+        vi.advanceTimersByTime(1);
+        expect(breaker.canRequest()).toBe(true);
+    });
+
+    it("opens immediately on a rate limit, for the Retry-After period", () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 });
+        breaker.recordFailure(new ProviderRateLimitError("tzkt", "getTokenBalances", 60));
+
+        vi.advanceTimersByTime(59000);
+        expect(breaker.state).toBe("open");
+        vi.advanceTimersByTime(1000);
+        expect(breaker.state).toBe("half-open");
+    });
+});
@@ -0,0 +1,154 @@
+/**
+ * Circuit Breaker - Stops calling a failing provider for a cooldown window
+ *
+ * - closed: requests flow normally, consecutive failures are counted
+ * - open: requests are skipped until the cooldown ends (provider reported as "degraded")
+ * - half-open: after the cooldown a single trial request decides whether to close or re-open
+ */
+
+import {
+    CircuitState,
+    ProviderError,
+    ProviderRateLimitError,
+    ProviderTimeoutError,
+} from "../sources/provider-interface";
+
+/**
+ * Circuit breaker settings
+ */
+export interface CircuitBreakerConfig {
+    failureThreshold: number; // Consecutive failures before the circuit opens
+    cooldownMs: number; // How long an open circuit skips the provider
+}
+
+/**
+ * Default circuit breaker configuration
+ */
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+    failureThreshold: 3,
+    cooldownMs: 30000, // 30 seconds
+};
+
+/**
+ * Snapshot of a breaker for health reporting
+ */
+export interface CircuitStatus {
+    state: CircuitState;
+    consecutiveFailures: number;
+    openUntil?: Date;
+    lastError?: string;
+    lastFailureAt?: Date;
+}
+
+/**
+ * Whether a failure says the provider is unavailable: timeouts, rate limits, 5xx responses and requests that
+ * never got an answer. Client errors (4xx, GraphQL errors) and errors raised without a failed request don't.
+ */
+export function isAvailabilityFailure(error: ProviderError): boolean {
+    if (error instanceof ProviderTimeoutError || error instanceof ProviderRateLimitError) {
+        return true;
+    }
+
+    // Providers wrap client errors (and retries wrap those again) - look for the answer the provider gave
+    let cause: any = error;
+    while (cause) {
+        if (typeof cause.statusCode === "number") {
+            return cause.statusCode >= 500 || cause.statusCode === 429;
+        }
+        if (Array.isArray(cause.graphqlErrors) && cause.graphqlErrors.length > 0) {
+            return false;
+        }
+        cause = cause.originalError;
+    }
+
+    // A wrapped error without an answer is a network failure
+    return error.originalError !== undefined;
+}
+
+/**
+ * Per-provider circuit breaker
+ */
+export class CircuitBreaker {
+    private config: CircuitBreakerConfig;
+    private consecutiveFailures = 0;
+    private openUntil = 0;
+    private trialStartedAt = 0; // Set while a half-open trial request is running
+    private lastError?: string;
+    private lastFailureAt?: Date;
+
+    constructor(config: Partial<CircuitBreakerConfig> = {}) {
+        this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+    }
+
+    get state(): CircuitState {
+        if (this.openUntil === 0) {
+            return "closed";
+        }
+        return Date.now() < this.openUntil ? "open" : "half-open";
+    }
+
+    /**
+     * Whether a request may be sent now (half-open circuits let one trial request through).
+     * A trial that never reports back is abandoned after another cooldown.
+     */
+    canRequest(): boolean {
+        const state = this.state;
+        if (state === "closed") {
+            return true;
+        }
+
+        const now = Date.now();
+        if (state === "half-open" && now - this.trialStartedAt >= this.config.cooldownMs) {
+            this.trialStartedAt = now;
+            return true;
+        }
+        return false;
+    }
+
+    recordSuccess(): void {
+        this.consecutiveFailures = 0;
+        this.openUntil = 0;
+        this.trialStartedAt = 0;
+    }
+
+    recordFailure(error: ProviderError): void {
+        this.consecutiveFailures++;
+        this.lastError = error.message;
+        this.lastFailureAt = new Date();
+
+        const wasTrial = this.trialStartedAt > 0;
+        this.trialStartedAt = 0;
+
+        // Rate limits open the circuit immediately, for the Retry-After period when the provider sent one
+        if (error instanceof ProviderRateLimitError) {
+            const retryAfterMs = (error.retryAfterSeconds || 0) * 1000;
+            this.trip(Date.now() + (retryAfterMs || this.config.cooldownMs));
+            return;
+        }
+
+        if (wasTrial || this.consecutiveFailures >= this.config.failureThreshold) {
+            this.trip(Date.now() + this.config.cooldownMs);
+        }
+    }
+
+    /**
+     * Open the circuit until the given time (also used to adopt state persisted by other instances)
+     */
+    trip(until: number, lastError?: string): void {
+        this.openUntil = Math.max(this.openUntil, until);
+        if (lastError) {
+            this.lastError = lastError;
+        }
+    }
+
+    getStatus(): CircuitStatus {
+        const state = this.state;
+        return {
+            state,
+            consecutiveFailures: this.consecutiveFailures,
+            openUntil: state === "closed" ? undefined : new Date(this.openUntil),
+            lastError: this.lastError,
+            lastFailureAt: this.lastFailureAt,
+        };
+    }
+}
@@ -6,13 +6,42 @@
  * through client-side filtering of complete collections.
  */
 
-import { tzktSdkClient, TzktTokenBalance } from "../sources/tzkt-sdk-client";
 import { cacheManager } from "../cache/cache-manager";
-import { filterEngine, FilterResult } from "../filters/filter-engine";
-import { UnifiedToken, DataSource, UnifiedMetadata, TokenStandard } from "../types/token-types";
-import { tokenCollection, filteredCollection } from "../types/cache-types";
+import { getProviderOrchestrator } from "./provider-orchestrator";
+import { FilterEngine, FilterResult } from "../filters/filter-engine";
+import { filterRulesStore } from "../filters/filter-rules-store";
+import { FilterOverrides, hasFilterOverrides } from "../config/filter-rules";
+import { UnifiedToken, UnifiedCollection, DataSource, ExcludedToken } from "../types/token-types";
+import { DEFAULT_SORT, GallerySort, isCustomSort, sortKey, sortTokens } from "../utils/token-sort";
+import { buildSearchIndex, searchIndex } from "../utils/token-search";
+import { GroupMode, RoomGroup, groupTokens, isGrouped, roomOfPosition } from "../utils/token-group";
+import { summarizeCollection } from "../utils/collection-summary";
+import {
+    tokenCollection,
+    filteredCollection,
+    curationCollection,
+    contractCollection,
+    artistCollection,
+    curationMetadata,
+    collectionMetadata,
+    artistMetadata,
+    providerHealth,
+    sortedCollection,
+} from "../types/cache-types";
 import { GalleryType } from "../types/gallery-types";
-import { fetchCurationTokens, fetchCollectionTokens } from "../sources/objkt-queries";
+import { getObjktQueries } from "../sources/objkt-queries";
+import { DEFAULT_NETWORK, NetworkId, getNetworkConfig } from "../config/networks";
+import { ProviderHealth, ProviderStatus } from "../sources/provider-interface";
+
+/**
+ * Upper bound for complete-collection fetches (no pagination at API level)
+ */
+const COMPLETE_COLLECTION_LIMIT = 10000;
+
+/**
+ * How long persisted provider health is reused before providers are checked again
+ */
+const PROVIDER_HEALTH_TTL_SECONDS = 30;
 
 /**
  * Pagination configuration
@@ -25,37 +54,151 @@ export interface PaginationConfig {
 }
 
 /**
- * Collection fetch options
+ * Holdings sources for USER galleries
+ * - auto: providers in priority order with fallback
+ * - tzkt / objkt: prefer the named provider, still falling back on failure
+ * - merge: query every provider and fill gaps in TzKT data from objkt
  */
-export interface CollectionFetchOptions {
-    address: string;
+export const HOLDINGS_SOURCES = ["auto", "tzkt", "objkt", "merge"] as const;
+export type HoldingsSource = (typeof HOLDINGS_SOURCES)[number];
+
+/**
+ * Fetch options every gallery type shares
+ */
+export interface GalleryFetchOptions {
     pagination?: PaginationConfig;
     forceRefresh?: boolean; // Skip cache, force fresh fetch
     applyFilters?: boolean; // Apply filter engine (default: true)
+    filterOverrides?: FilterOverrides; // Per-request filter changes, applied in memory to the unfiltered collection
     cacheResults?: boolean; // Cache the results (default: true)
+    network?: NetworkId; // Tezos network (default: mainnet)
+    includeHidden?: boolean; // Return the tokens filtering removed, with their reasons (default: false)
+    sort?: GallerySort; // Room order - other orders are cached separately
+    search?: string; // Full-text query - adds the matching tokens and their rooms to the result
+    group?: GroupMode; // Thematic rooms (default: none) - cached separately, like custom orders
+}
+
+/**
+ * Collection fetch options
+ */
+export interface CollectionFetchOptions extends GalleryFetchOptions {
+    address: string;
     sortChronologically?: boolean; // Sort by mint/transfer date (default: true)
+    holdingsSource?: HoldingsSource; // Provider selection (default: "auto")
+    deltaRefresh?: boolean; // Merge balance changes since the cached level into the cache (default: false)
+    sort?: GallerySort; // Default: acquisition
 }
 
 /**
  * Curation fetch options (NEW)
  */
-export interface CurationFetchOptions {
+export interface CurationFetchOptions extends GalleryFetchOptions {
     curationId: string;
-    pagination?: PaginationConfig;
-    forceRefresh?: boolean;
-    applyFilters?: boolean;
-    cacheResults?: boolean;
+    sort?: GallerySort; // Default: source order
 }
 
 /**
  * Collection fetch options (contract-based) (NEW)
  */
-export interface ContractCollectionFetchOptions {
+export interface ContractCollectionFetchOptions extends GalleryFetchOptions {
     contractAddress: string;
-    pagination?: PaginationConfig;
-    forceRefresh?: boolean;
-    applyFilters?: boolean;
-    cacheResults?: boolean;
+    sort?: GallerySort; // Default: source order
+}
+
+/**
+ * Artist fetch options (tokens created by an address)
+ */
+export interface ArtistFetchOptions extends GalleryFetchOptions {
+    artistAddress: string;
+    sort?: GallerySort; // Default: mint order
+}
+
+/**
+ * Where a result came from - "stale" results are served from cache while a rebuild runs in the background
+ */
+export type CacheSource = "cache" | "api" | "hybrid" | "stale";
+
+/**
+ * Health of the data layer for a network (served by /api/health)
+ */
+export interface HealthReport {
+    status: ProviderStatus; // unhealthy when no provider can answer, degraded when anything is impaired
+    network: NetworkId;
+    checkedAt: Date;
+    cache: {
+        healthy: boolean;
+        backend?: string;
+    };
+    providers: Record<string, ProviderHealth>;
+}
+
+/**
+ * A token matching a gallery search, with the room (page) it hangs in
+ */
+export interface GallerySearchMatch {
+    token: UnifiedToken;
+    position: number; // 0-based position in the gallery
+    room: number; // 1-based, for the requested page size
+}
+
+/**
+ * Outcome of a cache build - shared by every request coalesced onto it
+ */
+interface CollectionBuild {
+    tokens: UnifiedToken[]; // Complete (filtered, sorted) collection
+    source: CacheSource; // "cache" when another instance built it
+    dataSources: DataSource[];
+    filterResult?: FilterResult;
+    hiddenTokens?: ExcludedToken[]; // Tokens filtering removed (absent when another instance built it)
+    rooms?: RoomGroup[]; // Room layout of a grouped collection (absent when another instance built it)
+    truncated?: boolean;
+    fetchTimeMs?: number;
+    filterTimeMs?: number;
+    cacheTimeMs?: number;
+}
+
+/**
+ * Tokens fetched for a gallery build, before filtering
+ */
+interface GalleryFetch {
+    tokens: UnifiedToken[];
+    dataSources: DataSource[];
+    indexedLevel?: number; // Indexer level the tokens reflect (USER galleries)
+    merged?: boolean; // Delta-merged into the cached tokens rather than fetched whole
+    truncated?: boolean; // A provider limit cut the fetch short
+}
+
+/**
+ * What a gallery type plugs into the shared collection pipeline
+ */
+interface GalleryPipeline {
+    kind: string; // For logs and errors, e.g. "curation"
+    identifier: string;
+    cacheKey: (filterHash: string) => string;
+    dataSources: DataSource[]; // Reported until a build names the providers that answered
+    // The gallery's public method, re-run with changed options (searches, arrangements and revalidation)
+    reload: (changes: GalleryFetchOptions & { deltaRefresh?: boolean }) => Promise<OrchestrationResult>;
+    revalidate: GalleryFetchOptions & { deltaRefresh?: boolean }; // Changes for background rebuilds of stale entries
+    fetch: (context: {
+        cacheKey: string;
+        cachedTokens?: UnifiedToken[]; // Complete cached collection (delta refreshes only)
+        indexedLevel?: number;
+        filters: FilterEngine;
+    }) => Promise<GalleryFetch>;
+    store: (
+        tokens: UnifiedToken[],
+        build: {
+            cacheKey: string;
+            filterHash: string;
+            dataSources: DataSource[];
+            indexedLevel?: number;
+            truncated?: boolean;
+        }
+    ) => Promise<unknown>;
+    owner?: string; // Wallet holding the tokens (USER galleries) - enables holder-based spam signals
+    deltaRefresh?: boolean; // Merge changes into the complete cached collection instead of serving a page
+    cacheEmpty?: boolean; // Cache empty collections too
+    onForceRefresh?: () => Promise<void>; // Runs before a forced rebuild
 }
 
 /**
@@ -75,18 +218,26 @@ export interface OrchestrationResult {
         hasPreviousPage: boolean;
         startIndex: number;
         endIndex: number;
+        roomLabel?: string; // Grouped galleries: what the room holds, e.g. "works by alice"
+        truncated?: boolean; // A provider limit was reached - the gallery shows only part of the collection
     };
 
     // Cache metadata
     cache: {
         hit: boolean;
-        source: "cache" | "api" | "hybrid";
+        source: CacheSource;
         buildTimeMs?: number;
         cacheKey?: string;
     };
 
     // Filter metadata
     filtering?: FilterResult;
+    hiddenTokens?: ExcludedToken[]; // Complete list of tokens filtering removed (when includeHidden is set)
+    search?: {
+        query: string;
+        matches: GallerySearchMatch[]; // In gallery order, at most MAX_SEARCH_RESULTS
+    };
+    rooms?: RoomGroup[]; // Room layout of a grouped gallery (each page is one room)
 
     // Performance metadata
     performance: {
@@ -106,103 +257,215 @@ export interface OrchestrationResult {
  */
 export class DataOrchestrator {
     private defaultPageSize = 20; // Match gallery NFTS_PER_ROOM
+    private revalidating = new Set<string>(); // Cache keys with a background rebuild in flight
+    private inflightBuilds = new Map<string, Promise<CollectionBuild>>(); // One build per cache key at a time
 
     /**
      * Get paginated token collection with cache-first approach
      */
     async getTokenCollection(options: CollectionFetchOptions): Promise<OrchestrationResult> {
-        const startTime = Date.now();
         const {
             address,
+            applyFilters = true,
+            sortChronologically = true,
+            holdingsSource = "auto",
+            network = DEFAULT_NETWORK,
+            deltaRefresh = false,
+        } = options;
+
+        return this.getGalleryCollection(options, {
+            kind: "user",
+            identifier: address,
+            cacheKey: (filterHash) =>
+                applyFilters || holdingsSource !== "auto"
+                    ? filteredCollection(
+                          address,
+                          holdingsSource === "auto" ? filterHash : `${filterHash}:${holdingsSource}`,
+                          network
+                      )
+                    : tokenCollection(address, network),
+            dataSources: [this.tzktDataSource(network)],
+            reload: (changes) => this.getTokenCollection({ ...options, ...changes }),
+            revalidate: { forceRefresh: false, deltaRefresh: true },
+            fetch: async ({ cacheKey, cachedTokens, indexedLevel, filters }) => {
+                const fetched = await this.fetchHoldings(address, {
+                    cacheKey,
+                    cachedTokens,
+                    indexedLevel,
+                    // Unfiltered builds look origins up too - override views filter those tokens in memory
+                    includeTransferOrigins: filters.needsTransferOrigins(),
+                    holdingsSource,
+                    network,
+                });
+                return sortChronologically
+                    ? { ...fetched, tokens: this.sortTokensChronologically(fetched.tokens) }
+                    : fetched;
+            },
+            store: (tokens, { cacheKey, dataSources, indexedLevel }) =>
+                cacheManager.buildCache(cacheKey, tokens, undefined, { sources: dataSources, indexedLevel }),
+            owner: address,
+            deltaRefresh,
+            cacheEmpty: true,
+            onForceRefresh: async () => {
+                console.log(`🗑️ Force refresh requested - clearing all cache for ${address}`);
+                await this.clearAllCacheForAddress(address, network);
+            },
+        });
+    }
+
+    /**
+     * The shared collection pipeline: search, custom arrangements, cache reads with stale revalidation,
+     * coalesced builds (fetch, filter, cache) and pagination. Gallery types only supply the parts in `gallery`.
+     */
+    private async getGalleryCollection(
+        options: GalleryFetchOptions,
+        gallery: GalleryPipeline
+    ): Promise<OrchestrationResult> {
+        const startTime = Date.now();
+        const {
             pagination = { page: 1, pageSize: this.defaultPageSize },
             forceRefresh = false,
             applyFilters = true,
+            filterOverrides,
             cacheResults = true,
-            sortChronologically = true,
+            includeHidden = false,
+            sort,
+            search,
+            group,
         } = options;
+        const { deltaRefresh = false } = gallery;
+
+        // Searches return the requested room as usual, plus the matches from the whole gallery
+        if (search) {
+            const result = await gallery.reload({ search: undefined });
+            return {
+                ...result,
+                search: await this.searchCollection(result, search, cacheResults, (complete) =>
+                    gallery.reload({ ...complete, search: undefined })
+                ),
+            };
+        }
+
+        // Custom orders and groupings are derived from the default-order collection
+        if (isCustomSort(sort) || isGrouped(group)) {
+            return this.getArrangedCollection(options, { sort, group }, (base) =>
+                gallery.reload({ ...base, sort: undefined, group: undefined })
+            );
+        }
+
+        // Filter overrides are applied in memory to the unfiltered collection - they get no fetches or cache entries
+        if (applyFilters && hasFilterOverrides(filterOverrides)) {
+            return this.getOverrideView(options, gallery);
+        }
 
         // Normalize pagination
         const page =
             pagination.page || Math.floor((pagination.offset || 0) / (pagination.limit || this.defaultPageSize)) + 1;
         const pageSize = pagination.pageSize || pagination.limit || this.defaultPageSize;
+        const startIndex = (page - 1) * pageSize;
 
         // Generate cache keys
-        const baseKey = tokenCollection(address);
-        const filterHash = applyFilters ? filterEngine.generateFilterHash() : "none";
-        const filteredKey = applyFilters ? filteredCollection(address, filterHash) : baseKey;
+        const filters = await this.filtersFor(filterOverrides);
+        const filterHash = applyFilters ? filters.generateFilterHash() : "none";
+        const cacheKey = gallery.cacheKey(filterHash);
 
         let tokens: UnifiedToken[] = [];
+        let tokensOffset = 0; // Collection index of tokens[0] - cache hits only load the requested page
+        let cachedTotal: number | undefined;
         let cacheHit = false;
-        let cacheSource: "cache" | "api" | "hybrid" = "api";
+        let cacheSource: CacheSource = "api";
         let buildTimeMs: number | undefined;
         let fetchTimeMs: number | undefined;
         let filterTimeMs: number | undefined;
         let cacheTimeMs: number | undefined;
         let filterResult: FilterResult | undefined;
+        let hiddenTokens: ExcludedToken[] | undefined;
+        let indexedLevel: number | undefined;
+        let truncated: boolean | undefined;
+        let dataSources = gallery.dataSources;
 
         try {
-            // Step 1: If force refresh, clear existing cache first
-            if (forceRefresh) {
-                console.log(`🗑️ Force refresh requested - clearing all cache for ${address}`);
-                await this.clearAllCacheForAddress(address);
+            // Step 1: If force refresh, let the gallery clear what it needs to first
+            if (forceRefresh && gallery.onForceRefresh) {
+                await gallery.onForceRefresh();
             }
 
             // Step 2: Try cache first (unless force refresh)
             if (!forceRefresh) {
                 const cacheStart = Date.now();
-                const cached = await cacheManager.get<UnifiedToken[]>(filteredKey);
+                // Page requests only load the chunk(s) covering the page; delta refreshes need every token
+                const cached = await cacheManager.getRange<UnifiedToken>(
+                    cacheKey,
+                    deltaRefresh ? 0 : startIndex,
+                    deltaRefresh ? Infinity : pageSize
+                );
                 cacheTimeMs = Date.now() - cacheStart;
 
                 if (cached.hit && cached.data) {
-                    tokens = cached.data;
+                    tokens = cached.data.items;
+                    tokensOffset = cached.data.offset;
+                    cachedTotal = cached.data.totalItems;
                     cacheHit = true;
-                    cacheSource = "cache";
+                    cacheSource = cached.isStale ? "stale" : "cache";
+                    indexedLevel = cached.metadata?.indexedLevel;
+                    truncated = cached.metadata?.truncated;
                 }
             }
 
-            // Step 3: If cache miss or force refresh, fetch from API
-            if (!cacheHit) {
-                const fetchStart = Date.now();
-
-                // Fetch complete collection (no pagination at API level)
-                const [totalCount, allTokens] = await Promise.all([
-                    tzktSdkClient.getTokenBalancesCount(address),
-                    this.fetchCompleteCollection(address),
-                ]);
-
-                fetchTimeMs = Date.now() - fetchStart;
-                tokens = allTokens;
-
-                // Step 3: Apply filtering if requested
-                if (applyFilters && filterEngine.hasActiveFilters()) {
-                    const filterStart = Date.now();
-                    filterResult = filterEngine.applyFilters(tokens);
-                    tokens = filterResult.filteredTokens;
-                    filterTimeMs = Date.now() - filterStart;
-                }
+            // Hidden tokens are stored next to the collection - entries cached without them are rebuilt
+            if (cacheHit && includeHidden) {
+                hiddenTokens = await this.cachedHiddenTokens(cacheKey);
+                cacheHit = hiddenTokens !== undefined;
+            }
 
-                // Step 4: Sort chronologically if requested
-                if (sortChronologically) {
-                    tokens = this.sortTokensChronologically(tokens);
-                }
+            // Stale entries are served as-is while a rebuild runs in the background
+            if (cacheHit && cacheSource === "stale" && !deltaRefresh) {
+                this.revalidateInBackground(cacheKey, () => gallery.reload(gallery.revalidate));
+            }
 
-                // Step 5: Cache the results for future use
-                if (cacheResults) {
-                    const cacheStart = Date.now();
-                    await cacheManager.buildCache(filteredKey, tokens);
-                    cacheTimeMs = Date.now() - cacheStart;
-                }
+            // Step 3: On a miss, force refresh or delta refresh, build the collection (coalesced per cache key)
+            if (!cacheHit || deltaRefresh) {
+                const cachedTokens = cacheHit ? tokens : undefined;
+                const build = await this.coalesceBuild(cacheKey, async () => {
+                    const fetchStart = Date.now();
+                    const fetched = await gallery.fetch({ cacheKey, cachedTokens, indexedLevel, filters });
+                    return this.finishGalleryBuild(fetched, Date.now() - fetchStart, {
+                        applyFilters,
+                        filters,
+                        filterHash,
+                        cacheKey,
+                        identifier: gallery.identifier,
+                        owner: gallery.owner,
+                        store: cacheResults ? gallery.store : null,
+                        cacheEmpty: gallery.cacheEmpty ?? false,
+                    });
+                });
 
+                tokens = build.tokens;
+                tokensOffset = 0;
+                cachedTotal = undefined;
+                dataSources = build.dataSources.length > 0 ? build.dataSources : dataSources;
+                filterResult = build.filterResult;
+                hiddenTokens = build.hiddenTokens;
+                truncated = build.truncated;
+                fetchTimeMs = build.fetchTimeMs;
+                filterTimeMs = build.filterTimeMs;
+                cacheTimeMs = build.cacheTimeMs;
                 buildTimeMs = Date.now() - startTime;
-                cacheSource = "api";
+                cacheHit = build.source === "cache";
+                cacheSource = build.source;
             }
 
-            // Step 6: Apply pagination to the complete filtered collection
-            const totalItems = tokens.length;
+            // Builds by another instance only left their hidden tokens in the cache
+            if (includeHidden && !hiddenTokens) {
+                hiddenTokens = (await this.cachedHiddenTokens(cacheKey)) ?? [];
+            }
+
+            // Step 4: Apply pagination (cache hits already hold just the requested page)
+            const totalItems = cachedTotal ?? tokens.length;
             const totalPages = Math.ceil(totalItems / pageSize);
-            const startIndex = (page - 1) * pageSize;
             const endIndex = Math.min(startIndex + pageSize, totalItems);
-            const paginatedTokens = tokens.slice(startIndex, endIndex);
+            const paginatedTokens = tokens.slice(startIndex - tokensOffset, endIndex - tokensOffset);
 
             const totalTimeMs = Date.now() - startTime;
 
@@ -217,34 +480,31 @@ export class DataOrchestrator {
                     hasPreviousPage: page > 1,
                     startIndex,
                     endIndex: endIndex - 1, // Make it inclusive
+                    truncated,
                 },
                 cache: {
                     hit: cacheHit,
                     source: cacheSource,
                     buildTimeMs,
-                    cacheKey: filteredKey,
+                    cacheKey,
                 },
                 filtering: filterResult,
+                hiddenTokens: includeHidden ? hiddenTokens : undefined,
                 performance: {
                     totalTimeMs,
                     fetchTimeMs,
                     filterTimeMs,
                     cacheTimeMs,
                 },
-                dataSources: [
-                    {
-                        provider: "tzkt",
-                        version: "1.0",
-                        endpoint: "https://api.tzkt.io",
-                        priority: 1,
-                    },
-                ],
+                dataSources,
                 fetchedAt: new Date(),
             };
         } catch (error) {
-            console.error("Data orchestration error:", error);
+            console.error(`Data orchestration error (${gallery.kind}):`, error);
             throw new Error(
-                `Failed to orchestrate data for ${address}: ${error instanceof Error ? error.message : "Unknown error"}`
+                `Failed to orchestrate ${gallery.kind} data for ${gallery.identifier}: ${
+                    error instanceof Error ? error.message : "Unknown error"
+                }`
             );
         }
     }
@@ -252,32 +512,27 @@ export class DataOrchestrator {
     /**
      * Get token count for an address (with caching)
      */
-    async getTokenCount(address: string, applyFilters: boolean = true): Promise<number> {
+    async getTokenCount(
+        address: string,
+        applyFilters: boolean = true,
+        network: NetworkId = DEFAULT_NETWORK
+    ): Promise<number> {
         // If filters are applied, we need the complete collection to count accurately
-        if (applyFilters && filterEngine.hasActiveFilters()) {
+        if (applyFilters && (await this.filtersFor()).hasActiveFilters()) {
             const result = await this.getTokenCollection({
                 address,
                 pagination: { page: 1, pageSize: 1 }, // Minimal pagination for count
                 applyFilters: true,
+                network,
             });
             return result.pagination.totalItems;
         }
 
-        // Otherwise, use direct API count
+        // Otherwise, use the provider count
         try {
-            const url = new URL("https://api.tzkt.io/v1/tokens/balances/count");
-            url.searchParams.set("account", address);
-            url.searchParams.set("balance.gt", "0");
-            // Remove the problematic metadata filter for now
-
-            const response = await fetch(url.toString());
-            if (!response.ok) {
-                throw new Error(`Count API request failed: ${response.status} ${response.statusText}`);
-            }
-
-            return await response.json();
+            return await getProviderOrchestrator(network).getTokenBalancesCount(address, { balanceGt: "0" });
         } catch (error) {
-            console.error("Failed to get token count from direct API:", error);
+            console.error("Failed to get token count from providers:", error);
             throw error;
         }
     }
@@ -285,10 +540,10 @@ export class DataOrchestrator {
     /**
      * Invalidate cache for an address (current filter configuration only)
      */
-    async invalidateCache(address: string): Promise<void> {
-        const baseKey = tokenCollection(address);
-        const filterHash = filterEngine.generateFilterHash();
-        const filteredKey = filteredCollection(address, filterHash);
+    async invalidateCache(address: string, network: NetworkId = DEFAULT_NETWORK): Promise<void> {
+        const baseKey = tokenCollection(address, network);
+        const filterHash = (await this.filtersFor()).generateFilterHash();
+        const filteredKey = filteredCollection(address, filterHash, network);
 
         await Promise.all([cacheManager.invalidate(baseKey), cacheManager.invalidate(filteredKey)]);
 
@@ -296,737 +551,870 @@ export class DataOrchestrator {
     }
 
     /**
-     * Clear ALL cache entries for an address regardless of filter configuration
-     * This is what the refresh button should actually call!
+     * Clear every cached variant of a USER gallery (all holdings sources, filtered and unfiltered)
      */
-    async clearAllCacheForAddress(address: string): Promise<void> {
-        // Use Redis pattern matching to find all keys for this address
-        const pattern = `*${address}*`;
-
-        try {
-            const deletedCount = await cacheManager.invalidatePattern(pattern);
-            console.log(`🗑️ Cleared ${deletedCount} cache entries for ${address}`);
-        } catch (error) {
-            console.error("Failed to clear cache for address:", error);
-            // Fallback: just clear the current filter cache
-            await this.invalidateCache(address);
-        }
+    async clearAllCacheForAddress(address: string, network: NetworkId = DEFAULT_NETWORK): Promise<void> {
+        const deletedCount = await this.invalidateGallery("USER", address, network);
+        console.log(`🗑️ Cleared ${deletedCount} cache entries for ${address}`);
     }
 
     /**
-     * Get cache statistics
+     * Delete every cached variant of a gallery - all filter hashes and holdings sources, with their sidecars,
+     * arranged views and chunks - plus its metadata. Reads the gallery's key index, never scans keys.
      */
-    getCacheStats() {
-        return cacheManager.getStats();
+    async invalidateGallery(
+        galleryType: GalleryType,
+        identifier: string,
+        network: NetworkId = DEFAULT_NETWORK
+    ): Promise<number> {
+        const deletedCount = await cacheManager.invalidateGallery(
+            galleryType,
+            identifier,
+            network,
+            this.galleryExactKeys(galleryType, identifier, network)
+        );
+        console.log(`🗑️ Invalidated ${deletedCount} ${galleryType} cache entries for ${identifier}`);
+        return deletedCount;
     }
 
     /**
-     * Health check for all components
+     * Key a gallery is served from by default (current filter configuration, auto holdings source)
      */
-    async healthCheck(): Promise<{
-        cache: boolean;
-        api: boolean;
-        filters: boolean;
-        overall: boolean;
-    }> {
-        // Test direct API health
-        let apiHealth = false;
-        try {
-            const response = await fetch("https://api.tzkt.io/v1/head");
-            apiHealth = response.ok;
-        } catch {
-            apiHealth = false;
+    async getGalleryCacheKey(
+        galleryType: GalleryType,
+        identifier: string,
+        network: NetworkId = DEFAULT_NETWORK
+    ): Promise<string> {
+        const filterHash = (await this.filtersFor()).generateFilterHash();
+
+        switch (galleryType) {
+            case "USER":
+                return filteredCollection(identifier, filterHash, network);
+            case "CURATION":
+                return curationCollection(identifier, filterHash, network);
+            case "COLLECTION":
+                return contractCollection(identifier, filterHash, network);
+            case "ARTIST":
+                return artistCollection(identifier, filterHash, network);
         }
-
-        const cacheHealth = await cacheManager.healthCheck();
-        const filtersHealth = true; // Always healthy
-        const overall = cacheHealth && apiHealth && filtersHealth;
-
-        return {
-            cache: cacheHealth,
-            api: apiHealth,
-            filters: filtersHealth,
-            overall,
-        };
     }
 
     /**
-     * Convert direct API token balance response to UnifiedToken format
+     * Rebuild a gallery's default cache entry in place, without clearing it first.
+     * USER galleries take a delta refresh (a full build when nothing is cached).
      */
-    private convertDirectApiToken(apiToken: any): UnifiedToken {
-        const token = apiToken.token;
-
-        const metadata: UnifiedMetadata = {
-            name: token?.metadata?.name || undefined,
-            symbol: token?.metadata?.symbol || undefined,
-            decimals: token?.metadata?.decimals ? Number(token.metadata.decimals) : undefined,
-            description: token?.metadata?.description || undefined,
-            image: token?.metadata?.image || undefined,
-            artifactUri: token?.metadata?.artifactUri || undefined,
-            displayUri: token?.metadata?.displayUri || undefined,
-            thumbnailUri: token?.metadata?.thumbnailUri || undefined,
-            supply: token?.totalSupply || token?.metadata?.supply || undefined,
-            creators: token?.metadata?.creators || undefined,
-            attributes: token?.metadata?.attributes || undefined,
-            // 🔥 CRITICAL FIX: Preserve formats data with MIME types
-            formats: token?.metadata?.formats || undefined,
-            // Store raw metadata for fallback detection
-            raw: token?.metadata || undefined,
-        };
-
-        // Determine token standard
-        let standard: TokenStandard = "unknown";
-        if (token?.standard) {
-            switch (token.standard.toLowerCase()) {
-                case "fa2":
-                    standard = "fa2";
-                    break;
-                case "fa1.2":
-                case "fa12":
-                    standard = "fa1.2";
-                    break;
-                default:
-                    standard = "unknown";
-            }
+    async warmGallery(
+        galleryType: GalleryType,
+        identifier: string,
+        network: NetworkId = DEFAULT_NETWORK
+    ): Promise<OrchestrationResult> {
+        switch (galleryType) {
+            case "USER":
+                return this.getTokenCollection({ address: identifier, deltaRefresh: true, network });
+            case "CURATION":
+                return this.getCurationTokenCollection({ curationId: identifier, forceRefresh: true, network });
+            case "COLLECTION":
+                return this.getCollectionTokenCollection({ contractAddress: identifier, forceRefresh: true, network });
+            case "ARTIST":
+                return this.getArtistTokenCollection({ artistAddress: identifier, forceRefresh: true, network });
         }
-
-        const now = new Date();
-        const collectionTime = apiToken.firstTime ? new Date(apiToken.firstTime) : now;
-
-        const unifiedToken: UnifiedToken = {
-            id: `${token?.contract?.address || "unknown"}_${token?.tokenId || "0"}`,
-            contractAddress: token?.contract?.address || "unknown",
-            contractAlias: token?.contract?.alias || undefined, // ← NOW WE GET THE REAL CONTRACT ALIAS!
-            tokenId: token?.tokenId || "0",
-            balance: apiToken.balance || "0",
-            standard,
-            metadata,
-            source: {
-                provider: "tzkt",
-                version: "1.0",
-                endpoint: "https://api.tzkt.io",
-                priority: 1,
-            },
-            fetchedAt: now,
-            lastTransferAt: collectionTime,
-            firstMintAt: collectionTime,
-            isValid: !!(token?.metadata && token.contract?.address),
-            hasImage: !!(metadata.image || metadata.artifactUri || metadata.displayUri || metadata.thumbnailUri),
-            hasMetadata: !!token?.metadata,
-        };
-
-        // Set computed display fields
-        unifiedToken.displayImage =
-            metadata.displayUri || metadata.artifactUri || metadata.image || metadata.thumbnailUri;
-        unifiedToken.displayName = metadata.name || `Token #${unifiedToken.tokenId}`;
-
-        // Use collection timestamp for sort key
-        unifiedToken.sortKey = collectionTime.toISOString();
-
-        return unifiedToken;
     }
 
     /**
-     * Convert TzktTokenBalance to UnifiedToken format
+     * Overview stats of a gallery's filtered tokens. Summaries are built with the collection and cached next
+     * to it - galleries cached before summaries existed are summarized on their first request.
      */
-    private convertToUnifiedToken(tzktToken: TzktTokenBalance): UnifiedToken {
-        const token = tzktToken.token;
-        const metadata: UnifiedMetadata = {
-            name: token?.metadata?.name || undefined,
-            symbol: token?.metadata?.symbol || undefined,
-            decimals: token?.metadata?.decimals ? Number(token.metadata.decimals) : undefined,
-            description: token?.metadata?.description || undefined,
-            image: token?.metadata?.image || undefined,
-            artifactUri: token?.metadata?.artifactUri || undefined,
-            displayUri: token?.metadata?.displayUri || undefined,
-            thumbnailUri: token?.metadata?.thumbnailUri || undefined,
-            supply: token?.totalSupply || token?.metadata?.supply || undefined,
-            creators: token?.metadata?.creators || undefined,
-            attributes: token?.metadata?.attributes || undefined,
-            // 🔥 CRITICAL FIX: Preserve formats data with MIME types
-            formats: token?.metadata?.formats || undefined,
-            // Store raw metadata for fallback detection
-            raw: token?.metadata || undefined,
+    async getGallerySummary(
+        galleryType: GalleryType,
+        identifier: string,
+        options: { network?: NetworkId; filterOverrides?: FilterOverrides } = {}
+    ): Promise<{ summary: UnifiedCollection; cache: { hit: boolean; source: CacheSource } }> {
+        const { network = DEFAULT_NETWORK, filterOverrides } = options;
+
+        const load = (pageSize: number): Promise<OrchestrationResult> => {
+            const pagination = { page: 1, pageSize };
+            switch (galleryType) {
+                case "USER":
+                    return this.getTokenCollection({ address: identifier, pagination, filterOverrides, network });
+                case "CURATION":
+                    return this.getCurationTokenCollection({
+                        curationId: identifier,
+                        pagination,
+                        filterOverrides,
+                        network,
+                    });
+                case "COLLECTION":
+                    return this.getCollectionTokenCollection({
+                        contractAddress: identifier,
+                        pagination,
+                        filterOverrides,
+                        network,
+                    });
+                case "ARTIST":
+                    return this.getArtistTokenCollection({
+                        artistAddress: identifier,
+                        pagination,
+                        filterOverrides,
+                        network,
+                    });
+            }
         };
 
-        // 🔍 DEBUG: Log creators to understand the alias issue
-        if (token?.metadata?.creators) {
-            // Debug logging removed for production
-        }
-
-        // Determine token standard
-        let standard: TokenStandard = "unknown";
-        if (token?.standard) {
-            switch (token.standard.toLowerCase()) {
-                case "fa2":
-                    standard = "fa2";
-                    break;
-                case "fa1.2":
-                case "fa12":
-                    standard = "fa1.2";
-                    break;
-                default:
-                    standard = "unknown";
+        // Loading the first room builds the gallery (and its summary) when it is not cached
+        const first = await load(1);
+        const cacheKey = first.cache.cacheKey;
+        let summary = cacheKey ? await cacheManager.getCollectionSummary(cacheKey) : null;
+
+        if (!summary) {
+            const complete = await load(COMPLETE_COLLECTION_LIMIT);
+            summary = summarizeCollection(
+                identifier,
+                complete.tokens,
+                complete.dataSources,
+                complete.pagination.truncated
+            );
+            if (cacheKey) {
+                await cacheManager.setCollectionSummary(cacheKey, summary);
             }
         }
 
-        const now = new Date();
-        const collectionTime = tzktToken.firstTime ? new Date(tzktToken.firstTime) : now;
-
-        const unifiedToken: UnifiedToken = {
-            id: `${token?.contract?.address || "unknown"}_${token?.tokenId || "0"}`,
-            contractAddress: token?.contract?.address || "unknown",
-            tokenId: token?.tokenId || "0",
-            balance: tzktToken.balance || "0",
-            standard,
-            metadata,
-            source: {
-                provider: "tzkt",
-                version: "1.0",
-                endpoint: "https://api.tzkt.io",
-                priority: 1,
-            },
-            fetchedAt: now,
-            lastTransferAt: collectionTime, // When you first collected this token
-            firstMintAt: collectionTime, // Use same timestamp for consistency
-            isValid: !!(token?.metadata && token.contract?.address),
-            hasImage: !!(metadata.image || metadata.artifactUri || metadata.displayUri || metadata.thumbnailUri),
-            hasMetadata: !!token?.metadata,
-        };
-
-        // Set computed display fields
-        unifiedToken.displayImage =
-            metadata.displayUri || metadata.artifactUri || metadata.image || metadata.thumbnailUri;
-        unifiedToken.displayName = metadata.name || `Token #${unifiedToken.tokenId}`;
+        return { summary, cache: { hit: first.cache.hit, source: first.cache.source } };
+    }
 
-        // Use collection timestamp for sort key (will be pre-sorted by TzKT)
-        unifiedToken.sortKey = collectionTime.toISOString();
+    /**
+     * Exact keys cleared along with a gallery's key index: its metadata, or the legacy unfiltered USER entry
+     */
+    private galleryExactKeys(galleryType: GalleryType, identifier: string, network: NetworkId): string[] {
+        switch (galleryType) {
+            case "USER":
+                return [tokenCollection(identifier, network)];
+            case "CURATION":
+                return [curationMetadata(identifier, network)];
+            case "COLLECTION":
+                return [collectionMetadata(identifier, network)];
+            case "ARTIST":
+                return [artistMetadata(identifier, network)];
+        }
+    }
 
-        return unifiedToken;
+    /**
+     * Filter engine for a request: the current (runtime-loaded) rules plus any per-request overrides.
+     * Rule refreshes never change it, so hash and filter with the same engine.
+     */
+    private async filtersFor(overrides?: FilterOverrides): Promise<FilterEngine> {
+        return (await filterRulesStore.current()).withOverrides(overrides);
     }
 
     /**
-     * Fetch complete token collection from API (no pagination needed!)
+     * Serve a gallery in a custom order or grouping. The default-order collection is loaded (or built) first;
+     * the arranged copy is cached under a key tied to that entry's build, so rebuilding the gallery retires old
+     * arrangements. Grouped galleries also store their room layout, and each page is one room.
      */
-    private async fetchCompleteCollection(address: string): Promise<UnifiedToken[]> {
-        // Build URL with parameters - following TzKT API docs exactly
-        const url = new URL("https://api.tzkt.io/v1/tokens/balances");
-        url.searchParams.set("account", address);
-        url.searchParams.set("balance.gt", "0");
-        url.searchParams.set("limit", "10000"); // Max limit to get everything
-        // NO SELECT - use default response which has everything we need!
+    private async getArrangedCollection(
+        options: {
+            pagination?: PaginationConfig;
+            forceRefresh?: boolean;
+            cacheResults?: boolean;
+            includeHidden?: boolean;
+        },
+        arrangement: { sort?: GallerySort; group?: GroupMode },
+        loadBase: (base: {
+            pagination: PaginationConfig;
+            forceRefresh?: boolean;
+            deltaRefresh?: boolean;
+            includeHidden?: boolean;
+        }) => Promise<OrchestrationResult>
+    ): Promise<OrchestrationResult> {
+        const startTime = Date.now();
+        const { pagination = { page: 1, pageSize: this.defaultPageSize }, cacheResults = true } = options;
+        const { sort = DEFAULT_SORT, group = "none" } = arrangement;
 
-        try {
-            // Configure fetch with proper timeouts and headers
-            const response = await fetch(url.toString(), {
-                method: "GET",
-                headers: {
-                    Accept: "application/json",
-                    "User-Agent": "colleKT/1.0",
-                },
-                // Increase timeout for large collections
-                signal: AbortSignal.timeout(120000), // 2 minutes timeout
-            });
+        // Normalize pagination
+        const page =
+            pagination.page || Math.floor((pagination.offset || 0) / (pagination.limit || this.defaultPageSize)) + 1;
+        const pageSize = pagination.pageSize || pagination.limit || this.defaultPageSize;
 
-            if (!response.ok) {
-                console.error(`❌ API Response: ${response.status} ${response.statusText}`);
-                const errorText = await response.text();
-                console.error(`❌ Error body: ${errorText}`);
-                throw new Error(`API request failed: ${response.status} ${response.statusText}`);
-            }
+        // Range of the requested page - one room of the layout for grouped galleries
+        const pageRange = (rooms?: RoomGroup[]): { start: number; size: number } => {
+            if (!rooms) return { start: (page - 1) * pageSize, size: pageSize };
+            const last = rooms[rooms.length - 1];
+            return rooms[page - 1] ?? { start: last ? last.start + last.size : 0, size: 0 };
+        };
 
-            const tokens = await response.json();
-
-            // Convert all tokens to UnifiedToken format with error handling
-            const convertedTokens = tokens
-                .map((tzktToken: any, index: number) => {
-                    try {
-                        return this.convertDirectApiToken(tzktToken);
-                    } catch (error) {
-                        console.error(`❌ ERROR converting token ${index}:`, error);
-                        console.error(`❌ Failed token data:`, JSON.stringify(tzktToken, null, 2));
-                        return null;
+        // Load the default order first - this applies refreshes and finds the entry the arrangement derives from
+        const base = await loadBase({ pagination: { page: 1, pageSize: 1 } });
+        const baseKey = base.cache.cacheKey;
+        const [baseEntry] = baseKey && cacheResults ? await cacheManager.inspectKeys([baseKey]) : [];
+        // Room layouts depend on the page size, so grouped arrangements are keyed by it
+        const arrangementKey = isGrouped(group) ? `${sortKey(sort)}-by-${group}-${pageSize}` : sortKey(sort);
+        const arrangedKey = baseEntry?.createdAt
+            ? sortedCollection(baseKey!, arrangementKey, baseEntry.createdAt.getTime())
+            : undefined;
+
+        let tokens: UnifiedToken[];
+        let tokensOffset = 0;
+        let totalItems: number;
+        let rooms: RoomGroup[] | undefined;
+        let cacheHit = false;
+        let dataSources = base.dataSources;
+
+        // Grouped entries are only usable with their room layout
+        const cachedRooms = arrangedKey && isGrouped(group) ? await cacheManager.getRoomGroups(arrangedKey) : null;
+        const cachedRange = isGrouped(group) ? cachedRooms && pageRange(cachedRooms) : pageRange();
+        const cached =
+            arrangedKey && cachedRange
+                ? await cacheManager.getRange<UnifiedToken>(arrangedKey, cachedRange.start, cachedRange.size)
+                : null;
+
+        if (cached?.hit && cached.data) {
+            tokens = cached.data.items;
+            tokensOffset = cached.data.offset;
+            totalItems = cached.data.totalItems;
+            rooms = cachedRooms ?? undefined;
+            cacheHit = true;
+        } else {
+            const arrangeAll = async (): Promise<CollectionBuild> => {
+                const complete = await loadBase({
+                    pagination: { page: 1, pageSize: COMPLETE_COLLECTION_LIMIT },
+                    forceRefresh: false,
+                    deltaRefresh: false,
+                    includeHidden: false,
+                });
+                const sorted = sortTokens(complete.tokens, sort);
+                const arranged: { tokens: UnifiedToken[]; rooms?: RoomGroup[] } = isGrouped(group)
+                    ? groupTokens(sorted, group, pageSize)
+                    : { tokens: sorted };
+
+                if (arrangedKey) {
+                    // Expire with the entry it was derived from
+                    const ttlSeconds = baseEntry?.softExpiresAt
+                        ? Math.round((baseEntry.softExpiresAt.getTime() - Date.now()) / 1000)
+                        : baseEntry?.ttlSeconds ?? 0;
+                    await cacheManager.buildCache(arrangedKey, arranged.tokens, Math.max(60, ttlSeconds), {
+                        sources: complete.dataSources,
+                    });
+                    if (arranged.rooms) {
+                        await cacheManager.setRoomGroups(arrangedKey, arranged.rooms);
                     }
-                })
-                .filter((token: UnifiedToken | null): token is UnifiedToken => token !== null);
+                    await cacheManager.setSearchIndex(arrangedKey, buildSearchIndex(arranged.tokens));
+                }
 
-            return convertedTokens;
-        } catch (error) {
-            console.error("❌ Failed to fetch tokens from direct API:", error);
-
-            // If timeout or connection error, try with smaller limit
-            if (
-                error instanceof Error &&
-                (error.message.includes("timeout") ||
-                    error.message.includes("terminated") ||
-                    error.message.includes("UND_ERR_SOCKET"))
-            ) {
-                return this.fetchCollectionInBatches(address);
-            }
+                return {
+                    tokens: arranged.tokens,
+                    rooms: arranged.rooms,
+                    source: complete.cache.source,
+                    dataSources: complete.dataSources,
+                };
+            };
 
-            throw error;
+            const build = arrangedKey ? await this.coalesceBuild(arrangedKey, arrangeAll) : await arrangeAll();
+            tokens = build.tokens;
+            totalItems = tokens.length;
+            dataSources = build.dataSources.length > 0 ? build.dataSources : dataSources;
+            // Builds by another instance only return tokens - grouping them again gives the same layout
+            rooms = build.rooms ?? (isGrouped(group) ? groupTokens(tokens, group, pageSize).rooms : undefined);
         }
+
+        const { start: startIndex, size } = pageRange(rooms);
+        const totalPages = rooms ? rooms.length : Math.ceil(totalItems / pageSize);
+        const endIndex = Math.min(startIndex + size, totalItems);
+
+        return {
+            tokens: tokens.slice(startIndex - tokensOffset, endIndex - tokensOffset),
+            pagination: {
+                currentPage: page,
+                pageSize,
+                totalItems,
+                totalPages,
+                hasNextPage: page < totalPages,
+                hasPreviousPage: page > 1,
+                startIndex,
+                endIndex: endIndex - 1,
+                roomLabel: rooms?.[page - 1]?.label,
+                truncated: base.pagination.truncated,
+            },
+            cache: {
+                hit: cacheHit,
+                source: base.cache.source,
+                buildTimeMs: base.cache.buildTimeMs,
+                cacheKey: arrangedKey,
+            },
+            filtering: base.filtering,
+            hiddenTokens: base.hiddenTokens,
+            rooms,
+            performance: {
+                ...base.performance,
+                totalTimeMs: Date.now() - startTime,
+            },
+            dataSources,
+            fetchedAt: new Date(),
+        };
     }
 
     /**
-     * Fallback method to fetch collection in smaller batches
+     * Find the tokens of a gallery matching a full-text query. Uses the search index stored with the cached
+     * collection - entries cached before it existed are indexed on their first search.
      */
-    private async fetchCollectionInBatches(address: string): Promise<UnifiedToken[]> {
-        const batchSize = 1000; // Smaller batch size
-        let allTokens: UnifiedToken[] = [];
-        let offset = 0;
-        let hasMore = true;
+    private async searchCollection(
+        result: OrchestrationResult,
+        query: string,
+        cacheResults: boolean,
+        loadComplete: (complete: {
+            pagination: PaginationConfig;
+            forceRefresh?: boolean;
+            deltaRefresh?: boolean;
+            includeHidden?: boolean;
+        }) => Promise<OrchestrationResult>
+    ): Promise<NonNullable<OrchestrationResult["search"]>> {
+        const cacheKey = cacheResults ? result.cache.cacheKey : undefined;
+        const loadCollection = async () =>
+            (
+                await loadComplete({
+                    pagination: { page: 1, pageSize: COMPLETE_COLLECTION_LIMIT },
+                    forceRefresh: false,
+                    deltaRefresh: false,
+                    includeHidden: false,
+                })
+            ).tokens;
 
-        while (hasMore) {
-            try {
-                const url = new URL("https://api.tzkt.io/v1/tokens/balances");
-                url.searchParams.set("account", address);
-                url.searchParams.set("balance.gt", "0");
-                url.searchParams.set("limit", batchSize.toString());
-                url.searchParams.set("offset", offset.toString());
-
-                const response = await fetch(url.toString(), {
-                    method: "GET",
-                    headers: {
-                        Accept: "application/json",
-                        "User-Agent": "colleKT/1.0",
-                    },
-                    signal: AbortSignal.timeout(30000), // 30 second timeout per batch
-                });
+        let index = cacheKey ? await cacheManager.getSearchIndex(cacheKey) : null;
+        let collection: UnifiedToken[] | undefined;
 
-                if (!response.ok) {
-                    throw new Error(`Batch API request failed: ${response.status} ${response.statusText}`);
-                }
+        if (!index) {
+            collection = await loadCollection();
+            index = buildSearchIndex(collection);
+            if (cacheKey) {
+                await cacheManager.setSearchIndex(cacheKey, index);
+            }
+        }
 
-                const batchTokens = await response.json();
+        const { rooms, pagination } = result;
+        const hits = searchIndex(index, query, (position) =>
+            rooms ? roomOfPosition(rooms, position) : Math.floor(position / pagination.pageSize) + 1
+        );
 
-                if (batchTokens.length === 0) {
-                    hasMore = false;
-                    break;
-                }
+        // The matching tokens come from the collection, which is only loaded when something matched
+        if (hits.length > 0 && !collection) {
+            collection = await loadCollection();
+        }
+        const tokensById = new Map(collection?.map((token) => [token.id, token]));
 
-                // Convert batch tokens
-                const convertedBatch = batchTokens
-                    .map((tzktToken: any) => {
-                        try {
-                            return this.convertDirectApiToken(tzktToken);
-                        } catch (error) {
-                            console.error(`❌ ERROR converting token:`, error);
-                            return null;
-                        }
-                    })
-                    .filter((token: UnifiedToken | null): token is UnifiedToken => token !== null);
-
-                allTokens.push(...convertedBatch);
-                offset += batchSize;
-
-                // If we got fewer tokens than the batch size, we're done
-                if (batchTokens.length < batchSize) {
-                    hasMore = false;
-                }
+        return {
+            query,
+            matches: hits.flatMap(({ id, position, room }) => {
+                const token = tokensById.get(id);
+                return token ? [{ token, position, room }] : [];
+            }),
+        };
+    }
 
-                // Add small delay between batches to be nice to the API
-                await new Promise((resolve) => setTimeout(resolve, 100));
-            } catch (error) {
-                console.error(`❌ Failed to fetch batch at offset ${offset}:`, error);
-                throw error;
-            }
-        }
+    /**
+     * Hidden tokens stored next to a cached collection (undefined when not stored)
+     */
+    private async cachedHiddenTokens(cacheKey: string): Promise<ExcludedToken[] | undefined> {
+        return (await cacheManager.getHiddenTokens(cacheKey)) ?? undefined;
+    }
 
-        return allTokens;
+    /**
+     * Get cache statistics
+     */
+    getCacheStats() {
+        return cacheManager.getStats();
     }
 
     /**
-     * Sort tokens chronologically (oldest first - chronological order)
+     * Health check for all components
      */
-    private sortTokensChronologically(tokens: UnifiedToken[]): UnifiedToken[] {
-        return [...tokens].sort((a, b) => {
-            // Primary sort: lastTransferAt (if available) - oldest first
-            if (a.lastTransferAt && b.lastTransferAt) {
-                return new Date(a.lastTransferAt).getTime() - new Date(b.lastTransferAt).getTime();
-            }
+    async healthCheck(): Promise<{
+        cache: boolean;
+        api: boolean;
+        filters: boolean;
+        overall: boolean;
+    }> {
+        // API is healthy while at least one provider can answer
+        const providerHealth = await getProviderOrchestrator().getProviderHealth();
+        const apiHealth = Object.values(providerHealth).some((health) => health.isHealthy);
 
-            // Secondary sort: firstMintAt (if available) - oldest first
-            if (a.firstMintAt && b.firstMintAt) {
-                return new Date(a.firstMintAt).getTime() - new Date(b.firstMintAt).getTime();
-            }
+        const cacheHealth = await cacheManager.healthCheck();
+        const filtersHealth = true; // Always healthy
+        const overall = cacheHealth && apiHealth && filtersHealth;
 
-            // Fallback: stable sorting by contract address + token ID (ascending)
-            // This ensures consistent order when timestamps are missing
-            const sortKeyA = a.sortKey || `${a.contractAddress}-${String(a.tokenId).padStart(10, "0")}`;
-            const sortKeyB = b.sortKey || `${b.contractAddress}-${String(b.tokenId).padStart(10, "0")}`;
-            return sortKeyA.localeCompare(sortKeyB);
-        });
+        return {
+            cache: cacheHealth,
+            api: apiHealth,
+            filters: filtersHealth,
+            overall,
+        };
     }
 
-    // ===== NEW GALLERY-SPECIFIC METHODS =====
-
     /**
-     * Get CURATION gallery tokens via objkt → TzKT bridge
+     * Serve a gallery with per-request filter overrides: the unfiltered collection is loaded through the normal
+     * cached path and filtered in memory. The view has no cache key, so arrangements and searches of it are
+     * computed in memory too.
      */
-    async getCurationTokenCollection(options: CurationFetchOptions): Promise<OrchestrationResult> {
+    private async getOverrideView(
+        options: GalleryFetchOptions,
+        gallery: GalleryPipeline
+    ): Promise<OrchestrationResult> {
         const startTime = Date.now();
         const {
-            curationId,
             pagination = { page: 1, pageSize: this.defaultPageSize },
-            forceRefresh = false,
-            applyFilters = true,
-            cacheResults = true,
+            filterOverrides,
+            includeHidden = false,
         } = options;
 
         // Normalize pagination
         const page =
             pagination.page || Math.floor((pagination.offset || 0) / (pagination.limit || this.defaultPageSize)) + 1;
         const pageSize = pagination.pageSize || pagination.limit || this.defaultPageSize;
+        const startIndex = (page - 1) * pageSize;
+
+        // Refreshes pass through to the unfiltered collection
+        const base = await gallery.reload({
+            pagination: { page: 1, pageSize: COMPLETE_COLLECTION_LIMIT },
+            applyFilters: false,
+            filterOverrides: undefined,
+            includeHidden: false,
+        });
 
-        // Generate cache keys using new gallery-specific pattern
-        const filterHash = applyFilters ? filterEngine.generateFilterHash() : "none";
+        const filters = await this.filtersFor(filterOverrides);
+        const filterStart = Date.now();
+        const filterResult = filters.applyFilters(base.tokens, { owner: gallery.owner, keepExcluded: includeHidden });
+        const filterTimeMs = Date.now() - filterStart;
+        const tokens = filterResult.filteredTokens;
 
-        let tokens: UnifiedToken[] = [];
-        let cacheHit = false;
-        let cacheSource: "cache" | "api" | "hybrid" = "api";
-        let buildTimeMs: number | undefined;
-        let fetchTimeMs: number | undefined;
-        let filterTimeMs: number | undefined;
-        let cacheTimeMs: number | undefined;
-        let filterResult: FilterResult | undefined;
+        const totalItems = tokens.length;
+        const totalPages = Math.ceil(totalItems / pageSize);
+        const endIndex = Math.min(startIndex + pageSize, totalItems);
 
-        try {
-            // Step 1: Try cache first (unless force refresh)
-            if (!forceRefresh) {
-                const cacheStart = Date.now();
-                const cached = await cacheManager.getCurationTokens(curationId, filterHash);
-                cacheTimeMs = Date.now() - cacheStart;
+        return {
+            tokens: tokens.slice(startIndex, endIndex),
+            pagination: {
+                currentPage: page,
+                pageSize,
+                totalItems,
+                totalPages,
+                hasNextPage: page < totalPages,
+                hasPreviousPage: page > 1,
+                startIndex,
+                endIndex: endIndex - 1,
+                truncated: base.pagination.truncated,
+            },
+            cache: {
+                hit: base.cache.hit,
+                source: base.cache.source,
+                buildTimeMs: base.cache.buildTimeMs,
+            },
+            filtering: filterResult,
+            hiddenTokens: includeHidden ? filterResult.excludedTokens ?? [] : undefined,
+            performance: {
+                ...base.performance,
+                filterTimeMs,
+                totalTimeMs: Date.now() - startTime,
+            },
+            dataSources: base.dataSources,
+            fetchedAt: new Date(),
+        };
+    }
 
-                if (cached.hit && cached.data) {
-                    tokens = cached.data;
-                    cacheHit = true;
-                    cacheSource = "cache";
-                }
+    /**
+     * Fetch a wallet's holdings for a USER build: delta-merge into the cached tokens when possible,
+     * otherwise fetch everything
+     */
+    private async fetchHoldings(
+        address: string,
+        params: {
+            cacheKey: string;
+            cachedTokens?: UnifiedToken[]; // Present for delta refreshes
+            indexedLevel?: number;
+            includeTransferOrigins: boolean; // Spam detection scores unsolicited transfers
+            holdingsSource: HoldingsSource;
+            network: NetworkId;
+        }
+    ): Promise<GalleryFetch> {
+        const { cacheKey, cachedTokens, includeTransferOrigins, holdingsSource, network } = params;
+
+        // Delta refresh - merge balance changes since the cached level into the cached tokens.
+        // Previously hidden tokens are merged in too, so they are re-filtered with the rest.
+        if (cachedTokens) {
+            const previouslyHidden = (await this.cachedHiddenTokens(cacheKey)) ?? [];
+            const delta = await this.mergeBalanceChanges(
+                address,
+                [...cachedTokens, ...previouslyHidden.map((hidden) => hidden.token)],
+                params.indexedLevel,
+                network
+            );
+
+            if (delta) {
+                return { tokens: delta.tokens, dataSources: [delta.source], indexedLevel: delta.level, merged: true };
             }
+        }
 
-            // Step 2: If cache miss or force refresh, fetch via objkt → TzKT bridge
-            if (!cacheHit) {
-                const fetchStart = Date.now();
+        const providers = getProviderOrchestrator(network);
 
-                // Use objkt-queries bridge to fetch curation tokens
-                tokens = await fetchCurationTokens(curationId);
+        // Record the indexer level before fetching so later delta refreshes can't skip changes
+        const indexedLevel = await providers.getHeadLevel().catch(() => undefined);
 
-                fetchTimeMs = Date.now() - fetchStart;
+        // Fetch complete collection (no pagination at API level), falling back across providers
+        const response = await providers.getTokenBalances(
+            address,
+            { offset: 0, limit: COMPLETE_COLLECTION_LIMIT },
+            { includeTransferOrigins },
+            {
+                preferredProvider: holdingsSource === "tzkt" || holdingsSource === "objkt" ? holdingsSource : undefined,
+                mergeResults: holdingsSource === "merge",
+            }
+        );
 
-                // Step 3: Apply filtering if requested
-                if (applyFilters && filterEngine.hasActiveFilters()) {
-                    const filterStart = Date.now();
-                    filterResult = filterEngine.applyFilters(tokens);
-                    tokens = filterResult.filteredTokens;
-                    filterTimeMs = Date.now() - filterStart;
-                }
+        return { tokens: response.tokens, dataSources: [response.source], indexedLevel };
+    }
 
-                // Step 4: Cache the results
-                if (cacheResults && tokens.length > 0) {
-                    const cacheStart = Date.now();
-                    await cacheManager.setCurationTokens(curationId, tokens, filterHash);
-                    cacheTimeMs = Date.now() - cacheStart;
-                }
+    /**
+     * Filter and cache freshly fetched tokens. Hidden tokens, the search index and the summary are stored
+     * next to the collection at cacheKey. Empty results are only cached when the gallery asks for it.
+     */
+    private async finishGalleryBuild(
+        fetched: GalleryFetch,
+        fetchTimeMs: number,
+        params: {
+            applyFilters: boolean;
+            filters: FilterEngine; // Effective filter configuration for the request
+            filterHash: string;
+            cacheKey: string;
+            identifier: string;
+            owner?: string;
+            store: GalleryPipeline["store"] | null; // null when results are not cached
+            cacheEmpty: boolean;
+        }
+    ): Promise<CollectionBuild> {
+        const { applyFilters, filters, filterHash, cacheKey, identifier, owner, store } = params;
+        const { dataSources, indexedLevel, truncated } = fetched;
+        let tokens = fetched.tokens;
+        let filterResult: FilterResult | undefined;
+        let hiddenTokens: ExcludedToken[] = [];
+        let filterTimeMs: number | undefined;
+        let cacheTimeMs: number | undefined;
 
-                buildTimeMs = Date.now() - startTime;
-                cacheSource = "api";
-            }
+        // Delta-merged tokens are re-filtered too
+        if (applyFilters && filters.hasActiveFilters()) {
+            const filterStart = Date.now();
+            filterResult = filters.applyFilters(tokens, { owner, keepExcluded: true });
+            tokens = filterResult.filteredTokens;
+            hiddenTokens = filterResult.excludedTokens ?? [];
+            filterTimeMs = Date.now() - filterStart;
+        }
 
-            // Step 5: Apply pagination
-            const totalItems = tokens.length;
-            const totalPages = Math.ceil(totalItems / pageSize);
-            const startIndex = (page - 1) * pageSize;
-            const endIndex = Math.min(startIndex + pageSize, totalItems);
-            const paginatedTokens = tokens.slice(startIndex, endIndex);
+        if (store && (tokens.length > 0 || params.cacheEmpty)) {
+            const cacheStart = Date.now();
+            await store(tokens, { cacheKey, filterHash, dataSources, indexedLevel, truncated });
+            await cacheManager.setHiddenTokens(cacheKey, hiddenTokens);
+            await cacheManager.setSearchIndex(cacheKey, buildSearchIndex(tokens));
+            await cacheManager.setCollectionSummary(
+                cacheKey,
+                summarizeCollection(identifier, tokens, dataSources, truncated)
+            );
+            cacheTimeMs = Date.now() - cacheStart;
+        }
 
-            const totalTimeMs = Date.now() - startTime;
+        return {
+            tokens,
+            source: fetched.merged ? "hybrid" : "api",
+            dataSources,
+            filterResult,
+            hiddenTokens,
+            truncated,
+            fetchTimeMs,
+            filterTimeMs,
+            cacheTimeMs,
+        };
+    }
 
-            return {
-                tokens: paginatedTokens,
-                pagination: {
-                    currentPage: page,
-                    pageSize,
-                    totalItems,
-                    totalPages,
-                    hasNextPage: page < totalPages,
-                    hasPreviousPage: page > 1,
-                    startIndex,
-                    endIndex: endIndex - 1,
-                },
-                cache: {
-                    hit: cacheHit,
-                    source: cacheSource,
-                    buildTimeMs,
-                    cacheKey: `curation:${curationId}:${filterHash}`,
-                },
-                filtering: filterResult,
-                performance: {
-                    totalTimeMs,
-                    fetchTimeMs,
-                    filterTimeMs,
-                    cacheTimeMs,
-                },
-                dataSources: [
-                    {
-                        provider: "objkt",
-                        version: "1.0",
-                        endpoint: "https://data.objkt.com + https://api.tzkt.io",
-                        priority: 1,
-                    },
-                ],
-                fetchedAt: new Date(),
-            };
-        } catch (error) {
-            console.error("Curation orchestration error:", error);
-            throw new Error(
-                `Failed to orchestrate curation data for ${curationId}: ${
-                    error instanceof Error ? error.message : "Unknown error"
-                }`
-            );
+    /**
+     * Run at most one build per cache key - concurrent misses wait for the in-flight build.
+     * With distributed locks enabled, other instances wait for the lock holder's cache entry instead.
+     */
+    private coalesceBuild(cacheKey: string, build: () => Promise<CollectionBuild>): Promise<CollectionBuild> {
+        const inflight = this.inflightBuilds.get(cacheKey);
+        if (inflight) {
+            console.log(`🔗 Joining in-flight build for ${cacheKey}`);
+            return inflight;
         }
+
+        const pending = this.buildWithLock(cacheKey, build).finally(() => this.inflightBuilds.delete(cacheKey));
+        this.inflightBuilds.set(cacheKey, pending);
+        return pending;
     }
 
     /**
-     * Get COLLECTION gallery tokens via direct TzKT contract filtering
+     * Build while holding the distributed lock for a cache key (when enabled)
      */
-    async getCollectionTokenCollection(options: ContractCollectionFetchOptions): Promise<OrchestrationResult> {
-        const startTime = Date.now();
-        const {
-            contractAddress,
-            pagination = { page: 1, pageSize: this.defaultPageSize },
-            forceRefresh = false,
-            applyFilters = true,
-            cacheResults = true,
-        } = options;
+    private async buildWithLock(cacheKey: string, build: () => Promise<CollectionBuild>): Promise<CollectionBuild> {
+        if (!cacheManager.distributedLocksEnabled) {
+            return build();
+        }
 
-        // Normalize pagination
-        const page =
-            pagination.page || Math.floor((pagination.offset || 0) / (pagination.limit || this.defaultPageSize)) + 1;
-        const pageSize = pagination.pageSize || pagination.limit || this.defaultPageSize;
+        const waitStart = new Date();
+        const lock = await cacheManager.acquireLock(cacheKey);
 
-        // Generate cache keys using new gallery-specific pattern
-        const filterHash = applyFilters ? filterEngine.generateFilterHash() : "none";
+        if (lock) {
+            try {
+                return await build();
+            } finally {
+                await cacheManager.releaseLock(lock);
+            }
+        }
 
-        let tokens: UnifiedToken[] = [];
-        let cacheHit = false;
-        let cacheSource: "cache" | "api" | "hybrid" = "api";
-        let buildTimeMs: number | undefined;
-        let fetchTimeMs: number | undefined;
-        let filterTimeMs: number | undefined;
-        let cacheTimeMs: number | undefined;
-        let filterResult: FilterResult | undefined;
+        // Another instance is building - use its result once it lands in the cache
+        console.log(`⏳ Waiting for another instance to build ${cacheKey}`);
+        const cached = await cacheManager.waitForBuild<UnifiedToken[]>(cacheKey, waitStart);
 
-        try {
-            // Step 1: Try cache first (unless force refresh)
-            if (!forceRefresh) {
-                const cacheStart = Date.now();
-                const cached = await cacheManager.getCollectionTokens(contractAddress, filterHash);
-                cacheTimeMs = Date.now() - cacheStart;
+        if (cached.hit && cached.data) {
+            return {
+                tokens: cached.data,
+                source: "cache",
+                dataSources: cached.metadata?.sources ?? [],
+                truncated: cached.metadata?.truncated,
+            };
+        }
 
-                if (cached.hit && cached.data) {
-                    tokens = cached.data;
-                    cacheHit = true;
-                    cacheSource = "cache";
-                }
+        console.warn(`⚠️ Timed out waiting for ${cacheKey} - building locally`);
+        return build();
+    }
+
+    /**
+     * Detailed health for every provider on a network plus the cache.
+     * Provider results are persisted under providerHealth() keys and reused for a short window,
+     * so frequent health polls don't hit the providers and open circuits are shared across instances.
+     */
+    async getHealthReport(network: NetworkId = DEFAULT_NETWORK, forceCheck: boolean = false): Promise<HealthReport> {
+        const providers = getProviderOrchestrator(network);
+        const names = providers.providers.map((provider) => provider.name);
+
+        const persisted = await Promise.all(
+            names.map(async (name) => {
+                const cached = await cacheManager.get<ProviderHealth>(providerHealth(name, network));
+                return cached.hit && cached.data ? this.parseProviderHealth(cached.data) : null;
+            })
+        );
+
+        // Adopt circuits opened by other instances
+        persisted.forEach((health, index) => {
+            if (health?.circuitOpenUntil && health.circuitOpenUntil.getTime() > Date.now()) {
+                providers.tripCircuit(names[index], health.circuitOpenUntil, health.errorMessage);
             }
+        });
 
-            // Step 2: If cache miss or force refresh, fetch via direct TzKT
-            if (!cacheHit) {
-                const fetchStart = Date.now();
+        let results: Record<string, ProviderHealth>;
+        if (!forceCheck && persisted.every((health) => health !== null)) {
+            results = Object.fromEntries(names.map((name, index) => [name, persisted[index]!]));
+        } else {
+            results = await providers.getProviderHealth();
+            await Promise.all(
+                Object.entries(results).map(([name, health]) =>
+                    cacheManager.set(providerHealth(name, network), health, PROVIDER_HEALTH_TTL_SECONDS)
+                )
+            );
+        }
 
-                // Use objkt-queries to fetch collection tokens directly from TzKT
-                tokens = await fetchCollectionTokens(contractAddress);
+        const cacheHealthy = await cacheManager.healthCheck();
+        const statuses = Object.values(results).map(
+            (health) => health.status || (health.isHealthy ? "healthy" : "unhealthy")
+        );
+        const status: ProviderStatus = !statuses.includes("healthy")
+            ? "unhealthy"
+            : statuses.every((providerStatus) => providerStatus === "healthy") && cacheHealthy
+              ? "healthy"
+              : "degraded";
 
-                fetchTimeMs = Date.now() - fetchStart;
+        return {
+            status,
+            network,
+            checkedAt: new Date(),
+            cache: {
+                healthy: cacheHealthy,
+                backend: cacheManager.getStats().backend,
+            },
+            providers: results,
+        };
+    }
 
-                // Step 3: Apply filtering if requested
-                if (applyFilters && filterEngine.hasActiveFilters()) {
-                    const filterStart = Date.now();
-                    filterResult = filterEngine.applyFilters(tokens);
-                    tokens = filterResult.filteredTokens;
-                    filterTimeMs = Date.now() - filterStart;
-                }
+    /**
+     * Restore dates on persisted provider health
+     */
+    private parseProviderHealth(health: ProviderHealth): ProviderHealth {
+        return {
+            ...health,
+            lastCheck: new Date(health.lastCheck),
+            circuitOpenUntil: health.circuitOpenUntil ? new Date(health.circuitOpenUntil) : undefined,
+        };
+    }
 
-                // Step 4: Cache the results
-                if (cacheResults && tokens.length > 0) {
-                    const cacheStart = Date.now();
-                    await cacheManager.setCollectionTokens(contractAddress, tokens, filterHash);
-                    cacheTimeMs = Date.now() - cacheStart;
-                }
+    /**
+     * Rebuild a stale cache entry without blocking the current request (one rebuild per key at a time)
+     */
+    private revalidateInBackground(cacheKey: string, rebuild: () => Promise<OrchestrationResult>): void {
+        if (this.revalidating.has(cacheKey)) {
+            return;
+        }
 
-                buildTimeMs = Date.now() - startTime;
-                cacheSource = "api";
-            }
+        this.revalidating.add(cacheKey);
+        console.log(`♻️ Serving stale ${cacheKey} - rebuilding in background`);
 
-            // Step 5: Apply pagination
-            const totalItems = tokens.length;
-            const totalPages = Math.ceil(totalItems / pageSize);
-            const startIndex = (page - 1) * pageSize;
-            const endIndex = Math.min(startIndex + pageSize, totalItems);
-            const paginatedTokens = tokens.slice(startIndex, endIndex);
+        rebuild()
+            .catch((error) => console.error(`❌ Background rebuild failed for ${cacheKey}:`, error))
+            .finally(() => this.revalidating.delete(cacheKey));
+    }
 
-            const totalTimeMs = Date.now() - startTime;
+    /**
+     * Merge balance changes since the cached level into cached tokens.
+     * Returns null when a delta isn't possible (no recorded level, provider failure) so the caller rebuilds.
+     */
+    private async mergeBalanceChanges(
+        address: string,
+        cachedTokens: UnifiedToken[],
+        sinceLevel: number | undefined,
+        network: NetworkId
+    ): Promise<{ tokens: UnifiedToken[]; level: number; source: DataSource } | null> {
+        if (sinceLevel === undefined) {
+            console.log(`🔄 No indexed level cached for ${address} - rebuilding instead of delta refresh`);
+            return null;
+        }
 
-            return {
-                tokens: paginatedTokens,
-                pagination: {
-                    currentPage: page,
-                    pageSize,
-                    totalItems,
-                    totalPages,
-                    hasNextPage: page < totalPages,
-                    hasPreviousPage: page > 1,
-                    startIndex,
-                    endIndex: endIndex - 1,
-                },
-                cache: {
-                    hit: cacheHit,
-                    source: cacheSource,
-                    buildTimeMs,
-                    cacheKey: `collection:${contractAddress}:${filterHash}`,
-                },
-                filtering: filterResult,
-                performance: {
-                    totalTimeMs,
-                    fetchTimeMs,
-                    filterTimeMs,
-                    cacheTimeMs,
-                },
-                dataSources: [
-                    {
-                        provider: "tzkt",
-                        version: "1.0",
-                        endpoint: "https://api.tzkt.io",
-                        priority: 1,
-                    },
-                ],
-                fetchedAt: new Date(),
-            };
+        try {
+            const changes = await getProviderOrchestrator(network).getTokenBalanceChanges(address, sinceLevel);
+            const changedIds = new Set([...changes.removedTokenIds, ...changes.updatedTokens.map((token) => token.id)]);
+            const tokens = [...cachedTokens.filter((token) => !changedIds.has(token.id)), ...changes.updatedTokens];
+
+            console.log(
+                `🔄 Delta refresh for ${address}: ${changes.updatedTokens.length} updated, ${changes.removedTokenIds.length} removed (levels ${sinceLevel} → ${changes.level})`
+            );
+
+            return { tokens, level: changes.level, source: changes.source };
         } catch (error) {
-            console.error("Collection orchestration error:", error);
-            throw new Error(
-                `Failed to orchestrate collection data for ${contractAddress}: ${
+            console.warn(
+                `⚠️ Delta refresh failed for ${address}, rebuilding: ${
                     error instanceof Error ? error.message : "Unknown error"
                 }`
             );
+            return null;
         }
     }
 
     /**
-     * Fetch collection tokens directly from TzKT with contract filter (NEW)
+     * Sort tokens chronologically (oldest first - chronological order)
      */
-    private async fetchCollectionTokensViaTzKT(contractAddress: string): Promise<UnifiedToken[]> {
-        // Build URL with contract filter
-        const url = new URL("https://api.tzkt.io/v1/tokens");
-        url.searchParams.set("contract", contractAddress);
-        url.searchParams.set("limit", "10000"); // Max limit to get everything
-
-        try {
-            const response = await fetch(url.toString(), {
-                method: "GET",
-                headers: {
-                    Accept: "application/json",
-                    "User-Agent": "colleKT/1.0",
-                },
-                signal: AbortSignal.timeout(120000), // 2 minutes timeout
-            });
-
-            if (!response.ok) {
-                throw new Error(`TzKT tokens API request failed: ${response.status} ${response.statusText}`);
+    private sortTokensChronologically(tokens: UnifiedToken[]): UnifiedToken[] {
+        return [...tokens].sort((a, b) => {
+            // Primary sort: lastTransferAt (if available) - oldest first
+            if (a.lastTransferAt && b.lastTransferAt) {
+                return new Date(a.lastTransferAt).getTime() - new Date(b.lastTransferAt).getTime();
             }
 
-            const tokens = await response.json();
-
-            // Convert TzKT token format to UnifiedToken format
-            const convertedTokens = tokens
-                .map((tzktToken: any, index: number) => {
-                    try {
-                        return this.convertTzKTTokenToUnified(tzktToken);
-                    } catch (error) {
-                        console.error(`❌ ERROR converting collection token ${index}:`, error);
-                        return null;
-                    }
-                })
-                .filter((token: UnifiedToken | null): token is UnifiedToken => token !== null);
+            // Secondary sort: firstMintAt (if available) - oldest first
+            if (a.firstMintAt && b.firstMintAt) {
+                return new Date(a.firstMintAt).getTime() - new Date(b.firstMintAt).getTime();
+            }
 
-            return convertedTokens;
-        } catch (error) {
-            console.error("❌ Failed to fetch collection tokens from TzKT:", error);
-            throw error;
-        }
+            // Fallback: stable sorting by contract address + token ID (ascending)
+            // This ensures consistent order when timestamps are missing
+            const sortKeyA = a.sortKey || `${a.contractAddress}-${String(a.tokenId).padStart(10, "0")}`;
+            const sortKeyB = b.sortKey || `${b.contractAddress}-${String(b.tokenId).padStart(10, "0")}`;
+            return sortKeyA.localeCompare(sortKeyB);
+        });
     }
 
     /**
-     * Convert TzKT token format to UnifiedToken (for collections)
+     * Data source reported for TzKT-backed galleries until a build names the provider that answered
      */
-    private convertTzKTTokenToUnified(tzktToken: any): UnifiedToken {
-        const metadata: UnifiedMetadata = {
-            name: tzktToken?.metadata?.name || undefined,
-            symbol: tzktToken?.metadata?.symbol || undefined,
-            decimals: tzktToken?.metadata?.decimals ? Number(tzktToken.metadata.decimals) : undefined,
-            description: tzktToken?.metadata?.description || undefined,
-            image: tzktToken?.metadata?.image || undefined,
-            artifactUri: tzktToken?.metadata?.artifactUri || undefined,
-            displayUri: tzktToken?.metadata?.displayUri || undefined,
-            thumbnailUri: tzktToken?.metadata?.thumbnailUri || undefined,
-            supply: tzktToken?.totalSupply || tzktToken?.metadata?.supply || undefined,
-            creators: tzktToken?.metadata?.creators || undefined,
-            attributes: tzktToken?.metadata?.attributes || undefined,
-            formats: tzktToken?.metadata?.formats || undefined,
-            raw: tzktToken?.metadata || undefined,
-        };
+    private tzktDataSource(network: NetworkId): DataSource {
+        return { provider: "tzkt", version: "1.0", endpoint: getNetworkConfig(network).tzktApiUrl, priority: 1 };
+    }
 
-        // Determine token standard
-        let standard: TokenStandard = "unknown";
-        if (tzktToken?.standard) {
-            switch (tzktToken.standard.toLowerCase()) {
-                case "fa2":
-                    standard = "fa2";
-                    break;
-                case "fa1.2":
-                case "fa12":
-                    standard = "fa1.2";
-                    break;
-                default:
-                    standard = "unknown";
-            }
-        }
+    // ===== NEW GALLERY-SPECIFIC METHODS =====
 
-        const now = new Date();
-        const mintTime = tzktToken.firstMinted ? new Date(tzktToken.firstMinted) : now;
-
-        const unifiedToken: UnifiedToken = {
-            id: `${tzktToken?.contract?.address || "unknown"}_${tzktToken?.tokenId || "0"}`,
-            contractAddress: tzktToken?.contract?.address || "unknown",
-            contractAlias: tzktToken?.contract?.alias || undefined,
-            tokenId: tzktToken?.tokenId || "0",
-            balance: "1", // Collections show tokens, not balances
-            standard,
-            metadata,
-            source: {
-                provider: "tzkt",
-                version: "1.0",
-                endpoint: "https://api.tzkt.io",
-                priority: 1,
-            },
-            fetchedAt: now,
-            lastTransferAt: mintTime,
-            firstMintAt: mintTime,
-            isValid: !!(tzktToken?.metadata && tzktToken.contract?.address),
-            hasImage: !!(metadata.image || metadata.artifactUri || metadata.displayUri || metadata.thumbnailUri),
-            hasMetadata: !!tzktToken?.metadata,
+    /**
+     * Get CURATION gallery tokens via objkt → TzKT bridge
+     */
+    async getCurationTokenCollection(options: CurationFetchOptions): Promise<OrchestrationResult> {
+        const { curationId, network = DEFAULT_NETWORK } = options;
+        const networkConfig = getNetworkConfig(network);
+        const bridge: DataSource = {
+            provider: "objkt",
+            version: "1.0",
+            endpoint: `${networkConfig.objktGraphqlUrl} + ${networkConfig.tzktApiUrl}`,
+            priority: 1,
         };
 
-        // Set computed display fields
-        unifiedToken.displayImage =
-            metadata.displayUri || metadata.artifactUri || metadata.image || metadata.thumbnailUri;
-        unifiedToken.displayName = metadata.name || `Token #${unifiedToken.tokenId}`;
+        return this.getGalleryCollection(options, {
+            kind: "curation",
+            identifier: curationId,
+            cacheKey: (filterHash) => curationCollection(curationId, filterHash, network),
+            dataSources: [bridge],
+            reload: (changes) => this.getCurationTokenCollection({ ...options, ...changes }),
+            revalidate: { forceRefresh: true },
+            fetch: async () => {
+                // objkt provides the token IDs, token data comes from the providers with fallback
+                const tokenIds = await getObjktQueries(network).extractCurationTokenIds(curationId);
+                const response = await getProviderOrchestrator(network).getTokensByReferences(
+                    tokenIds.map(({ fa_contract, token_id }) => ({
+                        contractAddress: fa_contract,
+                        tokenId: token_id,
+                    }))
+                );
+                return { tokens: response.tokens, dataSources: [bridge, response.source] };
+            },
+            store: (tokens, { filterHash }) => cacheManager.setCurationTokens(curationId, tokens, filterHash, network),
+        });
+    }
 
-        // Use mint timestamp for sort key
-        unifiedToken.sortKey = mintTime.toISOString();
+    /**
+     * Get COLLECTION gallery tokens via direct TzKT contract filtering
+     */
+    async getCollectionTokenCollection(options: ContractCollectionFetchOptions): Promise<OrchestrationResult> {
+        const { contractAddress, network = DEFAULT_NETWORK } = options;
+
+        return this.getGalleryCollection(options, {
+            kind: "collection",
+            identifier: contractAddress,
+            cacheKey: (filterHash) => contractCollection(contractAddress, filterHash, network),
+            dataSources: [this.tzktDataSource(network)],
+            reload: (changes) => this.getCollectionTokenCollection({ ...options, ...changes }),
+            revalidate: { forceRefresh: true },
+            fetch: async () => {
+                // Fetch contract tokens, falling back across providers
+                const response = await getProviderOrchestrator(network).getContractTokens(contractAddress);
+                return { tokens: response.tokens, dataSources: [response.source] };
+            },
+            store: (tokens, { filterHash }) =>
+                cacheManager.setCollectionTokens(contractAddress, tokens, filterHash, network),
+        });
+    }
 
-        return unifiedToken;
+    /**
+     * Get ARTIST gallery tokens - works created by an address, across all contracts
+     */
+    async getArtistTokenCollection(options: ArtistFetchOptions): Promise<OrchestrationResult> {
+        const { artistAddress, network = DEFAULT_NETWORK } = options;
+
+        return this.getGalleryCollection(options, {
+            kind: "artist",
+            identifier: artistAddress,
+            cacheKey: (filterHash) => artistCollection(artistAddress, filterHash, network),
+            dataSources: [this.tzktDataSource(network)],
+            reload: (changes) => this.getArtistTokenCollection({ ...options, ...changes }),
+            revalidate: { forceRefresh: true },
+            fetch: async () => {
+                // Fetch created tokens, falling back across providers
+                const response = await getProviderOrchestrator(network).getCreatorTokens(artistAddress);
+                return {
+                    tokens: response.tokens,
+                    dataSources: [response.source],
+                    truncated: response.pagination.hasMore,
+                };
+            },
+            store: (tokens, { filterHash, truncated }) =>
+                cacheManager.setArtistTokens(artistAddress, tokens, filterHash, network, { truncated }),
+        });
     }
 }
 
@@ -0,0 +1,458 @@
+/**
+ * Provider Orchestrator - Multi-provider fallback layer
+ *
+ * Runs provider operations against registered DataProviders in priority order
+ * (lowest number first). When a provider fails with a ProviderError, the next
+ * provider is tried; any other error is treated as a bug and rethrown.
+ * Each provider sits behind a circuit breaker, so a failing provider is skipped
+ * for a cooldown window instead of being retried on every request. Only availability
+ * failures (timeouts, network errors, 5xx, 429) count against a breaker.
+ */
+
+import {
+    DataProvider,
+    DomainQueryOptions,
+    MultiProviderOrchestrator,
+    PaginationOptions,
+    ProviderError,
+    ProviderHealth,
+    ProviderQueryOptions,
+    ProviderStatus,
+    TokenBalanceChanges,
+    TokenFilters,
+    TokenReference,
+    UnifiedTokenResponse,
+} from "../sources/provider-interface";
+import { providerFactory } from "../sources/provider-factory";
+import { DEFAULT_TZKT_PROVIDER_CONFIG } from "../sources/tzkt-provider";
+import { DEFAULT_OBJKT_PROVIDER_CONFIG } from "../sources/objkt-provider";
+import { UnifiedDomain, UnifiedToken } from "../types/token-types";
+import { DEFAULT_NETWORK, NetworkId, getNetworkConfig } from "../config/networks";
+import { CircuitBreaker, CircuitStatus, isAvailabilityFailure } from "./circuit-breaker";
+
+/**
+ * Main provider orchestrator class
+ */
+export class ProviderOrchestrator implements MultiProviderOrchestrator {
+    providers: DataProvider[] = [];
+    private breakers = new Map<string, CircuitBreaker>();
+
+    constructor(providers: DataProvider[] = []) {
+        providers.forEach((provider) => this.addProvider(provider));
+    }
+
+    /**
+     * Register a provider, replacing any existing provider with the same name
+     */
+    addProvider(provider: DataProvider): void {
+        this.providers = [...this.providers.filter((p) => p.name !== provider.name), provider].sort(
+            (a, b) => a.priority - b.priority
+        );
+    }
+
+    removeProvider(providerName: string): void {
+        this.providers = this.providers.filter((p) => p.name !== providerName);
+    }
+
+    getProvider(providerName: string): DataProvider | undefined {
+        return this.providers.find((p) => p.name === providerName);
+    }
+
+    async getTokenBalances(
+        address: string,
+        pagination: PaginationOptions,
+        filters?: TokenFilters,
+        options: ProviderQueryOptions = {}
+    ): Promise<UnifiedTokenResponse> {
+        const run = (provider: DataProvider) => provider.getTokenBalances(address, pagination, filters);
+
+        if (options.mergeResults) {
+            return this.mergeTokenResponses("getTokenBalances", run, options);
+        }
+
+        return this.executeWithFallback("getTokenBalances", run, options);
+    }
+
+    async getTokenBalancesCount(
+        address: string,
+        filters?: TokenFilters,
+        options: ProviderQueryOptions = {}
+    ): Promise<number> {
+        return this.executeWithFallback(
+            "getTokenBalancesCount",
+            (provider) => provider.getTokenBalancesCount(address, filters),
+            options
+        );
+    }
+
+    async getContractTokens(
+        contractAddress: string,
+        filters?: TokenFilters,
+        options: ProviderQueryOptions = {}
+    ): Promise<UnifiedTokenResponse> {
+        return this.executeWithFallback(
+            "getContractTokens",
+            (provider) => provider.getContractTokens(contractAddress, filters),
+            options
+        );
+    }
+
+    /**
+     * Tokens created by an address, across all contracts
+     */
+    async getCreatorTokens(creatorAddress: string, options: ProviderQueryOptions = {}): Promise<UnifiedTokenResponse> {
+        return this.executeWithFallback(
+            "getCreatorTokens",
+            (provider) => provider.getCreatorTokens(creatorAddress),
+            options
+        );
+    }
+
+    async getTokensByReferences(
+        references: TokenReference[],
+        options: ProviderQueryOptions = {}
+    ): Promise<UnifiedTokenResponse> {
+        return this.executeWithFallback(
+            "getTokensByReferences",
+            (provider) => provider.getTokensByReferences(references),
+            options
+        );
+    }
+
+    /**
+     * Current indexer level, from the first provider that tracks block levels
+     */
+    async getHeadLevel(options: ProviderQueryOptions = {}): Promise<number> {
+        return this.executeWithFallback("getHeadLevel", (provider) => provider.getHeadLevel!(), options, (provider) =>
+            Boolean(provider.getHeadLevel)
+        );
+    }
+
+    /**
+     * Balance changes since a block level, from the first provider that tracks block levels
+     */
+    async getTokenBalanceChanges(
+        address: string,
+        sinceLevel: number,
+        options: ProviderQueryOptions = {}
+    ): Promise<TokenBalanceChanges> {
+        return this.executeWithFallback(
+            "getTokenBalanceChanges",
+            (provider) => provider.getTokenBalanceChanges!(address, sinceLevel),
+            options,
+            (provider) => Boolean(provider.getTokenBalanceChanges)
+        );
+    }
+
+    async getDomainsByAddress(
+        address: string,
+        queryOptions?: DomainQueryOptions,
+        options: ProviderQueryOptions = {}
+    ): Promise<UnifiedDomain[]> {
+        return this.executeWithFallback(
+            "getDomainsByAddress",
+            (provider) => provider.getDomainsByAddress(address, queryOptions),
+            options
+        );
+    }
+
+    async getDomainsByName(
+        name: string,
+        queryOptions?: DomainQueryOptions,
+        options: ProviderQueryOptions = {}
+    ): Promise<UnifiedDomain[]> {
+        return this.executeWithFallback(
+            "getDomainsByName",
+            (provider) => provider.getDomainsByName(name, queryOptions),
+            options
+        );
+    }
+
+    /**
+     * Health status for every registered provider.
+     * Providers with an open circuit are reported as degraded without being called.
+     */
+    async getProviderHealth(): Promise<Record<string, ProviderHealth>> {
+        const results = await Promise.all(
+            this.providers.map(async (provider) => {
+                const breaker = this.breakerFor(provider);
+
+                if (!breaker.canRequest()) {
+                    const circuit = breaker.getStatus();
+                    const health: ProviderHealth = {
+                        isHealthy: false,
+                        status: "degraded",
+                        lastCheck: new Date(),
+                        errorMessage: circuit.lastError,
+                        circuitState: circuit.state,
+                        circuitOpenUntil: circuit.openUntil,
+                    };
+                    return [provider.name, health] as const;
+                }
+
+                let health: ProviderHealth;
+                try {
+                    health = await provider.healthCheck();
+                } catch (error) {
+                    health = {
+                        isHealthy: false,
+                        lastCheck: new Date(),
+                        errorMessage: error instanceof Error ? error.message : "Unknown error",
+                    };
+                }
+
+                if (health.isHealthy) {
+                    breaker.recordSuccess();
+                } else {
+                    breaker.recordFailure(
+                        new ProviderError(health.errorMessage || "Health check failed", provider.name, "healthCheck")
+                    );
+                }
+
+                const circuit = breaker.getStatus();
+                const status: ProviderStatus = health.isHealthy
+                    ? "healthy"
+                    : circuit.state === "closed"
+                      ? "unhealthy"
+                      : "degraded";
+
+                return [
+                    provider.name,
+                    { ...health, status, circuitState: circuit.state, circuitOpenUntil: circuit.openUntil },
+                ] as const;
+            })
+        );
+
+        return Object.fromEntries(results);
+    }
+
+    /**
+     * Circuit breaker state for every registered provider
+     */
+    getCircuitStatus(): Record<string, CircuitStatus> {
+        return Object.fromEntries(
+            this.providers.map((provider) => [provider.name, this.breakerFor(provider).getStatus()])
+        );
+    }
+
+    /**
+     * Open a provider's circuit until the given time (e.g. adopting state persisted by another instance)
+     */
+    tripCircuit(providerName: string, until: Date, lastError?: string): void {
+        const provider = this.getProvider(providerName);
+        if (provider) {
+            this.breakerFor(provider).trip(until.getTime(), lastError);
+        }
+    }
+
+    /**
+     * Circuit breaker for a provider (created on first use)
+     */
+    private breakerFor(provider: DataProvider): CircuitBreaker {
+        let breaker = this.breakers.get(provider.name);
+        if (!breaker) {
+            breaker = new CircuitBreaker();
+            this.breakers.set(provider.name, breaker);
+        }
+        return breaker;
+    }
+
+    /**
+     * Providers to try for a query: preferred provider first, then the rest by priority
+     */
+    private orderProviders(options: ProviderQueryOptions): DataProvider[] {
+        const { preferredProvider, enableFallback = true } = options;
+        let ordered = [...this.providers];
+
+        if (preferredProvider) {
+            const preferred = this.getProvider(preferredProvider);
+            if (!preferred) {
+                throw new Error(`Unknown provider: ${preferredProvider}`);
+            }
+            ordered = [preferred, ...ordered.filter((p) => p !== preferred)];
+        }
+
+        return enableFallback ? ordered : ordered.slice(0, 1);
+    }
+
+    /**
+     * Report a failed request to a provider's breaker. Only availability failures count; errors the provider
+     * answered with (bad requests, guards like "too many balance changes") still fall back but show the
+     * provider is reachable.
+     */
+    private recordProviderError(breaker: CircuitBreaker, error: ProviderError): void {
+        if (isAvailabilityFailure(error)) {
+            breaker.recordFailure(error);
+        } else {
+            breaker.recordSuccess();
+        }
+    }
+
+    /**
+     * Run an operation against each provider in order until one succeeds.
+     * Providers that don't implement an optional operation are skipped without touching their breaker.
+     */
+    private async executeWithFallback<T>(
+        operation: string,
+        run: (provider: DataProvider) => Promise<T>,
+        options: ProviderQueryOptions,
+        supports: (provider: DataProvider) => boolean = () => true
+    ): Promise<T> {
+        const providers = this.orderProviders(options).filter(supports);
+        if (providers.length === 0) {
+            throw new ProviderError(`No provider supports ${operation}`, "none", operation);
+        }
+
+        const skipped: string[] = [];
+        let lastError: ProviderError | undefined;
+
+        for (const provider of providers) {
+            const breaker = this.breakerFor(provider);
+            if (!breaker.canRequest()) {
+                skipped.push(provider.name);
+                continue;
+            }
+
+            try {
+                const result = await run(provider);
+                breaker.recordSuccess();
+                return result;
+            } catch (error) {
+                if (!(error instanceof ProviderError)) {
+                    throw error;
+                }
+
+                this.recordProviderError(breaker, error);
+                lastError = error;
+                console.warn(`⚠️ Provider ${provider.name} failed during ${operation}: ${error.message}`);
+            }
+        }
+
+        if (!lastError && skipped.length > 0) {
+            throw new ProviderError(
+                `All providers unavailable during ${operation} (circuit open: ${skipped.join(", ")})`,
+                skipped[0],
+                operation
+            );
+        }
+
+        throw new ProviderError(
+            `All providers failed during ${operation}${lastError ? `. Last error: ${lastError.message}` : ""}`,
+            lastError?.provider || "none",
+            operation,
+            lastError,
+            lastError?.statusCode
+        );
+    }
+
+    /**
+     * Query every provider and merge their tokens.
+     * Higher-priority providers win on conflicts; lower-priority providers only fill missing fields.
+     */
+    private async mergeTokenResponses(
+        operation: string,
+        run: (provider: DataProvider) => Promise<UnifiedTokenResponse>,
+        options: ProviderQueryOptions
+    ): Promise<UnifiedTokenResponse> {
+        const startTime = Date.now();
+        const providers = this.orderProviders({ ...options, enableFallback: true }).filter((provider) =>
+            this.breakerFor(provider).canRequest()
+        );
+        const results = await Promise.allSettled(providers.map((provider) => run(provider)));
+
+        const responses: UnifiedTokenResponse[] = [];
+        results.forEach((result, index) => {
+            const breaker = this.breakerFor(providers[index]);
+            if (result.status === "fulfilled") {
+                breaker.recordSuccess();
+                responses.push(result.value);
+            } else if (result.reason instanceof ProviderError) {
+                this.recordProviderError(breaker, result.reason);
+                console.warn(`⚠️ Provider ${providers[index].name} failed during ${operation}: ${result.reason.message}`);
+            } else {
+                throw result.reason;
+            }
+        });
+
+        if (responses.length === 0) {
+            throw new ProviderError(`All providers failed during ${operation}`, "none", operation);
+        }
+
+        const merged = new Map<string, UnifiedToken>();
+        for (const response of responses) {
+            for (const token of response.tokens) {
+                const existing = merged.get(token.id);
+                merged.set(token.id, existing ? this.mergeToken(existing, token) : token);
+            }
+        }
+
+        const [primary] = responses;
+        return {
+            tokens: Array.from(merged.values()),
+            pagination: {
+                ...primary.pagination,
+                hasMore: responses.some((response) => response.pagination.hasMore),
+            },
+            source: primary.source,
+            timing: {
+                fetchedAt: new Date(),
+                duration: Date.now() - startTime,
+            },
+        };
+    }
+
+    /**
+     * Fill fields missing on the primary token from a secondary provider's copy
+     */
+    private mergeToken(primary: UnifiedToken, secondary: UnifiedToken): UnifiedToken {
+        const metadata: Record<string, unknown> = { ...primary.metadata };
+        for (const [key, value] of Object.entries(secondary.metadata)) {
+            if (key !== "raw" && metadata[key] === undefined && value !== undefined) {
+                metadata[key] = value;
+            }
+        }
+
+        return {
+            ...primary,
+            contractAlias: primary.contractAlias || secondary.contractAlias,
+            metadata: metadata as UnifiedToken["metadata"],
+            displayImage: primary.displayImage || secondary.displayImage,
+            hasImage: primary.hasImage || secondary.hasImage,
+            hasMetadata: primary.hasMetadata || secondary.hasMetadata,
+        };
+    }
+}
+
+/**
+ * Build an orchestrator with the built-in providers for a network.
+ * objkt is only registered where objkt.com indexes the network.
+ */
+function createNetworkOrchestrator(network: NetworkId): ProviderOrchestrator {
+    const providers = [providerFactory.createProvider({ ...DEFAULT_TZKT_PROVIDER_CONFIG, network })];
+
+    if (getNetworkConfig(network).objktGraphqlUrl) {
+        providers.push(providerFactory.createProvider({ ...DEFAULT_OBJKT_PROVIDER_CONFIG, network }));
+    }
+
+    return new ProviderOrchestrator(providers);
+}
+
+// Export singleton instance with the built-in providers
+export const providerOrchestrator = createNetworkOrchestrator(DEFAULT_NETWORK);
+
+/**
+ * Per-network orchestrator instances
+ */
+const networkOrchestrators = new Map<NetworkId, ProviderOrchestrator>([[DEFAULT_NETWORK, providerOrchestrator]]);
+
+/**
+ * Get the shared provider orchestrator for a network
+ */
+export function getProviderOrchestrator(network: NetworkId = DEFAULT_NETWORK): ProviderOrchestrator {
+    let orchestrator = networkOrchestrators.get(network);
+    if (!orchestrator) {
+        orchestrator = createNetworkOrchestrator(network);
+        networkOrchestrators.set(network, orchestrator);
+    }
+    return orchestrator;
+}
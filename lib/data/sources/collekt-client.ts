@@ -5,6 +5,14 @@
  * All caching, filtering, and data orchestration happens server-side.
  */
 
+import type { CacheSource, GallerySearchMatch, HoldingsSource } from "../orchestrator/data-orchestrator";
+import type { DataSource, ExcludedToken, UnifiedCollection } from "../types/token-types";
+import type { NetworkId } from "../config/networks";
+import type { FilterOverrides } from "../config/filter-rules";
+import type { GallerySort } from "../utils/token-sort";
+import type { GroupMode } from "../utils/token-group";
+import type { GalleryType } from "../types/gallery-types";
+
 export interface CollektCollectionResponse {
     success: boolean;
     data?: {
@@ -18,12 +26,21 @@ export interface CollektCollectionResponse {
             hasPreviousPage: boolean;
             startIndex: number;
             endIndex: number;
+            roomLabel?: string; // Present for grouped galleries
+            truncated?: boolean; // A provider limit was reached - only part of the collection is shown
         };
+        hiddenTokens?: ExcludedToken[]; // Present when requested with includeHidden
+        search?: {
+            query: string;
+            matches: GallerySearchMatch[];
+        }; // Present when requested with search
         cacheInfo: {
             hit: boolean;
-            source: "cache" | "api" | "hybrid";
+            source: CacheSource;
             buildTimeMs?: number;
+            retryAfterSeconds?: number; // Present when a requested refresh was throttled
         };
+        dataSources?: DataSource[];
         performance: {
             totalTimeMs: number;
             fetchTimeMs?: number;
@@ -33,11 +50,31 @@ export interface CollektCollectionResponse {
     error?: string;
 }
 
+export interface CollektSummaryResponse {
+    success: boolean;
+    data?: {
+        summary: UnifiedCollection; // Dates arrive as ISO strings
+        cacheInfo: {
+            hit: boolean;
+            source: CacheSource;
+        };
+    };
+    error?: string;
+}
+
 export interface CollektCollectionOptions {
     address: string;
     page?: number;
     pageSize?: number;
     forceRefresh?: boolean;
+    deltaRefresh?: boolean;
+    source?: HoldingsSource;
+    network?: NetworkId;
+    filters?: FilterOverrides;
+    includeHidden?: boolean;
+    sort?: GallerySort;
+    search?: string; // Full-text query over the whole gallery
+    group?: GroupMode; // Thematic rooms
 }
 
 export interface CollektCurationOptions {
@@ -45,6 +82,12 @@ export interface CollektCurationOptions {
     page?: number;
     pageSize?: number;
     forceRefresh?: boolean;
+    network?: NetworkId;
+    filters?: FilterOverrides;
+    includeHidden?: boolean;
+    sort?: GallerySort;
+    search?: string; // Full-text query over the whole gallery
+    group?: GroupMode; // Thematic rooms
 }
 
 export interface CollektContractCollectionOptions {
@@ -52,6 +95,51 @@ export interface CollektContractCollectionOptions {
     page?: number;
     pageSize?: number;
     forceRefresh?: boolean;
+    network?: NetworkId;
+    filters?: FilterOverrides;
+    includeHidden?: boolean;
+    sort?: GallerySort;
+    search?: string; // Full-text query over the whole gallery
+    group?: GroupMode; // Thematic rooms
+}
+
+export interface CollektArtistOptions {
+    artistAddress: string;
+    page?: number;
+    pageSize?: number;
+    forceRefresh?: boolean;
+    network?: NetworkId;
+    filters?: FilterOverrides;
+    includeHidden?: boolean;
+    sort?: GallerySort;
+    search?: string; // Full-text query over the whole gallery
+    group?: GroupMode; // Thematic rooms
+}
+
+/**
+ * Add filter overrides to request query parameters
+ */
+function setFilterParams(params: URLSearchParams, filters?: FilterOverrides): void {
+    if (!filters) return;
+
+    if (filters.includeUtility !== undefined) params.set("includeUtility", String(filters.includeUtility));
+    if (filters.includeSpam !== undefined) params.set("includeSpam", String(filters.includeSpam));
+    if (filters.requireImage !== undefined) params.set("requireImage", String(filters.requireImage));
+    if (filters.minBalance !== undefined) params.set("minBalance", String(filters.minBalance));
+    if (filters.blacklist?.length) params.set("blacklist", filters.blacklist.join(","));
+    if (filters.whitelist?.length) params.set("whitelist", filters.whitelist.join(","));
+    if (filters.rules?.length) params.set("rules", JSON.stringify(filters.rules));
+}
+
+/**
+ * Add a room order to request query parameters (the default order needs none)
+ */
+function setSortParams(params: URLSearchParams, sort?: GallerySort): void {
+    if (!sort || sort.mode === "default") return;
+
+    params.set("sort", sort.mode);
+    if (sort.order) params.set("order", sort.order);
+    if (sort.seed) params.set("seed", sort.seed);
 }
 
 /**
@@ -69,7 +157,20 @@ export class CollektClient {
      * Get token collection with server-side caching and filtering (USER galleries)
      */
     async getTokenCollection(options: CollektCollectionOptions): Promise<CollektCollectionResponse> {
-        const { address, page = 1, pageSize = 20, forceRefresh = false } = options;
+        const {
+            address,
+            page = 1,
+            pageSize = 20,
+            forceRefresh = false,
+            deltaRefresh = false,
+            source,
+            network,
+            filters,
+            includeHidden = false,
+            sort,
+            search,
+            group,
+        } = options;
 
         try {
             const params = new URLSearchParams({
@@ -79,6 +180,34 @@ export class CollektClient {
                 forceRefresh: forceRefresh.toString(),
             });
 
+            if (deltaRefresh) {
+                params.set("deltaRefresh", "true");
+            }
+
+            if (source) {
+                params.set("source", source);
+            }
+
+            if (network) {
+                params.set("network", network);
+            }
+
+            setFilterParams(params, filters);
+
+            if (includeHidden) {
+                params.set("includeHidden", "true");
+            }
+
+            setSortParams(params, sort);
+
+            if (search) {
+                params.set("q", search);
+            }
+
+            if (group && group !== "none") {
+                params.set("group", group);
+            }
+
             const response = await fetch(`${this.baseUrl}/api/user?${params}`, {
                 method: "GET",
                 headers: {
@@ -110,7 +239,18 @@ export class CollektClient {
      * Get curation token collection (CURATION galleries)
      */
     async getCurationCollection(options: CollektCurationOptions): Promise<CollektCollectionResponse> {
-        const { curationId, page = 1, pageSize = 20, forceRefresh = false } = options;
+        const {
+            curationId,
+            page = 1,
+            pageSize = 20,
+            forceRefresh = false,
+            network,
+            filters,
+            includeHidden = false,
+            sort,
+            search,
+            group,
+        } = options;
 
         try {
             const params = new URLSearchParams({
@@ -120,6 +260,26 @@ export class CollektClient {
                 forceRefresh: forceRefresh.toString(),
             });
 
+            if (network) {
+                params.set("network", network);
+            }
+
+            setFilterParams(params, filters);
+
+            if (includeHidden) {
+                params.set("includeHidden", "true");
+            }
+
+            setSortParams(params, sort);
+
+            if (search) {
+                params.set("q", search);
+            }
+
+            if (group && group !== "none") {
+                params.set("group", group);
+            }
+
             const response = await fetch(`${this.baseUrl}/api/curation?${params}`, {
                 method: "GET",
                 headers: {
@@ -151,7 +311,18 @@ export class CollektClient {
      * Get contract collection token collection (COLLECTION galleries)
      */
     async getContractCollection(options: CollektContractCollectionOptions): Promise<CollektCollectionResponse> {
-        const { contractAddress, page = 1, pageSize = 20, forceRefresh = false } = options;
+        const {
+            contractAddress,
+            page = 1,
+            pageSize = 20,
+            forceRefresh = false,
+            network,
+            filters,
+            includeHidden = false,
+            sort,
+            search,
+            group,
+        } = options;
 
         try {
             const params = new URLSearchParams({
@@ -161,6 +332,26 @@ export class CollektClient {
                 forceRefresh: forceRefresh.toString(),
             });
 
+            if (network) {
+                params.set("network", network);
+            }
+
+            setFilterParams(params, filters);
+
+            if (includeHidden) {
+                params.set("includeHidden", "true");
+            }
+
+            setSortParams(params, sort);
+
+            if (search) {
+                params.set("q", search);
+            }
+
+            if (group && group !== "none") {
+                params.set("group", group);
+            }
+
             const response = await fetch(`${this.baseUrl}/api/collection?${params}`, {
                 method: "GET",
                 headers: {
@@ -188,6 +379,132 @@ export class CollektClient {
         }
     }
 
+    /**
+     * Get the tokens an artist created (ARTIST galleries)
+     */
+    async getArtistCollection(options: CollektArtistOptions): Promise<CollektCollectionResponse> {
+        const {
+            artistAddress,
+            page = 1,
+            pageSize = 20,
+            forceRefresh = false,
+            network,
+            filters,
+            includeHidden = false,
+            sort,
+            search,
+            group,
+        } = options;
+
+        try {
+            const params = new URLSearchParams({
+                address: artistAddress,
+                page: page.toString(),
+                pageSize: pageSize.toString(),
+                forceRefresh: forceRefresh.toString(),
+            });
+
+            if (network) {
+                params.set("network", network);
+            }
+
+            setFilterParams(params, filters);
+
+            if (includeHidden) {
+                params.set("includeHidden", "true");
+            }
+
+            setSortParams(params, sort);
+
+            if (search) {
+                params.set("q", search);
+            }
+
+            if (group && group !== "none") {
+                params.set("group", group);
+            }
+
+            const response = await fetch(`${this.baseUrl}/api/artist?${params}`, {
+                method: "GET",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+            });
+
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+
+            const result: CollektCollectionResponse = await response.json();
+
+            if (!result.success) {
+                throw new Error(result.error || "Unknown API error");
+            }
+
+            return result;
+        } catch (error) {
+            console.error("ColleKT Artist API error:", error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            };
+        }
+    }
+
+    /**
+     * Get overview stats of a gallery's filtered tokens (any gallery type)
+     */
+    async getGallerySummary(
+        galleryType: GalleryType,
+        identifier: string,
+        options: { network?: NetworkId; filters?: FilterOverrides } = {}
+    ): Promise<CollektSummaryResponse> {
+        const { network, filters } = options;
+        const [path, param] =
+            galleryType === "CURATION"
+                ? ["curation", "curationId"]
+                : galleryType === "COLLECTION"
+                ? ["collection", "contractAddress"]
+                : galleryType === "ARTIST"
+                ? ["artist", "address"]
+                : ["user", "address"];
+
+        try {
+            const params = new URLSearchParams({ [param]: identifier });
+
+            if (network) {
+                params.set("network", network);
+            }
+
+            setFilterParams(params, filters);
+
+            const response = await fetch(`${this.baseUrl}/api/${path}/summary?${params}`, {
+                method: "GET",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+            });
+
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+
+            const result: CollektSummaryResponse = await response.json();
+
+            if (!result.success) {
+                throw new Error(result.error || "Unknown API error");
+            }
+
+            return result;
+        } catch (error) {
+            console.error("ColleKT summary API error:", error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            };
+        }
+    }
+
     /**
      * Health check for the API
      */
@@ -8,6 +8,10 @@
  * - Logging for debugging
  */
 
+import { DEFAULT_NETWORK, NetworkId, getNetworkConfig } from "../config/networks";
+import { ProviderRateLimitError } from "./provider-interface";
+import { TokenBucketRateLimiter, getRateLimiter } from "./rate-limiter";
+
 /**
  * Configuration options for the Objkt client
  */
@@ -120,16 +124,18 @@ export class ObjktTimeoutError extends ObjktError {
  */
 export class ObjktClient {
     private config: Required<ObjktClientConfig>;
+    private limiter: TokenBucketRateLimiter;
 
     constructor(config: ObjktClientConfig = {}) {
         this.config = {
-            endpoint: "https://data.objkt.com/v3/graphql",
+            endpoint: getNetworkConfig(DEFAULT_NETWORK).objktGraphqlUrl!,
             maxRetries: 3,
             retryDelayMs: 1000,
             enableLogging: true,
             timeout: 30000, // 30 seconds
             ...config,
         };
+        this.limiter = getRateLimiter("objkt", this.config.endpoint);
     }
 
     /**
@@ -216,7 +222,11 @@ export class ObjktClient {
                 this.log("warn", `${operation} - Failed attempt ${attempt}`, error);
 
                 // Don't retry on certain error types
-                if (error instanceof ObjktRateLimitError || error instanceof ObjktTimeoutError) {
+                if (
+                    error instanceof ProviderRateLimitError ||
+                    error instanceof ObjktRateLimitError ||
+                    error instanceof ObjktTimeoutError
+                ) {
                     throw error;
                 }
 
@@ -247,7 +257,8 @@ export class ObjktClient {
         const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
 
         try {
-            const response = await fetch(this.config.endpoint, {
+            // Rate limited (429s pause the shared limiter and raise ProviderRateLimitError)
+            const response = await this.limiter.request("query", this.config.endpoint, {
                 method: "POST",
                 headers: {
                     "Content-Type": "application/json",
@@ -262,13 +273,6 @@ export class ObjktClient {
 
             clearTimeout(timeoutId);
 
-            // Handle rate limiting
-            if (response.status === 429) {
-                const retryAfter = response.headers.get("Retry-After");
-                const retryAfterSeconds = retryAfter ? parseInt(retryAfter, 10) : undefined;
-                throw new ObjktRateLimitError("query", retryAfterSeconds);
-            }
-
             // Handle other HTTP errors
             if (!response.ok) {
                 throw new ObjktError(
@@ -338,6 +342,27 @@ export class ObjktClient {
  */
 export const objktClient = new ObjktClient();
 
+/**
+ * Per-network client instances
+ */
+const networkClients = new Map<NetworkId, ObjktClient>([[DEFAULT_NETWORK, objktClient]]);
+
+/**
+ * Get the shared client for a network
+ */
+export function getObjktClient(network: NetworkId = DEFAULT_NETWORK): ObjktClient {
+    let client = networkClients.get(network);
+    if (!client) {
+        const endpoint = getNetworkConfig(network).objktGraphqlUrl;
+        if (!endpoint) {
+            throw new ObjktError(`objkt.com data is not available on ${network}`, "getObjktClient");
+        }
+        client = objktClient.withConfig({ endpoint });
+        networkClients.set(network, client);
+    }
+    return client;
+}
+
 /**
  * Create a new client instance with custom configuration
  */
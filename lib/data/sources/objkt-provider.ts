@@ -0,0 +1,625 @@
+/**
+ * Objkt Provider
+ *
+ * DataProvider adapter for the objkt.com GraphQL API:
+ * - Wallet holdings via token_holder
+ * - Contract, creator and token-set lookups via token
+ * - Domain lookups via holder.tzdomain
+ *
+ * Maps objkt client errors onto ProviderError types so the provider orchestrator can fall back.
+ */
+
+import { objktClient, ObjktClient, ObjktRateLimitError, ObjktTimeoutError } from "./objkt-client";
+import { getRateLimiter } from "./rate-limiter";
+import {
+    DataProvider,
+    DomainQueryOptions,
+    PaginationOptions,
+    ProviderConfig,
+    ProviderError,
+    ProviderHealth,
+    ProviderRateLimitError,
+    ProviderTimeoutError,
+    TokenFilters,
+    TokenReference,
+    UnifiedTokenResponse,
+} from "./provider-interface";
+import { DataSource, UnifiedDomain, UnifiedMetadata, UnifiedToken } from "../types/token-types";
+import { isValidContractAddress, isValidTezosAddress } from "../types/gallery-types";
+import { DEFAULT_NETWORK, getNetworkConfig } from "../config/networks";
+
+/**
+ * Default objkt provider configuration
+ */
+export const DEFAULT_OBJKT_PROVIDER_CONFIG: ProviderConfig = {
+    name: "objkt",
+    priority: 2,
+    maxRetries: 3,
+    retryDelayMs: 1000,
+    enableLogging: true,
+    timeoutMs: 30000,
+    rateLimit: {
+        requestsPerSecond: 5,
+        burstSize: 10,
+    },
+};
+
+/**
+ * objkt caps result sets per query, so larger requests are paged
+ */
+const OBJKT_PAGE_SIZE = 500;
+
+/**
+ * Maximum tokens fetched per creator (larger catalogues are reported through pagination.hasMore)
+ */
+const CREATOR_LIMIT = 10000;
+
+/**
+ * Token fields shared by every token query
+ */
+const TOKEN_FIELDS = `
+    fa_contract
+    token_id
+    name
+    description
+    decimals
+    supply
+    artifact_uri
+    display_uri
+    thumbnail_uri
+    mime
+    formats
+    timestamp
+    fa {
+      name
+    }
+    creators {
+      creator_address
+      holder {
+        alias
+        tzdomain
+      }
+    }
+    tags {
+      tag {
+        name
+      }
+    }
+    attributes {
+      attribute {
+        name
+        value
+      }
+    }
+`;
+
+const HOLDER_TOKENS_QUERY = `
+  query GetHolderTokens($where: token_holder_bool_exp!, $limit: Int!, $offset: Int!) {
+    token_holder(
+      where: $where
+      order_by: {last_incremented_at: asc}
+      limit: $limit
+      offset: $offset
+    ) {
+      quantity
+      last_incremented_at
+      token {
+        ${TOKEN_FIELDS}
+      }
+    }
+  }
+`;
+
+const HOLDER_TOKEN_KEYS_QUERY = `
+  query GetHolderTokenKeys($where: token_holder_bool_exp!, $limit: Int!, $offset: Int!) {
+    token_holder(where: $where, limit: $limit, offset: $offset) {
+      token_pk
+    }
+  }
+`;
+
+const CONTRACT_TOKENS_QUERY = `
+  query GetContractTokens($contract: String!, $limit: Int!, $offset: Int!) {
+    token(
+      where: {fa_contract: {_eq: $contract}, supply: {_gt: "0"}}
+      order_by: {timestamp: asc}
+      limit: $limit
+      offset: $offset
+    ) {
+      ${TOKEN_FIELDS}
+    }
+  }
+`;
+
+const CREATOR_TOKENS_QUERY = `
+  query GetCreatorTokens($creator: String!, $limit: Int!, $offset: Int!) {
+    token(
+      where: {creators: {creator_address: {_eq: $creator}}, supply: {_gt: "0"}}
+      order_by: {timestamp: asc}
+      limit: $limit
+      offset: $offset
+    ) {
+      ${TOKEN_FIELDS}
+    }
+  }
+`;
+
+const TOKENS_BY_IDS_QUERY = `
+  query GetTokensByIds($contract: String!, $tokenIds: [String!]!) {
+    token(where: {fa_contract: {_eq: $contract}, token_id: {_in: $tokenIds}}) {
+      ${TOKEN_FIELDS}
+    }
+  }
+`;
+
+const HOLDER_BY_ADDRESS_QUERY = `
+  query GetHolderByAddress($address: String!) {
+    holder(where: {address: {_eq: $address}}) {
+      address
+      tzdomain
+    }
+  }
+`;
+
+const HOLDER_BY_DOMAIN_QUERY = `
+  query GetHolderByDomain($name: String!, $limit: Int!) {
+    holder(where: {tzdomain: {_eq: $name}}, limit: $limit) {
+      address
+      tzdomain
+    }
+  }
+`;
+
+/**
+ * objkt implementation of the DataProvider contract
+ */
+export class ObjktProvider implements DataProvider {
+    readonly name: string;
+    readonly priority: number;
+    readonly config: ProviderConfig;
+
+    private client: ObjktClient;
+
+    constructor(config: Partial<ProviderConfig> = {}, client?: ObjktClient) {
+        this.config = { ...DEFAULT_OBJKT_PROVIDER_CONFIG, ...config };
+        this.name = this.config.name;
+        this.priority = this.config.priority;
+
+        const network = this.config.network || DEFAULT_NETWORK;
+        const endpoint = this.config.baseUrl || getNetworkConfig(network).objktGraphqlUrl;
+        if (!client && !endpoint) {
+            throw new Error(`objkt.com data is not available on ${network}`);
+        }
+
+        this.client =
+            client ||
+            objktClient.withConfig({
+                endpoint,
+                timeout: this.config.timeoutMs,
+                maxRetries: this.config.maxRetries,
+                retryDelayMs: this.config.retryDelayMs,
+                enableLogging: this.config.enableLogging,
+            });
+
+        // Apply this provider's limits to the endpoint's shared limiter (used by the client)
+        if (this.config.rateLimit) {
+            getRateLimiter("objkt", this.client.getConfig().endpoint, this.config.rateLimit);
+        }
+    }
+
+    /**
+     * Data source descriptor attached to every token from this provider
+     */
+    get dataSource(): DataSource {
+        return {
+            provider: "objkt",
+            version: "3.0",
+            endpoint: this.client.getConfig().endpoint,
+            priority: this.priority,
+        };
+    }
+
+    async healthCheck(): Promise<ProviderHealth> {
+        const startTime = Date.now();
+        const isHealthy = await this.client.healthCheck();
+
+        return {
+            isHealthy,
+            responseTime: Date.now() - startTime,
+            lastCheck: new Date(),
+            errorMessage: isHealthy ? undefined : "objkt GraphQL health check failed",
+        };
+    }
+
+    async getDomainsByAddress(address: string, options: DomainQueryOptions = {}): Promise<UnifiedDomain[]> {
+        const data = await this.query<{ holder: ObjktHolder[] }>("getDomainsByAddress", HOLDER_BY_ADDRESS_QUERY, {
+            address,
+        });
+
+        return (data.holder || [])
+            .filter((holder) => !!holder.tzdomain)
+            .slice(0, options.limit ?? 1)
+            .map((holder) => this.convertDomain(holder));
+    }
+
+    async getDomainsByName(name: string, options: DomainQueryOptions = {}): Promise<UnifiedDomain[]> {
+        const data = await this.query<{ holder: ObjktHolder[] }>("getDomainsByName", HOLDER_BY_DOMAIN_QUERY, {
+            name,
+            limit: options.limit ?? 1,
+        });
+
+        return (data.holder || []).map((holder) => this.convertDomain(holder));
+    }
+
+    /**
+     * objkt does not expose aggregates publicly, so holdings are counted by paging token keys
+     */
+    async getTokenBalancesCount(address: string, filters: TokenFilters = {}): Promise<number> {
+        const where = this.transformFilters({ balanceGt: "0", ...filters, holderAddress: address });
+        let count = 0;
+        let offset = 0;
+
+        while (true) {
+            const data = await this.query<{ token_holder: unknown[] }>(
+                "getTokenBalancesCount",
+                HOLDER_TOKEN_KEYS_QUERY,
+                { where, limit: OBJKT_PAGE_SIZE, offset }
+            );
+            const page = data.token_holder || [];
+            count += page.length;
+            offset += page.length;
+
+            if (page.length < OBJKT_PAGE_SIZE) {
+                return count;
+            }
+        }
+    }
+
+    async getTokenBalances(
+        address: string,
+        pagination: PaginationOptions,
+        filters: TokenFilters = {}
+    ): Promise<UnifiedTokenResponse> {
+        const startTime = Date.now();
+        const where = this.transformFilters({ balanceGt: "0", ...filters, holderAddress: address });
+
+        const holdings = await this.queryPaged<ObjktTokenHolder>(
+            "getTokenBalances",
+            HOLDER_TOKENS_QUERY,
+            { where },
+            "token_holder",
+            pagination
+        );
+
+        const tokens = this.convertAll(holdings, (holding) =>
+            this.convertToken(holding.token, holding.quantity, holding.last_incremented_at)
+        );
+
+        return {
+            tokens,
+            pagination: {
+                offset: pagination.offset,
+                limit: pagination.limit,
+                hasMore: holdings.length >= pagination.limit,
+            },
+            source: this.dataSource,
+            timing: {
+                fetchedAt: new Date(),
+                duration: Date.now() - startTime,
+            },
+        };
+    }
+
+    async getContractTokens(contractAddress: string): Promise<UnifiedTokenResponse> {
+        const startTime = Date.now();
+
+        const rawTokens = await this.queryPaged<ObjktToken>(
+            "getContractTokens",
+            CONTRACT_TOKENS_QUERY,
+            { contract: contractAddress },
+            "token",
+            { offset: 0, limit: Number.MAX_SAFE_INTEGER }
+        );
+
+        const tokens = this.convertAll(rawTokens, (token) => this.convertToken(token, "1"));
+
+        return {
+            tokens,
+            pagination: { offset: 0, limit: tokens.length, total: tokens.length, hasMore: false },
+            source: this.dataSource,
+            timing: {
+                fetchedAt: new Date(),
+                duration: Date.now() - startTime,
+            },
+        };
+    }
+
+    async getCreatorTokens(creatorAddress: string): Promise<UnifiedTokenResponse> {
+        const startTime = Date.now();
+
+        const rawTokens = await this.queryPaged<ObjktToken>(
+            "getCreatorTokens",
+            CREATOR_TOKENS_QUERY,
+            { creator: creatorAddress },
+            "token",
+            { offset: 0, limit: CREATOR_LIMIT + 1 } // One extra token tells a capped catalogue from a full one
+        );
+
+        const hasMore = rawTokens.length > CREATOR_LIMIT;
+        const tokens = this.convertAll(rawTokens.slice(0, CREATOR_LIMIT), (token) => this.convertToken(token, "1"));
+
+        return {
+            tokens,
+            pagination: { offset: 0, limit: CREATOR_LIMIT, total: hasMore ? undefined : tokens.length, hasMore },
+            source: this.dataSource,
+            timing: {
+                fetchedAt: new Date(),
+                duration: Date.now() - startTime,
+            },
+        };
+    }
+
+    async getTokensByReferences(references: TokenReference[]): Promise<UnifiedTokenResponse> {
+        const startTime = Date.now();
+        const tokensByContract = new Map<string, string[]>();
+
+        for (const { contractAddress, tokenId } of references) {
+            if (!tokensByContract.has(contractAddress)) {
+                tokensByContract.set(contractAddress, []);
+            }
+            tokensByContract.get(contractAddress)!.push(tokenId);
+        }
+
+        const tokens: UnifiedToken[] = [];
+
+        for (const [contractAddress, tokenIds] of tokensByContract) {
+            const data = await this.query<{ token: ObjktToken[] }>("getTokensByReferences", TOKENS_BY_IDS_QUERY, {
+                contract: contractAddress,
+                tokenIds,
+            });
+
+            tokens.push(...this.convertAll(data.token || [], (token) => this.convertToken(token, "1")));
+        }
+
+        return {
+            tokens,
+            pagination: { offset: 0, limit: references.length, total: tokens.length, hasMore: false },
+            source: this.dataSource,
+            timing: {
+                fetchedAt: new Date(),
+                duration: Date.now() - startTime,
+            },
+        };
+    }
+
+    validateAddress(address: string): boolean {
+        return isValidTezosAddress(address) || isValidContractAddress(address);
+    }
+
+    /**
+     * Convert TokenFilters into a token_holder where clause
+     */
+    transformFilters(filters: TokenFilters & { holderAddress?: string }): Record<string, any> {
+        const where: Record<string, any> = {};
+        const tokenWhere: Record<string, any> = {};
+
+        if (filters.holderAddress) {
+            where.holder_address = { _eq: filters.holderAddress };
+        }
+        if (filters.balanceGt !== undefined) {
+            where.quantity = { _gt: filters.balanceGt };
+        }
+        if (filters.contractWhitelist && filters.contractWhitelist.length > 0) {
+            tokenWhere.fa_contract = { _in: filters.contractWhitelist };
+        } else if (filters.contractBlacklist && filters.contractBlacklist.length > 0) {
+            tokenWhere.fa_contract = { _nin: filters.contractBlacklist };
+        }
+        if (filters.requireImage) {
+            tokenWhere.display_uri = { _is_null: false };
+        }
+        if (filters.requireName) {
+            tokenWhere.name = { _is_null: false };
+        }
+        if (Object.keys(tokenWhere).length > 0) {
+            where.token = tokenWhere;
+        }
+
+        return where;
+    }
+
+    /**
+     * Run a query that returns a single list field, paging through objkt's result cap
+     */
+    private async queryPaged<T>(
+        operation: string,
+        query: string,
+        variables: Record<string, any>,
+        field: string,
+        pagination: PaginationOptions
+    ): Promise<T[]> {
+        const results: T[] = [];
+        let offset = pagination.offset;
+
+        while (results.length < pagination.limit) {
+            const limit = Math.min(OBJKT_PAGE_SIZE, pagination.limit - results.length);
+            const data = await this.query<Record<string, T[]>>(operation, query, { ...variables, limit, offset });
+            const page = data[field] || [];
+
+            results.push(...page);
+            offset += page.length;
+
+            if (page.length < limit) {
+                break;
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Execute a query, raising provider errors on failure
+     */
+    private async query<T>(operation: string, query: string, variables: Record<string, any>): Promise<T> {
+        try {
+            const response = await this.client.query<T>(query, variables, `ObjktProvider.${operation}`);
+            return response.data;
+        } catch (error) {
+            throw this.toProviderError(operation, error);
+        }
+    }
+
+    /**
+     * Normalize any thrown value into a ProviderError
+     */
+    private toProviderError(operation: string, error: unknown): ProviderError {
+        if (error instanceof ProviderError) {
+            return error;
+        }
+        if (error instanceof ObjktTimeoutError) {
+            return new ProviderTimeoutError(this.name, operation, this.client.getConfig().timeout);
+        }
+        if (error instanceof ObjktRateLimitError) {
+            return new ProviderRateLimitError(this.name, operation);
+        }
+
+        const originalError = error instanceof Error ? error : new Error(String(error));
+        return new ProviderError(
+            `objkt ${operation} failed: ${originalError.message}`,
+            this.name,
+            operation,
+            originalError,
+            (originalError as any).statusCode
+        );
+    }
+
+    /**
+     * Convert a list of raw items, skipping any that fail conversion
+     */
+    private convertAll<T>(items: T[], convert: (item: T) => UnifiedToken): UnifiedToken[] {
+        return items
+            .map((item, index) => {
+                try {
+                    return convert(item);
+                } catch (error) {
+                    if (this.config.enableLogging) {
+                        console.error(`❌ ERROR converting objkt token ${index}:`, error);
+                    }
+                    return null;
+                }
+            })
+            .filter((token): token is UnifiedToken => token !== null);
+    }
+
+    /**
+     * Convert an objkt token into UnifiedToken format
+     */
+    private convertToken(token: ObjktToken, balance: string, collectedAt?: string | null): UnifiedToken {
+        const formats =
+            Array.isArray(token.formats) && token.formats.length > 0
+                ? token.formats
+                : token.mime && token.artifact_uri
+                ? [{ uri: token.artifact_uri, mimeType: token.mime }]
+                : undefined;
+
+        const metadata: UnifiedMetadata = {
+            name: token.name || undefined,
+            description: token.description || undefined,
+            decimals: token.decimals ?? undefined,
+            artifactUri: token.artifact_uri || undefined,
+            displayUri: token.display_uri || undefined,
+            thumbnailUri: token.thumbnail_uri || undefined,
+            supply: token.supply ?? undefined,
+            creators: token.creators?.map((creator) => creator.creator_address) || undefined,
+            creatorProfiles:
+                token.creators?.map((creator) => ({
+                    address: creator.creator_address,
+                    alias: creator.holder?.alias || undefined,
+                    domain: creator.holder?.tzdomain || undefined,
+                })) || undefined,
+            tags: token.tags?.map((tag) => tag.tag.name) || undefined,
+            attributes:
+                token.attributes?.map(({ attribute }) => ({
+                    trait_type: attribute.name,
+                    value: attribute.value,
+                })) || undefined,
+            formats,
+            raw: token as unknown as Record<string, any>,
+        };
+
+        const mintTime = token.timestamp ? new Date(token.timestamp) : new Date();
+        const collectionTime = collectedAt ? new Date(collectedAt) : mintTime;
+        const hasMetadata = !!(token.name || token.artifact_uri || token.display_uri);
+
+        const unifiedToken: UnifiedToken = {
+            id: `${token.fa_contract}_${token.token_id}`,
+            contractAddress: token.fa_contract,
+            contractAlias: token.fa?.name || undefined,
+            tokenId: token.token_id,
+            balance: balance || "0",
+            standard: "fa2", // objkt only indexes FA2 tokens
+            metadata,
+            source: this.dataSource,
+            fetchedAt: new Date(),
+            lastTransferAt: collectionTime,
+            firstMintAt: mintTime,
+            isValid: hasMetadata && !!token.fa_contract,
+            hasImage: !!(metadata.artifactUri || metadata.displayUri || metadata.thumbnailUri),
+            hasMetadata,
+        };
+
+        // Set computed display fields
+        unifiedToken.displayImage = metadata.displayUri || metadata.artifactUri || metadata.thumbnailUri;
+        unifiedToken.displayName = metadata.name || `Token #${unifiedToken.tokenId}`;
+        unifiedToken.sortKey = collectionTime.toISOString();
+
+        return unifiedToken;
+    }
+
+    private convertDomain(holder: ObjktHolder): UnifiedDomain {
+        return {
+            name: holder.tzdomain || "",
+            ownerAddress: holder.address,
+            resolvedAddress: holder.address,
+            isPrimary: true,
+            isReverse: true,
+            source: this.dataSource,
+            fetchedAt: new Date(),
+        };
+    }
+}
+
+/**
+ * Raw objkt response shapes
+ */
+interface ObjktToken {
+    fa_contract: string;
+    token_id: string;
+    name?: string | null;
+    description?: string | null;
+    decimals?: number | null;
+    supply?: number | string | null;
+    artifact_uri?: string | null;
+    display_uri?: string | null;
+    thumbnail_uri?: string | null;
+    mime?: string | null;
+    formats?: UnifiedMetadata["formats"] | null;
+    timestamp?: string | null;
+    fa?: { name?: string | null } | null;
+    creators?: Array<{
+        creator_address: string;
+        holder?: { alias?: string | null; tzdomain?: string | null } | null;
+    }> | null;
+    tags?: Array<{ tag: { name: string } }> | null;
+    attributes?: Array<{ attribute: { name: string; value: string } }> | null;
+}
+
+interface ObjktTokenHolder {
+    quantity: string;
+    last_incremented_at?: string | null;
+    token: ObjktToken;
+}
+
+interface ObjktHolder {
+    address: string;
+    tzdomain?: string | null;
+}
@@ -10,7 +10,10 @@
  * while leveraging objkt.com's curation data.
  */
 
-import { objktClient } from "./objkt-client";
+import { ObjktClient, getObjktClient } from "./objkt-client";
+import { ProviderRateLimitError } from "./provider-interface";
+import { TokenBucketRateLimiter, getRateLimiter } from "./rate-limiter";
+import { DEFAULT_NETWORK, NetworkId, getNetworkConfig } from "../config/networks";
 import { UnifiedToken, UnifiedMetadata, TokenStandard, DataSource } from "../types/token-types";
 
 /**
@@ -152,6 +155,28 @@ const CURATION_METADATA_BY_GALLERY_ID_QUERY = `
  * Main objkt-queries class
  */
 export class ObjktQueries {
+    constructor(private readonly network: NetworkId = DEFAULT_NETWORK) {}
+
+    /**
+     * objkt client for this network (resolved lazily - custom networks have no objkt API)
+     */
+    private get client(): ObjktClient {
+        return getObjktClient(this.network);
+    }
+
+    /**
+     * TzKT API base URL for this network
+     */
+    private get tzktApiUrl(): string {
+        return getNetworkConfig(this.network).tzktApiUrl;
+    }
+
+    /**
+     * Rate limiter shared with the TzKT SDK client and provider
+     */
+    private get tzktLimiter(): TokenBucketRateLimiter {
+        return getRateLimiter("tzkt", this.tzktApiUrl);
+    }
     /**
      * Extract token identifiers from objkt.com curation
      * Step 1 of the objkt → TzKT bridge
@@ -165,14 +190,14 @@ export class ObjktQueries {
             let response;
             if (isSlug) {
                 // Use slug for 8-character hex identifiers
-                response = await objktClient.query(
+                response = await this.client.query(
                     CURATION_TOKEN_IDS_BY_SLUG_QUERY,
                     { slug: curationId },
                     "ExtractCurationTokenIdsBySlug"
                 );
             } else {
                 // Use gallery_id for full UUID identifiers
-                response = await objktClient.query(
+                response = await this.client.query(
                     CURATION_TOKEN_IDS_BY_GALLERY_ID_QUERY,
                     { gallery_id: curationId },
                     "ExtractCurationTokenIdsByGalleryId"
@@ -237,18 +262,22 @@ export class ObjktQueries {
                     console.log(`🔄 Fetching contract ${contractAddress} (need ${tokenIdList.length} specific tokens)`);
 
                     // Use TzKT tokens endpoint with contract filter (like data orchestrator)
-                    const url = new URL("https://api.tzkt.io/v1/tokens");
+                    const url = new URL(`${this.tzktApiUrl}/v1/tokens`);
                     url.searchParams.set("contract", contractAddress);
                     url.searchParams.set("limit", "10000"); // Get all tokens for this contract
 
-                    const response = await fetch(url.toString(), {
-                        method: "GET",
-                        headers: {
-                            Accept: "application/json",
-                            "User-Agent": "colleKT/1.0",
-                        },
-                        signal: AbortSignal.timeout(60000), // 60 second timeout for batch
-                    });
+                    const response = await this.tzktLimiter.request(
+                        `tokens(${contractAddress})`,
+                        url.toString(),
+                        {
+                            method: "GET",
+                            headers: {
+                                Accept: "application/json",
+                                "User-Agent": "colleKT/1.0",
+                            },
+                            signal: AbortSignal.timeout(60000), // 60 second timeout for batch
+                        }
+                    );
 
                     if (!response.ok) {
                         console.warn(
@@ -288,6 +317,10 @@ export class ObjktQueries {
                         `✅ Successfully converted ${convertedTokens.length} tokens from contract ${contractAddress}`
                     );
                 } catch (error) {
+                    // Stop hammering TzKT once it starts rate limiting
+                    if (error instanceof ProviderRateLimitError) {
+                        throw error;
+                    }
                     console.error(`❌ Failed to fetch tokens for contract ${contractAddress}:`, error);
                     continue;
                 }
@@ -305,6 +338,9 @@ export class ObjktQueries {
             return allTokens;
         } catch (error) {
             console.error(`❌ Failed to fetch curation tokens via TzKT bridge:`, error);
+            if (error instanceof ProviderRateLimitError) {
+                throw error;
+            }
             throw new Error(
                 `Failed to fetch tokens via TzKT bridge: ${error instanceof Error ? error.message : "Unknown error"}`
             );
@@ -324,14 +360,14 @@ export class ObjktQueries {
             let response;
             if (isSlug) {
                 // Use slug for 8-character hex identifiers
-                response = await objktClient.query(
+                response = await this.client.query(
                     CURATION_METADATA_BY_SLUG_QUERY,
                     { slug: curationId },
                     "GetCurationMetadataBySlug"
                 );
             } else {
                 // Use gallery_id for full UUID identifiers
-                response = await objktClient.query(
+                response = await this.client.query(
                     CURATION_METADATA_BY_GALLERY_ID_QUERY,
                     { gallery_id: curationId },
                     "GetCurationMetadataByGalleryId"
@@ -406,14 +442,14 @@ export class ObjktQueries {
     async fetchCollectionTokensViaTzKT(contractAddress: string): Promise<UnifiedToken[]> {
         try {
             // Use tokens/balances endpoint to get active tokens only (excludes burned)
-            const url = new URL("https://api.tzkt.io/v1/tokens/balances");
+            const url = new URL(`${this.tzktApiUrl}/v1/tokens/balances`);
             url.searchParams.set("token.contract", contractAddress);
             url.searchParams.set("balance.gt", "0"); // Only tokens with balance > 0
             url.searchParams.set("limit", "10000"); // Max limit to get everything
 
             console.log(`📊 Fetching collection ${contractAddress} with burn filtering...`);
 
-            const response = await fetch(url.toString(), {
+            const response = await this.tzktLimiter.request(`collection(${contractAddress})`, url.toString(), {
                 method: "GET",
                 headers: {
                     Accept: "application/json",
@@ -536,7 +572,7 @@ export class ObjktQueries {
             source: {
                 provider: "tzkt",
                 version: "1.0",
-                endpoint: "https://api.tzkt.io",
+                endpoint: this.tzktApiUrl,
                 priority: 1,
             },
             fetchedAt: now,
@@ -562,6 +598,23 @@ export class ObjktQueries {
 // Export singleton instance
 export const objktQueries = new ObjktQueries();
 
+/**
+ * Per-network query instances
+ */
+const networkQueries = new Map<NetworkId, ObjktQueries>([[DEFAULT_NETWORK, objktQueries]]);
+
+/**
+ * Get the shared query instance for a network
+ */
+export function getObjktQueries(network: NetworkId = DEFAULT_NETWORK): ObjktQueries {
+    let queries = networkQueries.get(network);
+    if (!queries) {
+        queries = new ObjktQueries(network);
+        networkQueries.set(network, queries);
+    }
+    return queries;
+}
+
 // Export convenience functions for use in data orchestrator
 export async function fetchCurationTokens(curationId: string): Promise<UnifiedToken[]> {
     const result = await objktQueries.fetchCurationTokensComplete(curationId);
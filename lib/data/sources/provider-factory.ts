@@ -0,0 +1,32 @@
+/**
+ * Provider Factory
+ *
+ * Creates DataProvider instances from ProviderConfig by provider name.
+ */
+
+import { DataProvider, ProviderConfig, ProviderFactory } from "./provider-interface";
+import { TzktProvider } from "./tzkt-provider";
+import { ObjktProvider } from "./objkt-provider";
+
+/**
+ * Default factory for the built-in providers
+ */
+export class DefaultProviderFactory implements ProviderFactory {
+    createProvider(config: ProviderConfig): DataProvider {
+        switch (config.name) {
+            case "tzkt":
+                return new TzktProvider(config);
+            case "objkt":
+                return new ObjktProvider(config);
+            default:
+                throw new Error(`Unknown provider: ${config.name}`);
+        }
+    }
+
+    getSupportedProviders(): string[] {
+        return ["tzkt", "objkt"];
+    }
+}
+
+// Export singleton instance
+export const providerFactory = new DefaultProviderFactory();
@@ -8,6 +8,7 @@
 import type { UnifiedToken, UnifiedDomain, UnifiedMetadata, TokenStandard, DataSource } from "../types/token-types.js";
 
 import type { generateFilterHash, CacheMetadata, CacheEntry } from "../types/cache-types.js";
+import type { NetworkId } from "../config/networks.js";
 
 /**
  * Pagination options for data queries
@@ -21,6 +22,14 @@ export interface PaginationOptions {
     };
 }
 
+/**
+ * Reference to a single token on a contract
+ */
+export interface TokenReference {
+    contractAddress: string;
+    tokenId: string;
+}
+
 /**
  * Domain query options
  */
@@ -52,6 +61,9 @@ export interface TokenFilters {
 
     // Custom field selection
     selectFields?: string[];
+
+    // Look up who sent single-transfer holdings (spam detection) - providers without the data ignore it
+    includeTransferOrigins?: boolean;
 }
 
 /**
@@ -72,31 +84,60 @@ export interface UnifiedTokenResponse {
     };
 }
 
+/**
+ * Balance changes for an address since a block level (incremental refresh)
+ */
+export interface TokenBalanceChanges {
+    updatedTokens: UnifiedToken[]; // Tokens received or with a changed balance (balance > 0)
+    removedTokenIds: string[]; // Tokens whose balance dropped to 0
+    level: number; // Indexer level the changes are complete up to
+    source: DataSource;
+    timing: {
+        fetchedAt: Date;
+        duration: number;
+    };
+}
+
 /**
  * Provider configuration options
  */
 export interface ProviderConfig {
     name: string;
     priority: number;
-    baseUrl?: string;
+    network?: NetworkId; // Tezos network to query (default: mainnet)
+    baseUrl?: string; // Overrides the network's default endpoint
     apiKey?: string;
     maxRetries?: number;
     retryDelayMs?: number;
     enableLogging?: boolean;
+    timeoutMs?: number;
     rateLimit?: {
         requestsPerSecond: number;
         burstSize: number;
     };
 }
 
+/**
+ * Provider availability - "degraded" while its circuit breaker is open
+ */
+export type ProviderStatus = "healthy" | "degraded" | "unhealthy";
+
+/**
+ * Circuit breaker state for a provider
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
 /**
  * Provider health status
  */
 export interface ProviderHealth {
     isHealthy: boolean;
+    status?: ProviderStatus;
     responseTime?: number;
     lastCheck: Date;
     errorMessage?: string;
+    circuitState?: CircuitState;
+    circuitOpenUntil?: Date;
 }
 
 /**
@@ -133,6 +174,22 @@ export interface DataProvider {
         filters?: TokenFilters
     ): Promise<UnifiedTokenResponse>;
 
+    /**
+     * Contract, creator and token-set operations (COLLECTION, ARTIST and CURATION galleries)
+     */
+    getContractTokens(contractAddress: string, filters?: TokenFilters): Promise<UnifiedTokenResponse>;
+
+    getCreatorTokens(creatorAddress: string): Promise<UnifiedTokenResponse>;
+
+    getTokensByReferences(references: TokenReference[]): Promise<UnifiedTokenResponse>;
+
+    /**
+     * Incremental updates (optional - only providers that track block levels)
+     */
+    getHeadLevel?(): Promise<number>;
+
+    getTokenBalanceChanges?(address: string, sinceLevel: number): Promise<TokenBalanceChanges>;
+
     /**
      * Utility methods
      */
@@ -149,7 +206,16 @@ export interface ProviderFactory {
 }
 
 /**
- * Multi-provider orchestrator interface (for future use)
+ * Provider selection options for multi-provider queries
+ */
+export interface ProviderQueryOptions {
+    preferredProvider?: string;
+    enableFallback?: boolean;
+    mergeResults?: boolean;
+}
+
+/**
+ * Multi-provider orchestrator interface
  */
 export interface MultiProviderOrchestrator {
     providers: DataProvider[];
@@ -162,11 +228,7 @@ export interface MultiProviderOrchestrator {
         address: string,
         pagination: PaginationOptions,
         filters?: TokenFilters,
-        options?: {
-            preferredProvider?: string;
-            enableFallback?: boolean;
-            mergeResults?: boolean;
-        }
+        options?: ProviderQueryOptions
     ): Promise<UnifiedTokenResponse>;
 
     // Health monitoring across all providers
@@ -200,14 +262,19 @@ export class ProviderTimeoutError extends ProviderError {
 }
 
 export class ProviderRateLimitError extends ProviderError {
+    public readonly retryAfterSeconds?: number;
+
     constructor(provider: string, operation: string, retryAfterSeconds?: number) {
         super(
             `Provider ${provider} rate limited during ${operation}${
                 retryAfterSeconds ? `. Retry after ${retryAfterSeconds}s` : ""
             }`,
             provider,
-            operation
+            operation,
+            undefined,
+            429
         );
         this.name = "ProviderRateLimitError";
+        this.retryAfterSeconds = retryAfterSeconds;
     }
 }
@@ -0,0 +1,178 @@
+/**
+ * Provider Rate Limiter
+ *
+ * Token-bucket limiter shared by every request path that talks to a provider:
+ * - One bucket per provider endpoint (TzKT SDK, direct TzKT fetches and objkt GraphQL)
+ * - Honors ProviderConfig.rateLimit (requestsPerSecond refill, burstSize capacity)
+ * - A 429 pauses the whole bucket for the Retry-After period and raises ProviderRateLimitError
+ */
+
+import { ProviderConfig, ProviderRateLimitError } from "./provider-interface";
+
+/**
+ * Token bucket settings (same shape as ProviderConfig.rateLimit)
+ */
+export type RateLimitConfig = NonNullable<ProviderConfig["rateLimit"]>;
+
+/**
+ * Default limits per provider (TzKT allows 10 rps on the free tier)
+ */
+export const DEFAULT_RATE_LIMITS: Record<string, RateLimitConfig> = {
+    tzkt: { requestsPerSecond: 10, burstSize: 20 },
+    objkt: { requestsPerSecond: 5, burstSize: 10 },
+};
+
+/**
+ * Fallback for providers without a default
+ */
+export const DEFAULT_RATE_LIMIT: RateLimitConfig = { requestsPerSecond: 5, burstSize: 5 };
+
+/**
+ * Pause applied when a 429 response carries no usable Retry-After header
+ */
+const DEFAULT_RETRY_AFTER_SECONDS = 1;
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into whole seconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) {
+        return undefined;
+    }
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, Math.ceil(seconds));
+    }
+
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) {
+        return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+    }
+
+    return undefined;
+}
+
+/**
+ * Token bucket for a single provider endpoint
+ */
+export class TokenBucketRateLimiter {
+    readonly provider: string;
+
+    private config: RateLimitConfig;
+    private tokens: number;
+    private lastRefill = Date.now();
+    private pausedUntil = 0;
+
+    constructor(provider: string, config: RateLimitConfig) {
+        this.provider = provider;
+        this.config = config;
+        this.tokens = config.burstSize;
+    }
+
+    /**
+     * Apply new limits (the bucket keeps its current fill, capped at the new burst size)
+     */
+    configure(config: RateLimitConfig): void {
+        this.refill();
+        this.config = config;
+        this.tokens = Math.min(this.tokens, config.burstSize);
+    }
+
+    /**
+     * Wait until a request may be sent, then consume a token
+     */
+    async acquire(): Promise<void> {
+        for (;;) {
+            const now = Date.now();
+            if (this.pausedUntil > now) {
+                await this.sleep(this.pausedUntil - now);
+                continue;
+            }
+
+            this.refill();
+            if (this.tokens >= 1) {
+                this.tokens -= 1;
+                return;
+            }
+
+            await this.sleep(((1 - this.tokens) / this.config.requestsPerSecond) * 1000);
+        }
+    }
+
+    /**
+     * Stop handing out tokens for the given number of seconds
+     */
+    pause(seconds: number): void {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + seconds * 1000);
+    }
+
+    /**
+     * Seconds until the bucket accepts requests again after a 429 (0 when not paused)
+     */
+    get retryAfterSeconds(): number {
+        return Math.max(0, Math.ceil((this.pausedUntil - Date.now()) / 1000));
+    }
+
+    /**
+     * Rate-limited fetch for a named operation.
+     * A 429 pauses the bucket for Retry-After and raises ProviderRateLimitError.
+     */
+    async request(operation: string, input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+        await this.acquire();
+
+        const response = await fetch(input, init);
+
+        if (response.status === 429) {
+            const retryAfterSeconds =
+                parseRetryAfter(response.headers.get("Retry-After")) ?? DEFAULT_RETRY_AFTER_SECONDS;
+            this.pause(retryAfterSeconds);
+            console.warn(`⚠️ ${this.provider} rate limited during ${operation} - pausing for ${retryAfterSeconds}s`);
+            throw new ProviderRateLimitError(this.provider, operation, retryAfterSeconds);
+        }
+
+        return response;
+    }
+
+    /**
+     * Drop-in fetch replacement (e.g. for SDK request options) - the operation is the request path
+     */
+    fetch = (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+        const url = typeof input === "string" || input instanceof URL ? new URL(input) : new URL(input.url);
+        return this.request(`${init?.method || "GET"} ${url.pathname}`, input, init);
+    };
+
+    private refill(): void {
+        const now = Date.now();
+        const elapsedSeconds = (now - this.lastRefill) / 1000;
+        this.tokens = Math.min(this.config.burstSize, this.tokens + elapsedSeconds * this.config.requestsPerSecond);
+        this.lastRefill = now;
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => setTimeout(resolve, Math.max(1, ms)));
+    }
+}
+
+/**
+ * Limiters keyed by provider and endpoint host - shared by every client hitting that host
+ */
+const limiters = new Map<string, TokenBucketRateLimiter>();
+
+/**
+ * Get the shared limiter for a provider endpoint.
+ * Passing a config (from ProviderConfig.rateLimit) applies it to the shared bucket.
+ */
+export function getRateLimiter(provider: string, endpoint: string, config?: RateLimitConfig): TokenBucketRateLimiter {
+    const key = `${provider}@${new URL(endpoint).host}`;
+
+    let limiter = limiters.get(key);
+    if (!limiter) {
+        limiter = new TokenBucketRateLimiter(provider, config || DEFAULT_RATE_LIMITS[provider] || DEFAULT_RATE_LIMIT);
+        limiters.set(key, limiter);
+    } else if (config) {
+        limiter.configure(config);
+    }
+
+    return limiter;
+}
@@ -0,0 +1,769 @@
+/**
+ * TzKT Provider
+ *
+ * DataProvider adapter for the TzKT REST API:
+ * - Converts balances and tokens into UnifiedToken format
+ * - Falls back to batched fetching when a full collection request times out
+ * - Looks up the sender and initiator of single-transfer holdings on request (spam detection)
+ * - Maps all failures onto ProviderError types so the provider orchestrator can fall back
+ * - Direct requests share the endpoint's rate limiter with the SDK client
+ */
+
+import { getTzktSdkClient, TzktSdkClient, TzktDomain } from "./tzkt-sdk-client";
+import { getObjktQueries } from "./objkt-queries";
+import { TokenBucketRateLimiter, getRateLimiter } from "./rate-limiter";
+import {
+    DataProvider,
+    DomainQueryOptions,
+    PaginationOptions,
+    ProviderConfig,
+    ProviderError,
+    ProviderHealth,
+    ProviderTimeoutError,
+    TokenFilters,
+    TokenBalanceChanges,
+    TokenReference,
+    UnifiedTokenResponse,
+} from "./provider-interface";
+import {
+    DataSource,
+    TokenStandard,
+    TransferOrigin,
+    UnifiedDomain,
+    UnifiedMetadata,
+    UnifiedToken,
+} from "../types/token-types";
+import { isValidContractAddress, isValidTezosAddress } from "../types/gallery-types";
+import { DEFAULT_NETWORK, NetworkId, getNetworkConfig } from "../config/networks";
+
+/**
+ * Default TzKT provider configuration
+ */
+export const DEFAULT_TZKT_PROVIDER_CONFIG: ProviderConfig = {
+    name: "tzkt",
+    priority: 1,
+    maxRetries: 3,
+    retryDelayMs: 1000,
+    enableLogging: true,
+    timeoutMs: 120000, // 2 minutes for complete collections
+    rateLimit: {
+        requestsPerSecond: 10,
+        burstSize: 20,
+    },
+};
+
+/**
+ * Batch settings used when a full collection request times out
+ */
+const BATCH_SIZE = 1000;
+const BATCH_TIMEOUT_MS = 30000;
+
+/**
+ * Maximum balance changes fetched for an incremental update
+ */
+const DELTA_LIMIT = 10000;
+
+/**
+ * Tokens per transfer-origin lookup (ids are sent in the query string)
+ */
+const ORIGIN_BATCH_SIZE = 100;
+
+/**
+ * Tokens per mint-time lookup - balances carry no mint time, only when the holder first received the token
+ */
+const MINT_TIME_BATCH_SIZE = 500;
+
+/**
+ * Creator queries are paged like holder queries; larger catalogues are capped and reported through
+ * pagination.hasMore
+ */
+const CREATOR_PAGE_SIZE = 500;
+const CREATOR_LIMIT = 10000;
+
+/**
+ * TzKT implementation of the DataProvider contract
+ */
+export class TzktProvider implements DataProvider {
+    readonly name: string;
+    readonly priority: number;
+    readonly config: ProviderConfig;
+
+    private client: TzktSdkClient;
+    private limiter: TokenBucketRateLimiter;
+
+    constructor(config: Partial<ProviderConfig> = {}, client?: TzktSdkClient) {
+        this.config = { ...DEFAULT_TZKT_PROVIDER_CONFIG, ...config };
+        this.name = this.config.name;
+        this.priority = this.config.priority;
+        this.client = client || getTzktSdkClient(this.network);
+        this.limiter = getRateLimiter("tzkt", this.baseUrl, this.config.rateLimit);
+    }
+
+    /**
+     * Data source descriptor attached to every token from this provider
+     */
+    get dataSource(): DataSource {
+        return {
+            provider: "tzkt",
+            version: "1.0",
+            endpoint: this.baseUrl,
+            priority: this.priority,
+        };
+    }
+
+    private get network(): NetworkId {
+        return this.config.network || DEFAULT_NETWORK;
+    }
+
+    private get baseUrl(): string {
+        return this.config.baseUrl || getNetworkConfig(this.network).tzktApiUrl;
+    }
+
+    private get timeoutMs(): number {
+        return this.config.timeoutMs || DEFAULT_TZKT_PROVIDER_CONFIG.timeoutMs!;
+    }
+
+    /**
+     * Log messages if logging is enabled
+     */
+    private log(level: "info" | "error" | "warn", message: string, data?: any) {
+        if (!this.config.enableLogging) return;
+
+        const prefix = `[TzktProvider ${new Date().toISOString()}]`;
+
+        switch (level) {
+            case "error":
+                console.error(`${prefix} ERROR: ${message}`, data || "");
+                break;
+            case "warn":
+                console.warn(`${prefix} WARN: ${message}`, data || "");
+                break;
+            default:
+                console.log(`${prefix} ${message}`, data || "");
+        }
+    }
+
+    async healthCheck(): Promise<ProviderHealth> {
+        const startTime = Date.now();
+
+        try {
+            await this.fetchJson("healthCheck", "/v1/head", {}, 10000);
+            return {
+                isHealthy: true,
+                responseTime: Date.now() - startTime,
+                lastCheck: new Date(),
+            };
+        } catch (error) {
+            return {
+                isHealthy: false,
+                responseTime: Date.now() - startTime,
+                lastCheck: new Date(),
+                errorMessage: error instanceof Error ? error.message : "Unknown error",
+            };
+        }
+    }
+
+    async getDomainsByAddress(address: string, options: DomainQueryOptions = {}): Promise<UnifiedDomain[]> {
+        try {
+            const domains = await this.client.getDomainsByAddress(address, options.reverse ?? true, options.limit ?? 1);
+            return domains.map((domain) => this.convertDomain(domain));
+        } catch (error) {
+            throw this.toProviderError("getDomainsByAddress", error);
+        }
+    }
+
+    async getDomainsByName(name: string, options: DomainQueryOptions = {}): Promise<UnifiedDomain[]> {
+        try {
+            const domains = await this.client.getDomainsByName(name, options.limit ?? 1);
+            return domains.map((domain) => this.convertDomain(domain));
+        } catch (error) {
+            throw this.toProviderError("getDomainsByName", error);
+        }
+    }
+
+    async getTokenBalancesCount(address: string, filters: TokenFilters = {}): Promise<number> {
+        const { selectFields, ...countFilters } = filters;
+        const params = {
+            ...this.transformFilters({ balanceGt: "0", ...countFilters }),
+            account: address,
+        };
+
+        return this.fetchJson<number>("getTokenBalancesCount", "/v1/tokens/balances/count", params);
+    }
+
+    async getTokenBalances(
+        address: string,
+        pagination: PaginationOptions,
+        filters: TokenFilters = {}
+    ): Promise<UnifiedTokenResponse> {
+        const startTime = Date.now();
+        let rawBalances: any[];
+
+        try {
+            rawBalances = await this.fetchBalancesPage(address, pagination, filters, this.timeoutMs);
+        } catch (error) {
+            const providerError = this.toProviderError("getTokenBalances", error);
+
+            // Large requests that time out are retried in smaller batches before giving up
+            if (!(providerError instanceof ProviderTimeoutError) || pagination.limit <= BATCH_SIZE) {
+                throw providerError;
+            }
+
+            this.log("warn", `Full balance fetch for ${address} timed out, retrying in batches of ${BATCH_SIZE}`);
+            rawBalances = await this.fetchBalancesInBatches(address, pagination, filters);
+        }
+
+        const origins = filters.includeTransferOrigins
+            ? await this.fetchTransferOrigins(address, rawBalances)
+            : new Map<number, TransferOrigin>();
+        const mintTimes = await this.fetchMintTimes(rawBalances);
+        const tokens = this.convertAll(rawBalances, (balance) => this.convertBalance(balance, origins, mintTimes));
+
+        return {
+            tokens,
+            pagination: {
+                offset: pagination.offset,
+                limit: pagination.limit,
+                hasMore: rawBalances.length >= pagination.limit,
+            },
+            source: this.dataSource,
+            timing: {
+                fetchedAt: new Date(),
+                duration: Date.now() - startTime,
+            },
+        };
+    }
+
+    async getContractTokens(contractAddress: string): Promise<UnifiedTokenResponse> {
+        const startTime = Date.now();
+
+        try {
+            // Balance-based fetch excludes burned tokens (see objkt-queries)
+            const contractTokens = await getObjktQueries(this.network).fetchCollectionTokensViaTzKT(contractAddress);
+            const tokens = contractTokens.map((token) => ({
+                ...token,
+                source: this.dataSource,
+            }));
+
+            return {
+                tokens,
+                pagination: { offset: 0, limit: tokens.length, total: tokens.length, hasMore: false },
+                source: this.dataSource,
+                timing: {
+                    fetchedAt: new Date(),
+                    duration: Date.now() - startTime,
+                },
+            };
+        } catch (error) {
+            throw this.toProviderError("getContractTokens", error);
+        }
+    }
+
+    /**
+     * Tokens minted by an address or listing it in their metadata creators (platforms that mint through a
+     * shared contract record the artist in creators only), excluding burned tokens
+     */
+    async getCreatorTokens(creatorAddress: string): Promise<UnifiedTokenResponse> {
+        const startTime = Date.now();
+        const params = { "totalSupply.gt": "0", "sort.asc": "id" };
+
+        const [minted, credited] = await Promise.all([
+            this.fetchTokenPages("getCreatorTokens", { ...params, firstMinter: creatorAddress }, CREATOR_LIMIT),
+            this.fetchTokenPages(
+                "getCreatorTokens",
+                { ...params, "metadata.creators.[*]": creatorAddress },
+                CREATOR_LIMIT
+            ),
+        ]);
+
+        // Most tokens match both queries
+        const byId = new Map<string, UnifiedToken>();
+        const rawTokens = [...minted.tokens, ...credited.tokens];
+        for (const token of this.convertAll(rawTokens, (token) => this.convertToken(token))) {
+            if (!byId.has(token.id)) byId.set(token.id, token);
+        }
+        const created = [...byId.values()].sort((a, b) => a.firstMintAt!.getTime() - b.firstMintAt!.getTime());
+
+        // The oldest works are kept when the catalogue is capped
+        const hasMore = minted.hasMore || credited.hasMore || created.length > CREATOR_LIMIT;
+        const tokens = created.slice(0, CREATOR_LIMIT);
+
+        return {
+            tokens,
+            pagination: { offset: 0, limit: CREATOR_LIMIT, total: hasMore ? undefined : tokens.length, hasMore },
+            source: this.dataSource,
+            timing: {
+                fetchedAt: new Date(),
+                duration: Date.now() - startTime,
+            },
+        };
+    }
+
+    async getTokensByReferences(references: TokenReference[]): Promise<UnifiedTokenResponse> {
+        const startTime = Date.now();
+        const tokensByContract = new Map<string, string[]>();
+
+        for (const { contractAddress, tokenId } of references) {
+            if (!tokensByContract.has(contractAddress)) {
+                tokensByContract.set(contractAddress, []);
+            }
+            tokensByContract.get(contractAddress)!.push(tokenId);
+        }
+
+        const tokens: UnifiedToken[] = [];
+
+        // A single failed contract fails the whole request so the orchestrator can fall back
+        for (const [contractAddress, tokenIds] of tokensByContract) {
+            const rawTokens = await this.fetchJson<any[]>(
+                "getTokensByReferences",
+                "/v1/tokens",
+                {
+                    contract: contractAddress,
+                    "tokenId.in": tokenIds.join(","),
+                    limit: "10000",
+                },
+                60000
+            );
+
+            tokens.push(...this.convertAll(rawTokens, (token) => this.convertToken(token)));
+        }
+
+        return {
+            tokens,
+            pagination: { offset: 0, limit: references.length, total: tokens.length, hasMore: false },
+            source: this.dataSource,
+            timing: {
+                fetchedAt: new Date(),
+                duration: Date.now() - startTime,
+            },
+        };
+    }
+
+    async getHeadLevel(): Promise<number> {
+        const head = await this.fetchJson<{ level: number }>("getHeadLevel", "/v1/head", {}, 10000);
+        return head.level;
+    }
+
+    async getTokenBalanceChanges(address: string, sinceLevel: number): Promise<TokenBalanceChanges> {
+        const startTime = Date.now();
+
+        // Read the head first so nothing indexed during the balance query is skipped next time
+        const level = await this.getHeadLevel();
+
+        // No balance filter - zero balances mark tokens that left the wallet
+        const rawBalances = await this.fetchJson<any[]>("getTokenBalanceChanges", "/v1/tokens/balances", {
+            account: address,
+            "lastLevel.gt": sinceLevel.toString(),
+            "sort.asc": "lastLevel",
+            limit: DELTA_LIMIT.toString(),
+        });
+
+        // A truncated delta can't be merged safely - the caller should rebuild instead
+        if (rawBalances.length >= DELTA_LIMIT) {
+            throw new ProviderError(
+                `Too many balance changes since level ${sinceLevel} for an incremental update`,
+                this.name,
+                "getTokenBalanceChanges"
+            );
+        }
+
+        // Deltas are small, so origins are always looked up
+        const isHeld = (balance: any) => Number(balance.balance || "0") > 0;
+        const heldBalances = rawBalances.filter(isHeld);
+        const origins = await this.fetchTransferOrigins(address, heldBalances);
+        const mintTimes = await this.fetchMintTimes(heldBalances);
+        const updatedTokens = this.convertAll(heldBalances, (balance) =>
+            this.convertBalance(balance, origins, mintTimes)
+        );
+        const removedTokenIds = rawBalances
+            .filter((balance) => !isHeld(balance))
+            .map((balance) => `${balance.token?.contract?.address || "unknown"}_${balance.token?.tokenId || "0"}`);
+
+        return {
+            updatedTokens,
+            removedTokenIds,
+            level,
+            source: this.dataSource,
+            timing: {
+                fetchedAt: new Date(),
+                duration: Date.now() - startTime,
+            },
+        };
+    }
+
+    validateAddress(address: string): boolean {
+        return isValidTezosAddress(address) || isValidContractAddress(address);
+    }
+
+    /**
+     * Convert TokenFilters into TzKT query parameters
+     */
+    transformFilters(filters: TokenFilters): Record<string, string> {
+        const params: Record<string, string> = {};
+
+        if (filters.balanceGt !== undefined) {
+            params["balance.gt"] = filters.balanceGt;
+        }
+        if (filters.requireMetadata) {
+            params["token.metadata.null"] = "false";
+        }
+        if (filters.contractWhitelist && filters.contractWhitelist.length > 0) {
+            params["token.contract.in"] = filters.contractWhitelist.join(",");
+        } else if (filters.contractBlacklist && filters.contractBlacklist.length > 0) {
+            params["token.contract.ni"] = filters.contractBlacklist.join(",");
+        }
+        if (filters.selectFields && filters.selectFields.length > 0) {
+            params["select"] = filters.selectFields.join(",");
+        }
+
+        return params;
+    }
+
+    /**
+     * Fetch a single page of raw balances
+     */
+    private async fetchBalancesPage(
+        address: string,
+        pagination: PaginationOptions,
+        filters: TokenFilters,
+        timeoutMs: number
+    ): Promise<any[]> {
+        const params: Record<string, string> = {
+            ...this.transformFilters({ balanceGt: "0", ...filters }),
+            account: address,
+            limit: pagination.limit.toString(),
+            offset: pagination.offset.toString(),
+        };
+
+        if (pagination.sort) {
+            params[`sort.${pagination.sort.direction}`] = pagination.sort.field;
+        }
+
+        return this.fetchJson<any[]>("getTokenBalances", "/v1/tokens/balances", params, timeoutMs);
+    }
+
+    /**
+     * Fallback method to fetch balances in smaller batches
+     */
+    private async fetchBalancesInBatches(
+        address: string,
+        pagination: PaginationOptions,
+        filters: TokenFilters
+    ): Promise<any[]> {
+        const allBalances: any[] = [];
+        let offset = pagination.offset;
+
+        while (allBalances.length < pagination.limit) {
+            const limit = Math.min(BATCH_SIZE, pagination.limit - allBalances.length);
+            const batch = await this.fetchBalancesPage(
+                address,
+                { ...pagination, offset, limit },
+                filters,
+                BATCH_TIMEOUT_MS
+            );
+
+            allBalances.push(...batch);
+            offset += batch.length;
+
+            // If we got fewer balances than requested, we're done
+            if (batch.length < limit) {
+                break;
+            }
+
+            // Add small delay between batches to be nice to the API
+            await new Promise((resolve) => setTimeout(resolve, 100));
+        }
+
+        return allBalances;
+    }
+
+    /**
+     * Page through a /v1/tokens query, returning at most limit tokens and whether more matched
+     */
+    private async fetchTokenPages(
+        operation: string,
+        params: Record<string, string>,
+        limit: number
+    ): Promise<{ tokens: any[]; hasMore: boolean }> {
+        const tokens: any[] = [];
+
+        // Read one page past the limit so a capped result can be told from one that fits exactly
+        while (tokens.length <= limit) {
+            const page = await this.fetchJson<any[]>(operation, "/v1/tokens", {
+                ...params,
+                limit: String(CREATOR_PAGE_SIZE),
+                offset: String(tokens.length),
+            });
+            tokens.push(...page);
+
+            if (page.length < CREATOR_PAGE_SIZE) {
+                break;
+            }
+        }
+
+        return { tokens: tokens.slice(0, limit), hasMore: tokens.length > limit };
+    }
+
+    /**
+     * Look up the operation that delivered each single-transfer holding the wallet didn't create, keyed by TzKT
+     * token id. Best effort - a failed lookup leaves the tokens without origins, so they are not scored as unsolicited.
+     */
+    private async fetchTransferOrigins(address: string, rawBalances: any[]): Promise<Map<number, TransferOrigin>> {
+        const origins = new Map<number, TransferOrigin>();
+        const candidateIds: number[] = rawBalances
+            .filter(
+                (balance) =>
+                    balance.transfersCount === 1 &&
+                    balance.token?.id !== undefined &&
+                    !(balance.token?.metadata?.creators || []).includes(address)
+            )
+            .map((balance) => balance.token.id);
+
+        try {
+            for (let i = 0; i < candidateIds.length; i += ORIGIN_BATCH_SIZE) {
+                const ids = candidateIds.slice(i, i + ORIGIN_BATCH_SIZE);
+                const transfers = await this.fetchJson<Array<{ tokenId: number; transactionId?: number }>>(
+                    "getTransferOrigins",
+                    "/v1/tokens/transfers",
+                    {
+                        to: address,
+                        "token.id.in": ids.join(","),
+                        "transactionId.null": "false",
+                        select: "token.id as tokenId,transactionId",
+                        limit: ids.length.toString(),
+                    }
+                );
+                if (transfers.length === 0) continue;
+
+                const transactions = await this.fetchJson<
+                    Array<{ id: number; sender?: { address: string }; initiator?: { address: string } }>
+                >("getTransferOrigins", "/v1/operations/transactions", {
+                    "id.in": transfers.map((transfer) => transfer.transactionId).join(","),
+                    select: "id,sender,initiator",
+                    limit: transfers.length.toString(),
+                });
+                const byId = new Map(transactions.map((transaction) => [transaction.id, transaction]));
+
+                transfers.forEach((transfer) => {
+                    const transaction = byId.get(transfer.transactionId!);
+                    if (!transaction?.sender) return;
+
+                    // Direct calls have no initiator - the sender signed the operation
+                    origins.set(transfer.tokenId, {
+                        sender: transaction.sender.address,
+                        initiator: (transaction.initiator ?? transaction.sender).address,
+                    });
+                });
+            }
+        } catch (error) {
+            this.log("warn", `Transfer origin lookup for ${address} failed - unsolicited transfers go unscored`, error);
+        }
+
+        return origins;
+    }
+
+    /**
+     * Mint time (the token's first indexed appearance) by TzKT token id. Best effort: tokens whose lookup
+     * fails are left without a mint time, so mint-time sorts and filters fall back to their default order.
+     */
+    private async fetchMintTimes(rawBalances: any[]): Promise<Map<number, Date>> {
+        const mintTimes = new Map<number, Date>();
+        const tokenIds: number[] = rawBalances
+            .map((balance) => balance.token?.id)
+            .filter((id): id is number => id !== undefined);
+
+        try {
+            for (let i = 0; i < tokenIds.length; i += MINT_TIME_BATCH_SIZE) {
+                const ids = tokenIds.slice(i, i + MINT_TIME_BATCH_SIZE);
+                const tokens = await this.fetchJson<Array<{ id: number; firstTime?: string }>>(
+                    "getMintTimes",
+                    "/v1/tokens",
+                    { "id.in": ids.join(","), select: "id,firstTime", limit: ids.length.toString() }
+                );
+                tokens.forEach((token) => {
+                    if (token.firstTime) mintTimes.set(token.id, new Date(token.firstTime));
+                });
+            }
+        } catch (error) {
+            this.log("warn", `Mint time lookup failed for ${tokenIds.length} tokens - left unset`, error);
+        }
+
+        return mintTimes;
+    }
+
+    /**
+     * GET a TzKT endpoint and parse the JSON body, raising provider errors on failure
+     */
+    private async fetchJson<T>(
+        operation: string,
+        path: string,
+        params: Record<string, string>,
+        timeoutMs: number = this.timeoutMs
+    ): Promise<T> {
+        const url = new URL(path, this.baseUrl);
+        Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+
+        try {
+            const response = await this.limiter.request(operation, url.toString(), {
+                method: "GET",
+                headers: {
+                    Accept: "application/json",
+                    "User-Agent": "colleKT/1.0",
+                },
+                signal: AbortSignal.timeout(timeoutMs),
+            });
+
+            if (!response.ok) {
+                throw new ProviderError(
+                    `TzKT ${operation} failed: ${response.status} ${response.statusText}`,
+                    this.name,
+                    operation,
+                    undefined,
+                    response.status
+                );
+            }
+
+            return (await response.json()) as T;
+        } catch (error) {
+            throw this.toProviderError(operation, error, timeoutMs);
+        }
+    }
+
+    /**
+     * Normalize any thrown value into a ProviderError
+     */
+    private toProviderError(operation: string, error: unknown, timeoutMs: number = this.timeoutMs): ProviderError {
+        if (error instanceof ProviderError) {
+            return error;
+        }
+
+        const originalError = error instanceof Error ? error : new Error(String(error));
+
+        if (
+            originalError.name === "TimeoutError" ||
+            originalError.name === "AbortError" ||
+            originalError.message.includes("timeout") ||
+            originalError.message.includes("terminated") ||
+            originalError.message.includes("UND_ERR_SOCKET")
+        ) {
+            return new ProviderTimeoutError(this.name, operation, timeoutMs);
+        }
+
+        return new ProviderError(
+            `TzKT ${operation} failed: ${originalError.message}`,
+            this.name,
+            operation,
+            originalError,
+            (originalError as any).statusCode
+        );
+    }
+
+    /**
+     * Convert a list of raw items, skipping any that fail conversion
+     */
+    private convertAll(items: any[], convert: (item: any) => UnifiedToken): UnifiedToken[] {
+        return items
+            .map((item, index) => {
+                try {
+                    return convert(item);
+                } catch (error) {
+                    this.log("error", `Failed to convert token ${index}`, error);
+                    return null;
+                }
+            })
+            .filter((token): token is UnifiedToken => token !== null);
+    }
+
+    /**
+     * Convert a TzKT balance (token + holding) into UnifiedToken format. The balance's firstTime is when the
+     * holder received the token; the mint time comes from a separate token lookup.
+     */
+    private convertBalance(
+        apiBalance: any,
+        origins?: Map<number, TransferOrigin>,
+        mintTimes?: Map<number, Date>
+    ): UnifiedToken {
+        const collectionTime = apiBalance.firstTime ? new Date(apiBalance.firstTime) : new Date();
+        const mintTime = mintTimes?.get(apiBalance.token?.id);
+        const token = this.buildToken(apiBalance.token, apiBalance.balance || "0", collectionTime, mintTime);
+        token.transferCount = apiBalance.transfersCount ?? undefined; // Transfers that changed this holding
+        token.receivedVia = origins?.get(apiBalance.token?.id);
+        return token;
+    }
+
+    /**
+     * Convert a TzKT token (no holding) into UnifiedToken format
+     */
+    private convertToken(apiToken: any): UnifiedToken {
+        const mintTime = apiToken.firstTime ? new Date(apiToken.firstTime) : new Date();
+        return this.buildToken(apiToken, "1", mintTime, mintTime); // Token sets show tokens, not balances
+    }
+
+    private buildToken(token: any, balance: string, timestamp: Date, mintTime: Date | undefined): UnifiedToken {
+        const metadata: UnifiedMetadata = {
+            name: token?.metadata?.name || undefined,
+            symbol: token?.metadata?.symbol || undefined,
+            decimals: token?.metadata?.decimals ? Number(token.metadata.decimals) : undefined,
+            description: token?.metadata?.description || undefined,
+            image: token?.metadata?.image || undefined,
+            artifactUri: token?.metadata?.artifactUri || undefined,
+            displayUri: token?.metadata?.displayUri || undefined,
+            thumbnailUri: token?.metadata?.thumbnailUri || undefined,
+            supply: token?.totalSupply || token?.metadata?.supply || undefined,
+            creators: token?.metadata?.creators || undefined,
+            tags: token?.metadata?.tags || undefined,
+            attributes: token?.metadata?.attributes || undefined,
+            formats: token?.metadata?.formats || undefined,
+            raw: token?.metadata || undefined,
+        };
+
+        const unifiedToken: UnifiedToken = {
+            id: `${token?.contract?.address || "unknown"}_${token?.tokenId || "0"}`,
+            contractAddress: token?.contract?.address || "unknown",
+            contractAlias: token?.contract?.alias || undefined,
+            tokenId: token?.tokenId || "0",
+            balance,
+            standard: this.convertStandard(token?.standard),
+            metadata,
+            source: this.dataSource,
+            fetchedAt: new Date(),
+            lastTransferAt: timestamp,
+            firstMintAt: mintTime,
+            isValid: !!(token?.metadata && token.contract?.address),
+            hasImage: !!(metadata.image || metadata.artifactUri || metadata.displayUri || metadata.thumbnailUri),
+            hasMetadata: !!token?.metadata,
+        };
+
+        // Set computed display fields
+        unifiedToken.displayImage =
+            metadata.displayUri || metadata.artifactUri || metadata.image || metadata.thumbnailUri;
+        unifiedToken.displayName = metadata.name || `Token #${unifiedToken.tokenId}`;
+        unifiedToken.sortKey = timestamp.toISOString();
+
+        return unifiedToken;
+    }
+
+    private convertStandard(standard?: string | null): TokenStandard {
+        switch (standard?.toLowerCase()) {
+            case "fa2":
+                return "fa2";
+            case "fa1.2":
+            case "fa12":
+                return "fa1.2";
+            default:
+                return "unknown";
+        }
+    }
+
+    private convertDomain(domain: TzktDomain): UnifiedDomain {
+        return {
+            name: domain.name || "",
+            ownerAddress: domain.owner?.address || undefined,
+            resolvedAddress: domain.address?.address || undefined,
+            isPrimary: !!domain.reverse,
+            isReverse: !!domain.reverse,
+            source: this.dataSource,
+            fetchedAt: new Date(),
+        };
+    }
+}
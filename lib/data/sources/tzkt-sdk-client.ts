@@ -3,6 +3,7 @@
  *
  * Provides a robust wrapper around the TzKT TypeScript SDK with:
  * - Error handling and retry logic
+ * - Shared per-endpoint rate limiting
  * - Type safety improvements
  * - Standardized response formats
  * - Logging for debugging
@@ -13,12 +14,10 @@ import {
     domainsGetByName,
     tokensGetTokenBalancesCount,
     tokensGetTokenBalances,
-    contractsGet,
-    defaults as sdkDefaults,
 } from "@tzkt/sdk-api";
-
-// Configure SDK defaults
-sdkDefaults.baseUrl = "https://api.tzkt.io";
+import { DEFAULT_NETWORK, NetworkId, getNetworkConfig } from "../config/networks";
+import { ProviderRateLimitError } from "./provider-interface";
+import { TokenBucketRateLimiter, getRateLimiter } from "./rate-limiter";
 
 /**
  * Configuration options for the TzKT SDK client
@@ -133,20 +132,32 @@ export class TzktSdkError extends Error {
  */
 export class TzktSdkClient {
     private config: Required<TzktSdkClientConfig>;
+    private limiter: TokenBucketRateLimiter;
 
     constructor(config: TzktSdkClientConfig = {}) {
         this.config = {
-            baseUrl: "https://api.tzkt.io",
+            baseUrl: getNetworkConfig(DEFAULT_NETWORK).tzktApiUrl,
             maxRetries: 3,
             retryDelayMs: 1000,
             enableLogging: true,
             ...config,
         };
+        this.limiter = getRateLimiter("tzkt", this.config.baseUrl);
+    }
 
-        // Configure SDK base URL if provided
-        if (config.baseUrl) {
-            sdkDefaults.baseUrl = config.baseUrl;
-        }
+    /**
+     * SDK request options - base URL is passed per call so clients for different networks can coexist,
+     * and every SDK request goes through the endpoint's shared rate limiter
+     */
+    private get requestOpts() {
+        return { baseUrl: this.config.baseUrl, fetch: this.limiter.fetch };
+    }
+
+    /**
+     * TzKT API base URL this client queries
+     */
+    get baseUrl(): string {
+        return this.config.baseUrl;
     }
 
     /**
@@ -186,6 +197,11 @@ export class TzktSdkClient {
                 lastError = error as Error;
                 this.log("warn", `${operation} - Failed attempt ${attempt}`, error);
 
+                // Rate limits are surfaced as-is so callers can fall back instead of waiting
+                if (error instanceof ProviderRateLimitError) {
+                    throw error;
+                }
+
                 if (attempt < this.config.maxRetries) {
                     const delay = this.config.retryDelayMs * attempt;
                     this.log("info", `${operation} - Retrying in ${delay}ms`);
@@ -208,11 +224,14 @@ export class TzktSdkClient {
      */
     async getDomainsByAddress(address: string, reverse: boolean = true, limit: number = 1): Promise<TzktDomain[]> {
         return this.withRetry(`getDomainsByAddress(${address})`, async () => {
-            const result = await domainsGet({
-                address: { eq: address },
-                reverse: { eq: reverse },
-                limit,
-            });
+            const result = await domainsGet(
+                {
+                    address: { eq: address },
+                    reverse: { eq: reverse },
+                    limit,
+                },
+                this.requestOpts
+            );
             return result || [];
         });
     }
@@ -222,7 +241,7 @@ export class TzktSdkClient {
      */
     async getDomainsByName(name: string, limit: number = 1): Promise<TzktDomain[]> {
         return this.withRetry(`getDomainsByName(${name})`, async () => {
-            const result = await domainsGetByName(name);
+            const result = await domainsGetByName(name, this.requestOpts);
             // domainsGetByName returns a single domain or null, so wrap in array
             return result ? [result] : [];
         });
@@ -253,7 +272,7 @@ export class TzktSdkClient {
                 };
             }
 
-            const result = await tokensGetTokenBalancesCount(queryParams);
+            const result = await tokensGetTokenBalancesCount(queryParams, this.requestOpts);
             return result || 0;
         });
     }
@@ -294,7 +313,7 @@ export class TzktSdkClient {
                 };
             }
 
-            const result = await tokensGetTokenBalances(queryParams);
+            const result = await tokensGetTokenBalances(queryParams, this.requestOpts);
             const data = result || [];
 
             return {
@@ -339,7 +358,10 @@ export class TzktSdkClient {
         return this.withRetry(`getContract(${address})`, async () => {
             try {
                 // Try accounts endpoint instead - contracts are also accounts and might have alias there
-                const response = await fetch(`${this.config.baseUrl}/v1/accounts/${address}`);
+                const response = await this.limiter.request(
+                    `getContract(${address})`,
+                    `${this.config.baseUrl}/v1/accounts/${address}`
+                );
 
                 if (!response.ok) {
                     console.error(`❌ ACCOUNTS API failed with status ${response.status}: ${response.statusText}`);
@@ -376,6 +398,23 @@ export class TzktSdkClient {
  */
 export const tzktSdkClient = new TzktSdkClient();
 
+/**
+ * Per-network client instances
+ */
+const networkClients = new Map<NetworkId, TzktSdkClient>([[DEFAULT_NETWORK, tzktSdkClient]]);
+
+/**
+ * Get the shared client for a network
+ */
+export function getTzktSdkClient(network: NetworkId = DEFAULT_NETWORK): TzktSdkClient {
+    let client = networkClients.get(network);
+    if (!client) {
+        client = new TzktSdkClient({ baseUrl: getNetworkConfig(network).tzktApiUrl });
+        networkClients.set(network, client);
+    }
+    return client;
+}
+
 /**
  * Create a new client instance with custom configuration
  */
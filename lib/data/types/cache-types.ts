@@ -5,6 +5,8 @@
  */
 
 import type { DataSource, UnifiedToken, UnifiedCollection, FilterResult } from "./token-types";
+import type { GalleryType } from "./gallery-types";
+import { DEFAULT_NETWORK, NETWORK_IDS, NetworkId } from "../config/networks";
 
 /**
  * Cache key patterns for different data types
@@ -14,10 +16,12 @@ export interface CacheKeyPatterns {
     userCollection: `tokens:user:${string}:${string}`; // tokens:user:tz1ABC...:filter-hash
     curationCollection: `tokens:curation:${string}:${string}`; // tokens:curation:146288:filter-hash
     contractCollection: `tokens:collection:${string}:${string}`; // tokens:collection:KT1ABC...:filter-hash
+    artistCollection: `tokens:artist:${string}:${string}`; // tokens:artist:tz1ABC...:filter-hash
 
     // Gallery metadata (NEW)
     curationMetadata: `meta:curation:${string}`; // meta:curation:146288
     collectionMetadata: `meta:collection:${string}`; // meta:collection:KT1ABC...
+    artistMetadata: `meta:artist:${string}`; // meta:artist:tz1ABC...
 
     // Legacy patterns (for backward compatibility)
     tokenCollection: `tokens:${string}`; // tokens:tz1ABC...
@@ -38,56 +42,240 @@ export interface CacheKeyPatterns {
 
     // Usage statistics
     usageStats: `stats:${string}:${string}`; // stats:daily:2025-07-08
+
+    // Largest token collection keys by stored size - a bounded index read by the cache stats API
+    cacheSizeIndex: `stats:sizes`;
+
+    // Public refresh throttle - one forced rebuild per gallery per interval
+    refreshThrottle: `refresh:${string}:${string}`; // refresh:user:tz1ABC...
+
+    // Every token collection key cached for a gallery, scored by expiry - invalidation reads it instead of scanning
+    galleryKeyIndex: `index:${string}:${string}`; // index:user:tz1ABC...
+
+    // Build locks - one instance rebuilds a cache entry at a time
+    buildLock: `lock:${string}`; // lock:tokens:user:tz1ABC...:filter-hash
+
+    // Page-aligned slices of a large collection, referenced by the manifest stored at the entry key
+    cacheChunk: `${string}:chunk:${string}:${number}`; // tokens:user:tz1ABC...:filter-hash:chunk:build-id:0
+
+    // Per-entry metadata stored next to the cached value
+    entryMetadata: `${string}:meta`; // filtered:tz1ABC...:filter-hash:meta
+
+    // Tokens hidden by filtering, stored next to the cached collection
+    hiddenTokens: `${string}:hidden`; // filtered:tz1ABC...:filter-hash:hidden
+
+    // Full-text search index of the cached collection, in gallery order
+    searchIndex: `${string}:search`; // tokens:user:tz1ABC...:filter-hash:search
+
+    // Overview stats of the cached collection
+    collectionSummary: `${string}:summary`; // tokens:curation:146288:filter-hash:summary
+
+    // Room layout of a grouped collection
+    roomGroups: `${string}:rooms`; // tokens:user:tz1ABC...:filter-hash:sort:default-asc-by-artist-20:1720000000000:rooms
+
+    // A collection in a custom order or grouping, tied to the build of the default-order entry it was derived from
+    sortedCollection: `${string}:sort:${string}:${number}`; // tokens:curation:146288:hash:sort:name-asc:1720000000000
+
+    // Non-mainnet data is prefixed with the network
+    networkScoped: `${NetworkId}:${string}`; // ghostnet:tokens:user:tz1ABC...:filter-hash
 }
 
+/**
+ * Key namespaces that can be listed through the cache admin API
+ */
+export const CACHE_KEY_NAMESPACES = [
+    "tokens:user",
+    "tokens:curation",
+    "tokens:collection",
+    "tokens:artist",
+    "tokens",
+    "filtered",
+    "meta",
+    "domain",
+    "health",
+    "filters",
+    "stats",
+    "refresh",
+    "index",
+    "lock",
+] as const;
+export type CacheKeyNamespace = (typeof CACHE_KEY_NAMESPACES)[number];
+
 /**
  * Cache key builder utilities
  */
 
+/**
+ * Prefix a key with its network - mainnet keys are left unprefixed so existing entries stay valid
+ */
+export function networkScopedKey(key: string, network: NetworkId = DEFAULT_NETWORK): string {
+    return network === DEFAULT_NETWORK ? key : `${network}:${key}`;
+}
+
 // NEW: Gallery-specific cache key builders
-export function userCollection(address: string, filterHash: string): string {
-    return `tokens:user:${address}:${filterHash}`;
+export function userCollection(address: string, filterHash: string, network: NetworkId = DEFAULT_NETWORK): string {
+    return networkScopedKey(`tokens:user:${address}:${filterHash}`, network);
+}
+
+export function curationCollection(
+    curationId: string,
+    filterHash: string,
+    network: NetworkId = DEFAULT_NETWORK
+): string {
+    return networkScopedKey(`tokens:curation:${curationId}:${filterHash}`, network);
 }
 
-export function curationCollection(curationId: string, filterHash: string): string {
-    return `tokens:curation:${curationId}:${filterHash}`;
+export function contractCollection(
+    contractAddress: string,
+    filterHash: string,
+    network: NetworkId = DEFAULT_NETWORK
+): string {
+    return networkScopedKey(`tokens:collection:${contractAddress}:${filterHash}`, network);
 }
 
-export function contractCollection(contractAddress: string, filterHash: string): string {
-    return `tokens:collection:${contractAddress}:${filterHash}`;
+export function artistCollection(
+    artistAddress: string,
+    filterHash: string,
+    network: NetworkId = DEFAULT_NETWORK
+): string {
+    return networkScopedKey(`tokens:artist:${artistAddress}:${filterHash}`, network);
 }
 
-export function curationMetadata(curationId: string): string {
-    return `meta:curation:${curationId}`;
+export function curationMetadata(curationId: string, network: NetworkId = DEFAULT_NETWORK): string {
+    return networkScopedKey(`meta:curation:${curationId}`, network);
 }
 
-export function collectionMetadata(contractAddress: string): string {
-    return `meta:collection:${contractAddress}`;
+export function collectionMetadata(contractAddress: string, network: NetworkId = DEFAULT_NETWORK): string {
+    return networkScopedKey(`meta:collection:${contractAddress}`, network);
+}
+
+export function artistMetadata(artistAddress: string, network: NetworkId = DEFAULT_NETWORK): string {
+    return networkScopedKey(`meta:artist:${artistAddress}`, network);
 }
 
 // LEGACY: Existing cache key builders (for backward compatibility)
-export function tokenCollection(address: string): string {
-    return `tokens:${address}`;
+export function tokenCollection(address: string, network: NetworkId = DEFAULT_NETWORK): string {
+    return networkScopedKey(`tokens:${address}`, network);
+}
+
+export function filteredCollection(address: string, filterHash: string, network: NetworkId = DEFAULT_NETWORK): string {
+    return networkScopedKey(`filtered:${address}:${filterHash}`, network);
+}
+
+export function domainByAddress(address: string, network: NetworkId = DEFAULT_NETWORK): string {
+    return networkScopedKey(`domain:addr:${address}`, network);
+}
+
+export function domainByName(name: string, network: NetworkId = DEFAULT_NETWORK): string {
+    return networkScopedKey(`domain:name:${name}`, network);
+}
+
+export function collectionMeta(address: string, network: NetworkId = DEFAULT_NETWORK): string {
+    return networkScopedKey(`meta:${address}`, network);
+}
+
+export function entryMetadata(cacheKey: string): string {
+    return `${cacheKey}:meta`;
 }
 
-export function filteredCollection(address: string, filterHash: string): string {
-    return `filtered:${address}:${filterHash}`;
+export function hiddenTokens(cacheKey: string): string {
+    return `${cacheKey}:hidden`;
 }
 
-export function domainByAddress(address: string): string {
-    return `domain:addr:${address}`;
+export function searchIndex(cacheKey: string): string {
+    return `${cacheKey}:search`;
 }
 
-export function domainByName(name: string): string {
-    return `domain:name:${name}`;
+export function collectionSummary(cacheKey: string): string {
+    return `${cacheKey}:summary`;
 }
 
-export function collectionMeta(address: string): string {
-    return `meta:${address}`;
+export function roomGroups(cacheKey: string): string {
+    return `${cacheKey}:rooms`;
 }
 
-export function providerHealth(provider: string): string {
-    return `health:${provider}`;
+export function sortedCollection(cacheKey: string, sortKey: string, sourceBuiltAt: number): string {
+    return `${cacheKey}:sort:${sortKey}:${sourceBuiltAt}`;
+}
+
+export function cacheChunk(cacheKey: string, buildId: string, index: number): string {
+    return `${cacheKey}:chunk:${buildId}:${index}`;
+}
+
+export function filterRules(): string {
+    return "filters:rules";
+}
+
+export function buildLock(cacheKey: string): string {
+    return `lock:${cacheKey}`;
+}
+
+export function refreshThrottle(
+    galleryType: GalleryType,
+    identifier: string,
+    network: NetworkId = DEFAULT_NETWORK
+): string {
+    // Base58 addresses never differ only by case, so case variants share one slot
+    return networkScopedKey(`refresh:${galleryType.toLowerCase()}:${identifier.toLowerCase()}`, network);
+}
+
+export function galleryKeyIndex(
+    galleryType: GalleryType,
+    identifier: string,
+    network: NetworkId = DEFAULT_NETWORK
+): string {
+    return networkScopedKey(`index:${galleryType.toLowerCase()}:${identifier}`, network);
+}
+
+export function usageStats(period: string, id: string): string {
+    return `stats:${period}:${id}`;
+}
+
+export function cacheSizeIndex(): string {
+    return "stats:sizes";
+}
+
+/**
+ * Gallery a token collection key belongs to (null for non-collection keys). Covers sidecars, chunks and
+ * arranged views of the collection too, since those extend its key.
+ */
+export function galleryForKey(
+    cacheKey: string
+): { galleryType: GalleryType; identifier: string; network: NetworkId } | null {
+    const [prefix] = cacheKey.split(":", 1);
+    const scoped = (NETWORK_IDS as readonly string[]).includes(prefix);
+    const network = scoped ? (prefix as NetworkId) : DEFAULT_NETWORK;
+    const [namespace, type, identifier] = (scoped ? cacheKey.slice(prefix.length + 1) : cacheKey).split(":");
+
+    if (namespace === "tokens" && type && identifier) {
+        if (type === "curation") {
+            return { galleryType: "CURATION", identifier, network };
+        }
+        if (type === "collection") {
+            return { galleryType: "COLLECTION", identifier, network };
+        }
+        if (type === "artist") {
+            return { galleryType: "ARTIST", identifier, network };
+        }
+        if (type === "user") {
+            return { galleryType: "USER", identifier, network };
+        }
+    }
+    if ((namespace === "tokens" || namespace === "filtered") && type) {
+        return { galleryType: "USER", identifier: type, network };
+    }
+    return null;
+}
+
+/**
+ * Gallery type a token collection key belongs to (null for non-collection keys)
+ */
+export function galleryTypeForKey(cacheKey: string): GalleryType | null {
+    return galleryForKey(cacheKey)?.galleryType ?? null;
+}
+
+export function providerHealth(provider: string, network: NetworkId = DEFAULT_NETWORK): string {
+    return networkScopedKey(`health:${provider}`, network);
 }
 
 export function generateFilterHash(filters: Record<string, any>): string {
@@ -102,7 +290,8 @@ export function generateFilterHash(filters: Record<string, any>): string {
 export interface CacheMetadata {
     // Timestamps
     createdAt: Date;
-    expiresAt: Date;
+    expiresAt: Date; // Hard expiry - entry is removed
+    softExpiresAt?: Date; // Soft expiry - entry is served as stale while it is rebuilt
     lastAccessedAt: Date;
 
     // Data source information
@@ -114,6 +303,7 @@ export interface CacheMetadata {
 
     // Compression information
     isCompressed: boolean;
+    codec?: string; // gzip | brotli | zstd (entries from before codecs were recorded are gzip)
     originalSize?: number;
     compressedSize?: number;
 
@@ -128,6 +318,26 @@ export interface CacheMetadata {
     // Build information (for filtered collections)
     buildDuration?: number;
     filteringApplied?: FilterResult;
+
+    // Indexer block level the data is complete up to (enables delta refreshes)
+    indexedLevel?: number;
+
+    // A provider limit cut the fetch short - the entry holds only part of the collection
+    truncated?: boolean;
+
+    // Present when the collection is stored in chunks
+    chunks?: ChunkManifest;
+}
+
+/**
+ * Layout of a collection stored as page-aligned chunks. Stored (as `{ chunked: manifest }`) at the
+ * entry key in place of the collection; each build writes fresh chunk keys so readers never mix builds.
+ */
+export interface ChunkManifest {
+    buildId: string;
+    chunkSize: number; // Items per chunk (a multiple of the gallery page size)
+    chunkCount: number;
+    totalItems: number;
 }
 
 /**
@@ -184,6 +394,7 @@ export interface CacheConfig {
         userGallery: number; // 3600 (1 hour) - user collections change frequently
         curationGallery: number; // 7200 (2 hours) - curations rarely change
         collectionGallery: number; // 1800 (30 min) - contracts mint frequently
+        artistGallery: number; // 3600 (1 hour) - artists mint and burn now and then
         galleryMetadata: number; // 86400 (24 hours) - metadata changes rarely
 
         // Legacy TTL values (for backward compatibility)
@@ -198,7 +409,7 @@ export interface CacheConfig {
     compression: {
         enabled: boolean;
         threshold: number; // Compress if larger than N bytes
-        algorithm: "gzip" | "brotli";
+        algorithm: "gzip" | "brotli" | "zstd" | "adaptive";
     };
 
     // Cache limits
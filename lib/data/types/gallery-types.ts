@@ -5,13 +5,15 @@
  * - USER: Original wallet galleries (tz1/tz2/tz3 addresses + domains)
  * - CURATION: objkt.com curations
  * - COLLECTION: Contract-based collections
+ * - ARTIST: Tokens created by an address, across all contracts
  */
 
 // Gallery types supported by the system
-export type GalleryType = "USER" | "CURATION" | "COLLECTION";
+export type GalleryType = "USER" | "CURATION" | "COLLECTION" | "ARTIST";
+export const GALLERY_TYPES: GalleryType[] = ["USER", "CURATION", "COLLECTION", "ARTIST"];
 
 // Input type classification for metadata
-export type InputType = "address" | "domain" | "objkt-curation" | "objkt-collection" | "raw-id";
+export type InputType = "address" | "domain" | "objkt-curation" | "objkt-collection" | "objkt-profile" | "raw-id";
 
 // Comprehensive parsed input result
 export interface ParsedInput {
@@ -32,7 +34,7 @@ export interface ParsedInput {
 // Gallery configuration interface
 export interface GalleryConfig {
     type: GalleryType;
-    identifier: string; // address, curation ID, or collection address
+    identifier: string; // address, curation ID, collection address, or artist address
     source: "tzkt" | "objkt";
     title?: string;
     description?: string;
@@ -51,6 +53,10 @@ export function isCollectionGallery(parsed: ParsedInput): boolean {
     return parsed.type === "COLLECTION" && parsed.isValid;
 }
 
+export function isArtistGallery(parsed: ParsedInput): boolean {
+    return parsed.type === "ARTIST" && parsed.isValid;
+}
+
 // Route generation helpers
 export function generateGalleryRoute(type: GalleryType, id: string): string {
     switch (type) {
@@ -60,6 +66,8 @@ export function generateGalleryRoute(type: GalleryType, id: string): string {
             return `/curation/${id}`;
         case "COLLECTION":
             return `/collection/${id}`;
+        case "ARTIST":
+            return `/artist/${id}`;
         default:
             throw new Error(`Unknown gallery type: ${type}`);
     }
@@ -74,6 +82,24 @@ export function validateGalleryIdentifier(type: GalleryType, identifier: string)
             return isValidCurationId(identifier) || isValidCurationSlug(identifier);
         case "COLLECTION":
             return isValidContractAddress(identifier);
+        case "ARTIST":
+            return isValidTezosAddress(identifier);
+        default:
+            return false;
+    }
+}
+
+// Validation helper for the identifier a gallery is cached under (addresses and curation IDs only -
+// nothing that could act as a key pattern)
+export function isValidCacheIdentifier(type: GalleryType, identifier: string): boolean {
+    switch (type) {
+        case "USER":
+        case "ARTIST":
+            return isValidTezosAddress(identifier);
+        case "CURATION":
+            return isValidCurationId(identifier);
+        case "COLLECTION":
+            return isValidContractAddress(identifier);
         default:
             return false;
     }
@@ -50,6 +50,11 @@ export interface UnifiedMetadata {
 
     // Additional metadata
     creators?: string[];
+    creatorProfiles?: Array<{
+        address: string;
+        alias?: string;
+        domain?: string;
+    }>;
     tags?: string[];
     attributes?: Array<{
         trait_type: string;
@@ -70,6 +75,14 @@ export interface UnifiedMetadata {
     completeness?: number;
 }
 
+/**
+ * The operation that delivered a holding to its wallet
+ */
+export interface TransferOrigin {
+    sender: string; // Account that called the token contract (the marketplace contract for purchases)
+    initiator: string; // Account that signed the operation (the buyer for purchases, the sender for airdrops)
+}
+
 /**
  * Unified token representation
  */
@@ -100,6 +113,7 @@ export interface UnifiedToken {
     lastTransferAt?: Date;
     firstMintAt?: Date;
     transferCount?: number;
+    receivedVia?: TransferOrigin; // Set for single-transfer holdings when the provider was asked for origins
 
     // Computed fields for gallery
     displayImage?: string; // Best image URL for display
@@ -172,6 +186,9 @@ export interface UnifiedCollection {
 
     // Sources that contributed to this collection
     sources: DataSource[];
+
+    // A provider limit was reached - the stats cover only the fetched part of the collection
+    truncated?: boolean;
 }
 
 /**
@@ -185,6 +202,15 @@ export interface FilterResult {
     executionTime: number;
 }
 
+/**
+ * A token removed by filtering, with the reason it was hidden
+ */
+export interface ExcludedToken {
+    token: UnifiedToken;
+    reason: string; // Stage that removed it (metadata, balance, utility, contract, image, name, spam, rule:<name>)
+    explanation: string; // Human-readable reason for display
+}
+
 /**
  * Helper type for token transformations
  */
@@ -0,0 +1,90 @@
+/**
+ * Admin authentication for cache administration routes
+ *
+ * Requests must send `Authorization: Bearer <token>`, where the token is either the
+ * CACHE_ADMIN_SECRET itself or a short-lived signed token `<expiresAt>.<signature>`
+ * (expiresAt in unix seconds, signature = base64url HMAC-SHA256 of expiresAt with the secret).
+ * Scheduled jobs may also use CRON_SECRET, which Vercel Cron sends as a bearer token.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Result of checking an admin request
+ */
+export type AdminAuthResult = { authorized: true } | { authorized: false; status: 401 | 503; error: string };
+
+/**
+ * Shared secret for the admin API (admin routes are disabled without it)
+ */
+function getAdminSecret(): string | null {
+    return process.env.CACHE_ADMIN_SECRET || null;
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function sign(expiresAt: string, secret: string): string {
+    return createHmac("sha256", secret).update(expiresAt).digest("base64url");
+}
+
+/**
+ * Create a signed admin token that expires after `ttlSeconds`
+ */
+export function createAdminToken(ttlSeconds: number = 3600, secret: string | null = getAdminSecret()): string {
+    if (!secret) {
+        throw new Error("CACHE_ADMIN_SECRET is not configured");
+    }
+
+    const expiresAt = String(Math.floor(Date.now() / 1000) + ttlSeconds);
+    return `${expiresAt}.${sign(expiresAt, secret)}`;
+}
+
+/**
+ * Check the bearer token on an admin request
+ */
+export function verifyAdminRequest(headers: Headers): AdminAuthResult {
+    const secret = getAdminSecret();
+    if (!secret) {
+        return { authorized: false, status: 503, error: "Cache admin API is not configured" };
+    }
+
+    const [scheme, token] = (headers.get("authorization") || "").split(" ");
+    if (scheme !== "Bearer" || !token) {
+        return { authorized: false, status: 401, error: "Missing bearer token" };
+    }
+
+    if (safeEqual(token, secret)) {
+        return { authorized: true };
+    }
+
+    const [expiresAt, signature] = token.split(".");
+    if (!expiresAt || !signature || !safeEqual(signature, sign(expiresAt, secret))) {
+        return { authorized: false, status: 401, error: "Invalid admin token" };
+    }
+
+    if (!/^\d+$/.test(expiresAt) || parseInt(expiresAt) * 1000 <= Date.now()) {
+        return { authorized: false, status: 401, error: "Admin token has expired" };
+    }
+
+    return { authorized: true };
+}
+
+/**
+ * Check a scheduled job request - accepts the CRON_SECRET bearer token or any admin token
+ */
+export function verifyCronRequest(headers: Headers): AdminAuthResult {
+    const cronSecret = process.env.CRON_SECRET;
+    if (cronSecret && safeEqual(headers.get("authorization") || "", `Bearer ${cronSecret}`)) {
+        return { authorized: true };
+    }
+
+    const result = verifyAdminRequest(headers);
+    if (!result.authorized && result.status === 503 && cronSecret) {
+        return { authorized: false, status: 401, error: "Invalid cron secret" };
+    }
+    return result;
+}
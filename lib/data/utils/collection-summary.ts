@@ -0,0 +1,83 @@
+/**
+ * Collection Summary - Gallery overview stats
+ *
+ * Computes a UnifiedCollection from a gallery's filtered tokens. Summaries are built with the collection and
+ * cached next to it, so they always describe the tokens the gallery shows.
+ */
+
+import {
+    DataSource,
+    TokenStandard,
+    UnifiedCollection,
+    UnifiedToken,
+    calculateCompletenessScore,
+    getDisplayImage,
+} from "../types/token-types";
+
+/**
+ * Contracts listed in a summary's topContracts
+ */
+const TOP_CONTRACTS_LIMIT = 10;
+
+/**
+ * Summarize a collection - address is the gallery identifier (wallet, curation ID or contract)
+ */
+export function summarizeCollection(
+    address: string,
+    tokens: UnifiedToken[],
+    sources: DataSource[] = [],
+    truncated: boolean = false
+): UnifiedCollection {
+    const standardsBreakdown: Record<TokenStandard, number> = {
+        "fa1.2": 0,
+        fa2: 0,
+        "fa1.2-single-asset": 0,
+        "fa2-single-asset": 0,
+        "fa2-multi-asset": 0,
+        unknown: 0,
+    };
+    const contracts = new Map<string, { address: string; count: number; name?: string }>();
+    let totalWithMetadata = 0;
+    let totalWithImages = 0;
+    let completenessTotal = 0;
+    let oldest: number | undefined;
+    let newest: number | undefined;
+
+    for (const token of tokens) {
+        standardsBreakdown[token.standard in standardsBreakdown ? token.standard : "unknown"]++;
+
+        const { contractAddress, contractAlias } = token;
+        const contract = contracts.get(contractAddress);
+        if (contract) contract.count++;
+        else contracts.set(contractAddress, { address: contractAddress, count: 1, name: contractAlias });
+
+        if (token.hasMetadata) totalWithMetadata++;
+        if (token.hasImage || getDisplayImage(token)) totalWithImages++;
+        completenessTotal += token.metadata?.completeness ?? calculateCompletenessScore(token);
+
+        // Cached tokens carry dates as strings
+        const mintedAt = token.firstMintAt ? new Date(token.firstMintAt).getTime() : NaN;
+        if (!Number.isNaN(mintedAt)) {
+            oldest = oldest === undefined ? mintedAt : Math.min(oldest, mintedAt);
+            newest = newest === undefined ? mintedAt : Math.max(newest, mintedAt);
+        }
+    }
+
+    const total = tokens.length;
+
+    return {
+        address,
+        totalTokens: total,
+        totalWithMetadata,
+        totalWithImages,
+        standardsBreakdown,
+        topContracts: [...contracts.values()].sort((a, b) => b.count - a.count).slice(0, TOP_CONTRACTS_LIMIT),
+        metadataCompleteness: total > 0 ? completenessTotal / total : 0,
+        imageAvailability: total > 0 ? totalWithImages / total : 0,
+        lastFetchedAt: new Date(),
+        oldestToken: oldest !== undefined ? new Date(oldest) : undefined,
+        newestToken: newest !== undefined ? new Date(newest) : undefined,
+        sources,
+        truncated: truncated || undefined,
+    };
+}
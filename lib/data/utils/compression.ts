@@ -1,9 +1,11 @@
 /**
  * Compression utilities for cache data
  *
- * Provides gzip compression and decompression for Redis cache values
- * to reduce memory usage and network transfer costs.
- * Uses base64 encoding for Redis storage compatibility.
+ * Provides gzip, Brotli and (where the runtime supports it) zstd compression for Redis
+ * cache values to reduce memory usage and network transfer costs.
+ * Uses base64 encoding for Redis storage compatibility. Non-gzip payloads carry a
+ * `<codec>:` prefix so any entry can be decoded without its metadata; gzip payloads
+ * stay unprefixed, which keeps entries written before codecs existed readable.
  */
 
 import zlib from "zlib";
@@ -12,6 +14,23 @@ import { promisify } from "util";
 // Promisified compression functions
 const gzipPromise = promisify(zlib.gzip);
 const gunzipPromise = promisify(zlib.gunzip);
+const brotliCompressPromise = promisify(zlib.brotliCompress);
+const brotliDecompressPromise = promisify(zlib.brotliDecompress);
+
+/**
+ * Available codecs - zstd needs Node 22.15+
+ */
+export const COMPRESSION_CODECS = ["gzip", "brotli", "zstd"] as const;
+export type CompressionCodec = (typeof COMPRESSION_CODECS)[number];
+
+/**
+ * Codec for one payload size range (adaptive mode)
+ */
+export interface AdaptiveCodecTier {
+    maxSize: number; // Payloads up to this many bytes use this tier
+    codec: CompressionCodec;
+    level: number;
+}
 
 /**
  * Configuration for compression
@@ -19,7 +38,10 @@ const gunzipPromise = promisify(zlib.gunzip);
 export interface CompressionConfig {
     enabled: boolean;
     threshold: number; // Compress if larger than N bytes
-    level: number; // 1-9, higher = better compression but slower
+    level: number; // Codec level - gzip 1-9, brotli 0-11, zstd 1-22 (higher = smaller but slower)
+    codec: CompressionCodec | "adaptive";
+    adaptiveTiers: AdaptiveCodecTier[]; // Checked in order when codec is "adaptive"
+    maxRatio: number; // Store uncompressed when compressed/original is above this
 }
 
 /**
@@ -29,6 +51,13 @@ export const DEFAULT_COMPRESSION_CONFIG: CompressionConfig = {
     enabled: true,
     threshold: 1024, // 1KB threshold
     level: 6, // Balanced compression level
+    codec: "adaptive",
+    adaptiveTiers: [
+        { maxSize: 64 * 1024, codec: "brotli", level: 11 }, // Small payloads - best ratio is cheap
+        { maxSize: 2 * 1024 * 1024, codec: "brotli", level: 6 },
+        { maxSize: Infinity, codec: "gzip", level: 6 }, // Very large payloads - keep builds fast
+    ],
+    maxRatio: 0.9, // Less than 10% savings is not worth the CPU overhead
 };
 
 /**
@@ -37,9 +66,95 @@ export const DEFAULT_COMPRESSION_CONFIG: CompressionConfig = {
 export interface CompressionResult {
     data: string; // Base64 encoded string for Redis storage
     isCompressed: boolean;
+    codec?: CompressionCodec; // Set when compressed
     originalSize: number;
     compressedSize: number;
     compressionRatio: number;
+    compressTimeMs?: number;
+}
+
+interface CodecImplementation {
+    compress(input: Buffer, level: number): Promise<Buffer>;
+    decompress(input: Buffer): Promise<Buffer>;
+}
+
+const CODECS: Record<CompressionCodec, CodecImplementation | null> = {
+    gzip: {
+        compress: (input, level) => gzipPromise(input, { level }),
+        decompress: (input) => gunzipPromise(input),
+    },
+    brotli: {
+        compress: (input, level) =>
+            brotliCompressPromise(input, {
+                params: {
+                    [zlib.constants.BROTLI_PARAM_QUALITY]: level,
+                    [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
+                    [zlib.constants.BROTLI_PARAM_SIZE_HINT]: input.length,
+                },
+            }),
+        decompress: (input) => brotliDecompressPromise(input),
+    },
+    zstd:
+        typeof zlib.zstdCompress === "function"
+            ? {
+                  compress: (input, level) =>
+                      promisify(zlib.zstdCompress)(input, {
+                          params: { [zlib.constants.ZSTD_c_compressionLevel]: level },
+                      }),
+                  decompress: (input) => promisify(zlib.zstdDecompress)(input),
+              }
+            : null,
+};
+
+/**
+ * Whether the runtime can use a codec
+ */
+export function isCodecAvailable(codec: CompressionCodec): boolean {
+    return CODECS[codec] !== null;
+}
+
+/**
+ * Codec and level for a payload (unavailable codecs fall back to gzip)
+ */
+export function selectCodec(
+    originalSize: number,
+    config: CompressionConfig = DEFAULT_COMPRESSION_CONFIG
+): { codec: CompressionCodec; level: number } {
+    const choice =
+        config.codec === "adaptive"
+            ? config.adaptiveTiers.find((tier) => originalSize <= tier.maxSize) || { codec: "gzip", level: 6 }
+            : { codec: config.codec, level: config.level };
+
+    return isCodecAvailable(choice.codec) ? choice : { codec: "gzip", level: Math.min(choice.level, 9) };
+}
+
+/**
+ * Parse a codec setting (e.g. CACHE_COMPRESSION_CODEC), falling back to adaptive
+ */
+export function resolveCompressionCodec(value: string | undefined): CompressionConfig["codec"] {
+    if (!value || value === "adaptive") {
+        return "adaptive";
+    }
+
+    if (!COMPRESSION_CODECS.includes(value as CompressionCodec)) {
+        console.warn(`⚠️ Unknown compression codec "${value}", using adaptive`);
+        return "adaptive";
+    }
+    return value as CompressionCodec;
+}
+
+/**
+ * Split a stored payload into its codec and base64 body
+ */
+function parsePayload(data: string): { codec: CompressionCodec; body: string } {
+    const separator = data.indexOf(":");
+    if (separator > 0) {
+        const prefix = data.slice(0, separator) as CompressionCodec;
+        if (COMPRESSION_CODECS.includes(prefix)) {
+            return { codec: prefix, body: data.slice(separator + 1) };
+        }
+    }
+    return { codec: "gzip", body: data };
 }
 
 /**
@@ -64,36 +179,45 @@ export async function compressData(
         };
     }
 
+    const { codec, level } = selectCodec(originalSize, config);
+
     try {
-        // Compress the data using your proven approach
-        const compressedBuffer = await gzipPromise(jsonString);
+        const start = performance.now();
+        const compressedBuffer = await CODECS[codec]!.compress(Buffer.from(jsonString, "utf-8"), level);
+        const compressTimeMs = performance.now() - start;
         const compressedSize = compressedBuffer.length;
         const compressionRatio = compressedSize / originalSize;
 
         // Only use compression if it actually reduces size significantly
-        if (compressionRatio > 0.9) {
-            // Less than 10% savings, not worth the CPU overhead
+        const worthIt = compressionRatio <= config.maxRatio;
+        compressionStats.recordCompression(codec, originalSize, compressedSize, compressTimeMs, worthIt);
+
+        if (!worthIt) {
             return {
                 data: jsonString, // Return uncompressed JSON string
                 isCompressed: false,
                 originalSize,
                 compressedSize: originalSize,
                 compressionRatio: 1.0,
+                compressTimeMs,
             };
         }
 
-        // Convert compressed buffer to base64 string for Redis storage
-        const compressedData = compressedBuffer.toString("base64");
+        // Convert compressed buffer to base64 string for Redis storage (gzip stays unprefixed)
+        const encoded = compressedBuffer.toString("base64");
 
         return {
-            data: compressedData, // Base64 encoded compressed data
+            data: codec === "gzip" ? encoded : `${codec}:${encoded}`,
             isCompressed: true,
+            codec,
             originalSize,
             compressedSize,
             compressionRatio,
+            compressTimeMs,
         };
     } catch (error) {
-        console.warn("Compression failed, storing uncompressed:", error);
+        compressionStats.recordError();
+        console.warn(`Compression (${codec}) failed, storing uncompressed:`, error);
         return {
             data: jsonString, // Fallback to uncompressed JSON string
             isCompressed: false,
@@ -106,16 +230,23 @@ export async function compressData(
 
 /**
  * Decompress data if it was compressed
- * Accepts either base64 string (compressed) or plain JSON string (uncompressed)
+ * Accepts either base64 string (compressed, codec-prefixed or legacy gzip) or plain JSON string (uncompressed)
  */
 export async function decompressData(data: string, isCompressed: boolean): Promise<any> {
     try {
         let jsonString: string;
 
         if (isCompressed) {
-            // Decompress the base64 encoded data (following your working approach)
-            const decompressedBuffer = await gunzipPromise(Buffer.from(data, "base64"));
+            const { codec, body } = parsePayload(data);
+            const implementation = CODECS[codec];
+            if (!implementation) {
+                throw new Error(`${codec} is not supported by this runtime`);
+            }
+
+            const start = performance.now();
+            const decompressedBuffer = await implementation.decompress(Buffer.from(body, "base64"));
             jsonString = decompressedBuffer.toString("utf-8");
+            compressionStats.recordDecompression(codec, performance.now() - start);
         } else {
             // Data is not compressed, use directly
             jsonString = data;
@@ -134,14 +265,27 @@ export async function decompressData(data: string, isCompressed: boolean): Promi
  */
 export async function estimateCompressionRatio(data: any): Promise<number> {
     const result = await compressData(data, {
-        enabled: true,
+        ...DEFAULT_COMPRESSION_CONFIG,
         threshold: 0, // Force compression regardless of size
-        level: 6,
     });
 
     return result.compressionRatio;
 }
 
+/**
+ * Per-codec statistics - sizes include results rejected for saving too little
+ */
+export interface CodecStats {
+    compressions: number;
+    rejected: number; // Stored uncompressed because the ratio was above maxRatio
+    decompressions: number;
+    originalSize: number;
+    compressedSize: number;
+    compressionRatio: number;
+    compressTimeMs: number; // Time spent in the codec
+    decompressTimeMs: number;
+}
+
 /**
  * Compression statistics for monitoring
  */
@@ -154,13 +298,11 @@ export interface CompressionStats {
     averageCompressionRatio: number;
     totalTimeSaved: number; // Estimated based on network transfer
     errors: number;
+    byCodec: Record<string, CodecStats>;
 }
 
-/**
- * Global compression statistics tracker (optional)
- */
-class CompressionStatsTracker {
-    private stats: CompressionStats = {
+function emptyCompressionStats(): CompressionStats {
+    return {
         totalOperations: 0,
         compressionOperations: 0,
         decompressionOperations: 0,
@@ -169,25 +311,58 @@ class CompressionStatsTracker {
         averageCompressionRatio: 1.0,
         totalTimeSaved: 0,
         errors: 0,
+        byCodec: {},
     };
+}
+
+/**
+ * Global compression statistics tracker (optional)
+ */
+class CompressionStatsTracker {
+    private stats: CompressionStats = emptyCompressionStats();
+
+    /**
+     * Record a compression attempt - only stored results count towards the totals
+     */
+    recordCompression(
+        codec: CompressionCodec,
+        originalSize: number,
+        compressedSize: number,
+        timeMs: number,
+        stored: boolean
+    ): void {
+        const codecStats = this.codecStats(codec);
+        codecStats.compressions++;
+        codecStats.originalSize += originalSize;
+        codecStats.compressedSize += compressedSize;
+        codecStats.compressionRatio = codecStats.compressedSize / codecStats.originalSize;
+        codecStats.compressTimeMs += timeMs;
+
+        if (!stored) {
+            codecStats.rejected++;
+            return;
+        }
 
-    recordCompression(result: CompressionResult): void {
         this.stats.totalOperations++;
         this.stats.compressionOperations++;
-        this.stats.totalOriginalSize += result.originalSize;
-        this.stats.totalCompressedSize += result.compressedSize;
+        this.stats.totalOriginalSize += originalSize;
+        this.stats.totalCompressedSize += compressedSize;
 
         // Recalculate average compression ratio
         this.stats.averageCompressionRatio = this.stats.totalCompressedSize / this.stats.totalOriginalSize;
 
         // Estimate time saved (assuming 1MB/s network transfer)
-        const byteSaved = result.originalSize - result.compressedSize;
+        const byteSaved = originalSize - compressedSize;
         this.stats.totalTimeSaved += byteSaved / (1024 * 1024); // seconds
     }
 
-    recordDecompression(): void {
+    recordDecompression(codec: CompressionCodec, timeMs: number): void {
         this.stats.totalOperations++;
         this.stats.decompressionOperations++;
+
+        const codecStats = this.codecStats(codec);
+        codecStats.decompressions++;
+        codecStats.decompressTimeMs += timeMs;
     }
 
     recordError(): void {
@@ -195,20 +370,30 @@ class CompressionStatsTracker {
     }
 
     getStats(): CompressionStats {
-        return { ...this.stats };
+        const byCodec = Object.fromEntries(
+            Object.entries(this.stats.byCodec).map(([codec, stats]) => [codec, { ...stats }])
+        );
+        return { ...this.stats, byCodec };
     }
 
     reset(): void {
-        this.stats = {
-            totalOperations: 0,
-            compressionOperations: 0,
-            decompressionOperations: 0,
-            totalOriginalSize: 0,
-            totalCompressedSize: 0,
-            averageCompressionRatio: 1.0,
-            totalTimeSaved: 0,
-            errors: 0,
-        };
+        this.stats = emptyCompressionStats();
+    }
+
+    private codecStats(codec: CompressionCodec): CodecStats {
+        if (!this.stats.byCodec[codec]) {
+            this.stats.byCodec[codec] = {
+                compressions: 0,
+                rejected: 0,
+                decompressions: 0,
+                originalSize: 0,
+                compressedSize: 0,
+                compressionRatio: 1.0,
+                compressTimeMs: 0,
+                decompressTimeMs: 0,
+            };
+        }
+        return this.stats.byCodec[codec];
     }
 }
 
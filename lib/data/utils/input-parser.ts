@@ -4,7 +4,7 @@
  * Single utility handling ALL input types for the gallery system:
  * - Tezos addresses (tz1, tz2, tz3, KT1)
  * - Domain names (.tez, etc.)
- * - objkt.com URLs (curations and collections)
+ * - objkt.com URLs (curations, collections and artist profiles)
  * - Raw IDs (curation IDs and slugs)
  *
  * Replaces and extends the existing resolveDomainToAddress functionality
@@ -44,11 +44,15 @@ export class InputParser {
         const objktResult = this.parseObjktUrl(trimmed);
         if (objktResult.isValid) return objktResult;
 
-        // 3. Raw ID Detection (pure numbers for curations, contract addresses)
+        // 3. objkt.com profile URLs (artist galleries)
+        const profileResult = await this.parseObjktProfileUrl(trimmed);
+        if (profileResult.isValid) return profileResult;
+
+        // 4. Raw ID Detection (pure numbers for curations, contract addresses)
         const idResult = this.parseRawId(trimmed);
         if (idResult.isValid) return idResult;
 
-        // 4. Domain Resolution (tezos domains, .tez, etc.)
+        // 5. Domain Resolution (tezos domains, .tez, etc.)
         const domainResult = await this.parseDomain(trimmed);
         if (domainResult.isValid) return domainResult;
 
@@ -143,6 +147,46 @@ export class InputParser {
         return this.createInvalidResult(input, "Unrecognized objkt.com URL format");
     }
 
+    /**
+     * Parse objkt.com profile URLs: objkt.com/profile/<address or domain>[/created]
+     * A profile opens the ARTIST gallery (the works it created, not its wallet); domains are resolved first
+     */
+    private static async parseObjktProfileUrl(input: string): Promise<ParsedInput> {
+        const profileMatch = input.match(/objkt\.com\/profile\/([^/?#\s]+)/);
+        if (!profileMatch) {
+            return this.createInvalidResult(input, "Not an objkt.com profile URL");
+        }
+
+        try {
+            const profile = decodeURIComponent(profileMatch[1]);
+            let artistAddress: string | undefined = profile;
+
+            if (!isValidTezosAddress(profile)) {
+                const domains = await tzktSdkClient.getDomainsByName(profile, 1);
+                artistAddress = domains[0]?.address?.address ?? undefined;
+            }
+
+            if (!artistAddress || !isValidTezosAddress(artistAddress)) {
+                return this.createInvalidResult(input, "objkt.com profile not found");
+            }
+
+            return {
+                type: "ARTIST",
+                id: artistAddress,
+                isValid: true,
+                route: generateGalleryRoute("ARTIST", artistAddress),
+                metadata: {
+                    inputType: "objkt-profile",
+                    originalInput: input,
+                    extractedId: profile,
+                    resolvedAddress: artistAddress !== profile ? artistAddress : undefined,
+                },
+            };
+        } catch (error) {
+            return this.createInvalidResult(input, `Profile resolution failed: ${error}`);
+        }
+    }
+
     /**
      * Parse raw IDs (numbers for curations, contract addresses)
      * NEW FUNCTIONALITY for direct curation ID/slug input
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { groupTokens, parseGroupParam, roomOfPosition } from "./token-group";
+import { UnifiedMetadata, UnifiedToken } from "../types/token-types";
+
+function token(id: string, metadata: UnifiedMetadata = {}, overrides: Partial<UnifiedToken> = {}): UnifiedToken {
+    return {
+        id,
+        contractAddress: "KT1ContractContractContractContract1",
+        tokenId: id,
+        balance: "1",
+        standard: "fa2",
+        metadata,
+        source: { provider: "tzkt", version: "v1", endpoint: "https://api.tzkt.io", priority: 1 },
+        fetchedAt: new Date("2024-01-01T00:00:00Z"),
+        isValid: true,
+        hasImage: true,
+        hasMetadata: true,
+        ...overrides,
+    };
+}
+
+const ids = (tokens: UnifiedToken[]) => tokens.map((t) => t.id);
+const byArtist = (id: string, artist?: string) => token(id, { creators: artist ? [artist] : undefined });
+
+describe("groupTokens", () => {
+    it("keeps groups in order of their first token, with ungrouped tokens last", () => {
+        const tokens = [byArtist("b1", "bob"), byArtist("x"), byArtist("a1", "alice"), byArtist("b2", "bob")];
+
+        const { tokens: grouped } = groupTokens(tokens, "artist", 10);
+
+        expect(ids(grouped)).toEqual(["b1", "b2", "a1", "x"]);
+    });
+
+    it("shares rooms between small groups and labels them", () => {
+        const tokens = [byArtist("b1", "bob"), byArtist("a1", "alice"), byArtist("c1", "carol"), byArtist("x")];
+
+        const { rooms } = groupTokens(tokens, "artist", 2);
+
+        expect(rooms).toEqual([
+            { start: 0, size: 2, label: "works by bob and alice" },
+            { start: 2, size: 2, label: "works by carol and unknown artists" },
+        ]);
+    });
+
+    it("spills large groups across rooms of their own", () => {
+        const tokens = [
+            byArtist("a1", "alice"),
+            ...["b1", "b2", "b3"].map((id) => byArtist(id, "bob")),
+            byArtist("c1", "carol"),
+        ];
+
+        const { rooms } = groupTokens(tokens, "artist", 2);
+
+        expect(rooms).toEqual([
+            { start: 0, size: 1, label: "works by alice" },
+            { start: 1, size: 2, label: "works by bob" },
+            { start: 3, size: 1, label: "works by bob" },
+            { start: 4, size: 1, label: "works by carol" },
+        ]);
+    });
+
+    it("puts each token under its tag with the most works", () => {
+        const tokens = [
+            token("t1", { tags: ["Glitch", "rare"] }),
+            token("t2", { tags: ["glitch"] }),
+            token("t3", { tags: ["rare", "pixel"] }),
+            token("t4", { tags: ["pixel", "glitch"] }),
+            token("t5"),
+        ];
+
+        const { tokens: grouped, rooms } = groupTokens(tokens, "tag", 3);
+
+        expect(ids(grouped)).toEqual(["t1", "t2", "t4", "t3", "t5"]);
+        expect(rooms.map((room) => room.label)).toEqual(["tagged #glitch", "tagged #rare and untagged works"]);
+    });
+
+    it("groups by contract alias", () => {
+        const tokens = [
+            token("h1", {}, { contractAlias: "Hic et Nunc" }),
+            token("o1", {}, { contractAddress: "KT1OtherOtherOtherOtherOtherOtherOthe" }),
+            token("h2", {}, { contractAlias: "Hic et Nunc" }),
+        ];
+
+        const { tokens: grouped, rooms } = groupTokens(tokens, "contract", 2);
+
+        expect(ids(grouped)).toEqual(["h1", "h2", "o1"]);
+        expect(rooms[0].label).toBe("from Hic et Nunc");
+    });
+});
+
+describe("roomOfPosition", () => {
+    const rooms = [
+        { start: 0, size: 2, label: "" },
+        { start: 2, size: 3, label: "" },
+        { start: 5, size: 1, label: "" },
+    ];
+
+    it("finds the 1-based room holding a position", () => {
+        expect([0, 1, 2, 4, 5].map((position) => roomOfPosition(rooms, position))).toEqual([1, 1, 2, 2, 3]);
+    });
+});
+
+describe("parseGroupParam", () => {
+    it("reads the group mode, defaulting to none", () => {
+        expect(parseGroupParam(new URLSearchParams("group=tag"))).toEqual({ valid: true, group: "tag" });
+        expect(parseGroupParam(new URLSearchParams(""))).toEqual({ valid: true, group: "none" });
+        expect(parseGroupParam(new URLSearchParams("group=color")).valid).toBe(false);
+    });
+});
@@ -0,0 +1,178 @@
+/**
+ * Token Group - Thematic rooms
+ *
+ * Instead of plain slices of the sorted collection, a grouped gallery gives each artist, contract or tag its
+ * own rooms. Groups larger than a room spill into several rooms; small neighbouring groups share one.
+ */
+
+import type { UnifiedToken } from "../types/token-types";
+import { creatorOf } from "./token-sort";
+
+/**
+ * Supported grouping modes
+ * - none: fixed-size rooms
+ * - artist: first creator (alias, then address)
+ * - contract: contract (alias, then address)
+ * - tag: the token's most common tag across the gallery
+ */
+export const GROUP_MODES = ["none", "artist", "contract", "tag"] as const;
+export type GroupMode = (typeof GROUP_MODES)[number];
+
+/**
+ * One room of a grouped gallery
+ */
+export interface RoomGroup {
+    start: number; // Position of the room's first token in the grouped collection
+    size: number;
+    label: string; // e.g. "works by alice", "from Hic et Nunc", "tagged #glitch and #pixel"
+}
+
+export type GroupParseResult = { valid: true; group: GroupMode } | { valid: false; error: string };
+
+/**
+ * Read the `group` query param
+ */
+export function parseGroupParam(searchParams: URLSearchParams): GroupParseResult {
+    const group = searchParams.get("group") || "none";
+
+    if (!GROUP_MODES.includes(group as GroupMode)) {
+        return { valid: false, error: `Group parameter must be one of: ${GROUP_MODES.join(", ")}` };
+    }
+
+    return { valid: true, group: group as GroupMode };
+}
+
+/**
+ * Whether a grouping mode changes the room layout
+ */
+export function isGrouped(group?: GroupMode): group is Exclude<GroupMode, "none"> {
+    return !!group && group !== "none";
+}
+
+/**
+ * "a", "a and b", "a, b and c", "a, b and 3 others"
+ */
+function listOf(names: string[]): string {
+    if (names.length <= 1) return names[0] ?? "";
+    if (names.length > 3) return `${names.slice(0, 2).join(", ")} and ${names.length - 2} others`;
+    return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
+
+/**
+ * Room label for the groups in a room (undefined names are tokens without a group)
+ */
+function labelFor(mode: GroupMode, names: Array<string | undefined>): string {
+    const known = names.filter((name): name is string => name !== undefined);
+    const unknown = known.length < names.length;
+
+    switch (mode) {
+        case "artist":
+            return `works by ${listOf(unknown ? [...known, "unknown artists"] : known)}`;
+        case "contract":
+            return `from ${listOf(unknown ? [...known, "unknown contracts"] : known)}`;
+        case "tag":
+            if (known.length === 0) return "untagged works";
+            return `tagged ${listOf(known.map((tag) => `#${tag}`))}${unknown ? " and untagged works" : ""}`;
+        default:
+            return "";
+    }
+}
+
+/**
+ * Arrange a collection into thematic rooms of at most roomSize tokens. Groups keep the order of their first
+ * token (so a sorted collection gives sorted groups) and tokens keep their order within a group; tokens
+ * without a group come last.
+ */
+export function groupTokens(
+    tokens: UnifiedToken[],
+    mode: GroupMode,
+    roomSize: number
+): { tokens: UnifiedToken[]; rooms: RoomGroup[] } {
+    // Tags are shared, so each token joins its tag with the most works in the gallery
+    const tagCounts = new Map<string, number>();
+    if (mode === "tag") {
+        for (const token of tokens) {
+            for (const tag of new Set(token.metadata?.tags?.map((tag) => tag.trim().toLowerCase()))) {
+                if (tag) tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+            }
+        }
+    }
+
+    const groupOf = (token: UnifiedToken): string | undefined => {
+        switch (mode) {
+            case "artist":
+                return creatorOf(token);
+            case "contract":
+                return token.contractAlias || token.contractAddress;
+            case "tag":
+                return (token.metadata?.tags ?? [])
+                    .map((tag) => tag.trim().toLowerCase())
+                    .filter(Boolean)
+                    .reduce<string | undefined>(
+                        (best, tag) => (!best || tagCounts.get(tag)! > tagCounts.get(best)! ? tag : best),
+                        undefined
+                    );
+            default:
+                return undefined;
+        }
+    };
+
+    const groups = new Map<string | undefined, UnifiedToken[]>();
+    for (const token of tokens) {
+        const name = mode === "none" ? "" : groupOf(token);
+        const members = groups.get(name);
+        if (members) members.push(token);
+        else groups.set(name, [token]);
+    }
+
+    // Ungrouped tokens go last
+    const ungrouped = groups.get(undefined);
+    if (ungrouped) {
+        groups.delete(undefined);
+        groups.set(undefined, ungrouped);
+    }
+
+    const grouped: UnifiedToken[] = [];
+    const rooms: RoomGroup[] = [];
+    let shared: { start: number; size: number; names: Array<string | undefined> } | null = null;
+
+    const closeShared = () => {
+        if (shared) rooms.push({ start: shared.start, size: shared.size, label: labelFor(mode, shared.names) });
+        shared = null;
+    };
+
+    for (const [name, members] of groups) {
+        if (members.length > roomSize) {
+            // Spill across as many rooms as needed
+            closeShared();
+            for (let offset = 0; offset < members.length; offset += roomSize) {
+                const size = Math.min(roomSize, members.length - offset);
+                rooms.push({ start: grouped.length + offset, size, label: labelFor(mode, [name]) });
+            }
+        } else if (shared && shared.size + members.length <= roomSize) {
+            shared.size += members.length;
+            shared.names.push(name);
+        } else {
+            closeShared();
+            shared = { start: grouped.length, size: members.length, names: [name] };
+        }
+        grouped.push(...members);
+    }
+    closeShared();
+
+    return { tokens: grouped, rooms };
+}
+
+/**
+ * 1-based room holding a position of a grouped collection
+ */
+export function roomOfPosition(rooms: RoomGroup[], position: number): number {
+    let low = 0;
+    let high = rooms.length - 1;
+    while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (rooms[middle].start <= position) low = middle;
+        else high = middle - 1;
+    }
+    return low + 1;
+}
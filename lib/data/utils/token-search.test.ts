@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { MAX_SEARCH_RESULTS, buildSearchIndex, searchIndex } from "./token-search";
+import { UnifiedMetadata, UnifiedToken } from "../types/token-types";
+
+function token(id: string, metadata: UnifiedMetadata, overrides: Partial<UnifiedToken> = {}): UnifiedToken {
+    return {
+        id,
+        contractAddress: "KT1ContractContractContractContract1",
+        tokenId: id,
+        balance: "1",
+        standard: "fa2",
+        metadata,
+        source: { provider: "tzkt", version: "v1", endpoint: "https://api.tzkt.io", priority: 1 },
+        fetchedAt: new Date("2024-01-01T00:00:00Z"),
+        isValid: true,
+        hasImage: true,
+        hasMetadata: true,
+        ...overrides,
+    };
+}
+
+const roomOf = (position: number) => Math.floor(position / 2) + 1;
+
+describe("buildSearchIndex", () => {
+    it("indexes names, descriptions, tags, creators and the contract alias without accents", () => {
+        const [entry] = buildSearchIndex([
+            token(
+                "a",
+                {
+                    name: "Élan Vital",
+                    description: "Oil on canvas",
+                    tags: ["Abstract"],
+                    creatorProfiles: [{ address: "tz1Artist", alias: "Painter", domain: "painter.tez" }],
+                },
+                { contractAlias: "Studio Works" }
+            ),
+        ]);
+
+        expect(entry.id).toBe("a");
+        for (const word of ["elan vital", "oil on canvas", "abstract", "painter.tez", "studio works"]) {
+            expect(entry.text).toContain(word);
+        }
+    });
+
+    it("prefers the display name", () => {
+        const [entry] = buildSearchIndex([token("a", { name: "raw" }, { displayName: "Shown" })]);
+        expect(entry.text).toContain("shown");
+        expect(entry.text).not.toContain("raw");
+    });
+});
+
+describe("searchIndex", () => {
+    const index = buildSearchIndex([
+        token("sunset", { name: "Sunset over the sea", tags: ["landscape"] }),
+        token("portrait", { name: "Portrait", tags: ["figure"] }),
+        token("sea", { name: "Sea study", tags: ["landscape"] }),
+    ]);
+
+    it("matches tokens containing every query word, with their room", () => {
+        expect(searchIndex(index, "SEA landscape", roomOf)).toEqual([
+            { id: "sunset", position: 0, room: 1 },
+            { id: "sea", position: 2, room: 2 },
+        ]);
+        expect(searchIndex(index, "sea figure", roomOf)).toEqual([]);
+    });
+
+    it("ignores blank queries", () => {
+        expect(searchIndex(index, "   ", roomOf)).toEqual([]);
+    });
+
+    it("caps the number of results", () => {
+        const many = buildSearchIndex(Array.from({ length: 150 }, (_, i) => token(`t${i}`, { name: "Match" })));
+        expect(searchIndex(many, "match", roomOf)).toHaveLength(MAX_SEARCH_RESULTS);
+    });
+});
@@ -0,0 +1,78 @@
+/**
+ * Token Search - Full-text search within a gallery
+ *
+ * The index is built when a collection is cached and stored next to it, one entry per token in gallery
+ * order, so a match's position gives the room it hangs in.
+ */
+
+import type { UnifiedToken } from "../types/token-types";
+
+/**
+ * Searchable text of one token, in gallery order
+ */
+export interface SearchIndexEntry {
+    id: string;
+    text: string; // Normalized name, description, tags, creators and contract alias
+}
+
+/**
+ * A token matching a search, located in the gallery
+ */
+export interface SearchMatch {
+    id: string;
+    position: number; // 0-based position in the gallery
+    room: number; // 1-based room (page) the token is in
+}
+
+export const MAX_QUERY_LENGTH = 100;
+export const MAX_SEARCH_RESULTS = 100;
+
+/**
+ * Lowercase and strip accents, so "Élan" matches "elan"
+ */
+function normalize(value: string): string {
+    return value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+/**
+ * Build the search index for a collection
+ */
+export function buildSearchIndex(tokens: UnifiedToken[]): SearchIndexEntry[] {
+    return tokens.map((token) => {
+        const { metadata } = token;
+        const fields = [
+            token.displayName || metadata?.name,
+            metadata?.description,
+            ...(metadata?.tags ?? []),
+            ...(metadata?.creators ?? []),
+            ...(metadata?.creatorProfiles ?? []).flatMap((profile) => [profile.alias, profile.domain]),
+            token.contractAlias,
+        ];
+
+        return {
+            id: token.id,
+            text: normalize(fields.filter((field) => typeof field === "string" && field).join("\n")),
+        };
+    });
+}
+
+/**
+ * Tokens whose text contains every word of the query, in gallery order (at most MAX_SEARCH_RESULTS)
+ */
+export function searchIndex(
+    index: SearchIndexEntry[],
+    query: string,
+    roomOf: (position: number) => number
+): SearchMatch[] {
+    const terms = normalize(query).split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    const matches: SearchMatch[] = [];
+    for (let position = 0; position < index.length && matches.length < MAX_SEARCH_RESULTS; position++) {
+        const { id, text } = index[position];
+        if (terms.every((term) => text.includes(term))) {
+            matches.push({ id, position, room: roomOf(position) });
+        }
+    }
+    return matches;
+}
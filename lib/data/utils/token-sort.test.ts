@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { parseSortParams, sortKey, sortTokens } from "./token-sort";
+import { UnifiedToken } from "../types/token-types";
+
+function token(id: string, overrides: Partial<UnifiedToken> = {}): UnifiedToken {
+    return {
+        id,
+        contractAddress: "KT1ContractContractContractContract1",
+        tokenId: id,
+        balance: "1",
+        standard: "fa2",
+        metadata: { name: id },
+        source: { provider: "tzkt", version: "v1", endpoint: "https://api.tzkt.io", priority: 1 },
+        fetchedAt: new Date("2024-01-01T00:00:00Z"),
+        isValid: true,
+        hasImage: true,
+        hasMetadata: true,
+        ...overrides,
+    };
+}
+
+const ids = (tokens: UnifiedToken[]) => tokens.map((t) => t.id);
+
+describe("sortTokens", () => {
+    const minted = (id: string, date?: string) => token(id, { firstMintAt: date as unknown as Date });
+    const tokens = [minted("b", "2023-05-01"), minted("unknown"), minted("a", "2021-01-01"), minted("c", "2024-02-01")];
+
+    it("keeps the given order for the default sort", () => {
+        expect(ids(sortTokens(tokens, { mode: "default" }))).toEqual(["b", "unknown", "a", "c"]);
+    });
+
+    it("orders by mint date either way, with unknown dates last", () => {
+        expect(ids(sortTokens(tokens, { mode: "mint" }))).toEqual(["a", "b", "c", "unknown"]);
+        expect(ids(sortTokens(tokens, { mode: "mint", order: "desc" }))).toEqual(["c", "b", "a", "unknown"]);
+    });
+
+    it("falls back to the mint date when the acquisition date is missing", () => {
+        const acquired = [
+            token("late", { lastTransferAt: new Date("2024-06-01") }),
+            token("minted", { firstMintAt: new Date("2022-01-01") }),
+            token("early", { lastTransferAt: new Date("2023-01-01") }),
+        ];
+        expect(ids(sortTokens(acquired, { mode: "acquisition" }))).toEqual(["minted", "early", "late"]);
+    });
+
+    it("groups by artist with the oldest mint first", () => {
+        const byArtist = [
+            token("zed-new", { metadata: { creators: ["tz1Zed"] }, firstMintAt: new Date("2024-01-01") }),
+            token("alice", { metadata: { creatorProfiles: [{ address: "tz1Alice", alias: "alice" }] } }),
+            token("zed-old", { metadata: { creators: ["tz1Zed"] }, firstMintAt: new Date("2020-01-01") }),
+        ];
+        expect(ids(sortTokens(byArtist, { mode: "creator" }))).toEqual(["alice", "zed-old", "zed-new"]);
+    });
+
+    it("orders names and editions naturally", () => {
+        const named = [token("10", { metadata: { name: "Piece 10" } }), token("2", { metadata: { name: "piece 2" } })];
+        expect(ids(sortTokens(named, { mode: "name" }))).toEqual(["2", "10"]);
+
+        const editions = [
+            token("open", { metadata: { name: "open", supply: "500" } }),
+            token("unique", { metadata: { name: "unique", supply: "1" } }),
+        ];
+        expect(ids(sortTokens(editions, { mode: "editions" }))).toEqual(["unique", "open"]);
+    });
+
+    it("shuffles the same way for the same seed", () => {
+        const many = Array.from({ length: 20 }, (_, index) => token(`t${index}`));
+        const first = ids(sortTokens(many, { mode: "random", seed: "abc" }));
+
+        expect(ids(sortTokens([...many].reverse(), { mode: "random", seed: "abc" }))).toEqual(first);
+        expect(ids(sortTokens(many, { mode: "random", seed: "xyz" }))).not.toEqual(first);
+    });
+
+    it("does not modify the input", () => {
+        const input = [...tokens];
+        sortTokens(input, { mode: "mint" });
+        expect(ids(input)).toEqual(ids(tokens));
+    });
+});
+
+describe("parseSortParams", () => {
+    const parse = (query: string) => parseSortParams(new URLSearchParams(query));
+
+    it("reads sort and order", () => {
+        expect(parse("sort=mint&order=desc")).toEqual({ valid: true, sort: { mode: "mint", order: "desc" } });
+        expect(parse("")).toEqual({ valid: true, sort: { mode: "default", order: "asc" } });
+    });
+
+    it("seeds random sorts with the given seed or the current date", () => {
+        expect(parse("sort=random&seed=abc")).toEqual({ valid: true, sort: { mode: "random", seed: "abc" } });
+        expect(parse("sort=random")).toEqual({
+            valid: true,
+            sort: { mode: "random", seed: new Date().toISOString().slice(0, 10) },
+        });
+    });
+
+    it("rejects unknown modes, orders and unsafe seeds", () => {
+        expect(parse("sort=price").valid).toBe(false);
+        expect(parse("order=up").valid).toBe(false);
+        expect(parse("sort=random&seed=a:b").valid).toBe(false);
+    });
+});
+
+describe("sortKey", () => {
+    it("names each sort's cache key segment", () => {
+        expect(sortKey({ mode: "creator" })).toBe("creator-asc");
+        expect(sortKey({ mode: "mint", order: "desc" })).toBe("mint-desc");
+        expect(sortKey({ mode: "random", seed: "2025-07-08" })).toBe("random-2025-07-08");
+    });
+});
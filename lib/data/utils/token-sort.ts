@@ -0,0 +1,203 @@
+/**
+ * Token Sort - Orderings for gallery rooms
+ *
+ * Galleries are built and cached in their default order (acquisition for USER galleries, source order
+ * for curations and collections). Other orderings are derived from that collection and cached under
+ * their own sort key, so every room follows the chosen order.
+ */
+
+import type { UnifiedToken } from "../types/token-types";
+
+/**
+ * Supported sort modes
+ * - default: the gallery's natural order
+ * - acquisition: when the holder received the token (falls back to mint date)
+ * - mint: first mint date
+ * - creator: grouped by artist (alias, then address), oldest mint first within an artist
+ * - contract: grouped by contract, then token id
+ * - name: token name
+ * - editions: edition count (1/1s first)
+ * - random: shuffled by a seed - the same seed always gives the same order
+ */
+export const SORT_MODES = [
+    "default",
+    "acquisition",
+    "mint",
+    "creator",
+    "contract",
+    "name",
+    "editions",
+    "random",
+] as const;
+export type SortMode = (typeof SORT_MODES)[number];
+
+export const SORT_ORDERS = ["asc", "desc"] as const;
+export type SortOrder = (typeof SORT_ORDERS)[number];
+
+/**
+ * A gallery ordering
+ */
+export interface GallerySort {
+    mode: SortMode;
+    order?: SortOrder; // Default: asc (ignored by default and random)
+    seed?: string; // Random only
+}
+
+export const DEFAULT_SORT: GallerySort = { mode: "default" };
+
+/**
+ * Seeds are part of cache keys, so keep them short and key-safe
+ */
+const SEED_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+export type SortParseResult = { valid: true; sort: GallerySort } | { valid: false; error: string };
+
+/**
+ * Read `sort`, `order` and `seed` query params. Random without a seed uses the current UTC date,
+ * so the shuffle is stable across rooms and changes daily.
+ */
+export function parseSortParams(searchParams: URLSearchParams): SortParseResult {
+    const mode = searchParams.get("sort") || "default";
+    const order = searchParams.get("order") || "asc";
+    const seed = searchParams.get("seed");
+
+    if (!SORT_MODES.includes(mode as SortMode)) {
+        return { valid: false, error: `Sort parameter must be one of: ${SORT_MODES.join(", ")}` };
+    }
+
+    if (!SORT_ORDERS.includes(order as SortOrder)) {
+        return { valid: false, error: `Order parameter must be one of: ${SORT_ORDERS.join(", ")}` };
+    }
+
+    if (seed !== null && !SEED_PATTERN.test(seed)) {
+        return { valid: false, error: "Seed parameter must be 1-32 letters, digits, dashes or underscores" };
+    }
+
+    if (mode === "random") {
+        return { valid: true, sort: { mode, seed: seed ?? new Date().toISOString().slice(0, 10) } };
+    }
+
+    return { valid: true, sort: { mode: mode as SortMode, order: order as SortOrder } };
+}
+
+/**
+ * Whether a sort changes the gallery's natural order
+ */
+export function isCustomSort(sort?: GallerySort): sort is GallerySort {
+    return !!sort && sort.mode !== "default";
+}
+
+/**
+ * Cache key segment for a sort, e.g. `creator-asc` or `random-2025-07-08`
+ */
+export function sortKey(sort: GallerySort): string {
+    return sort.mode === "random" ? `random-${sort.seed ?? ""}` : `${sort.mode}-${sort.order ?? "asc"}`;
+}
+
+/**
+ * Timestamp of a date field (cached tokens carry dates as strings), undefined when missing
+ */
+function timeOf(value: Date | string | undefined): number | undefined {
+    if (!value) return undefined;
+    const time = new Date(value).getTime();
+    return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Artist a token is sorted and grouped under
+ */
+export function creatorOf(token: UnifiedToken): string | undefined {
+    const profile = token.metadata?.creatorProfiles?.[0];
+    return profile?.alias || profile?.domain || profile?.address || token.metadata?.creators?.[0] || undefined;
+}
+
+/**
+ * Edition count, undefined when the supply is unknown
+ */
+function editionsOf(token: UnifiedToken): number | undefined {
+    const supply = Number(token.metadata?.supply);
+    return Number.isFinite(supply) && supply > 0 ? supply : undefined;
+}
+
+/**
+ * 32-bit FNV-1a hash - a stable shuffle position for a token under a seed
+ */
+function hashOf(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let index = 0; index < value.length; index++) {
+        hash ^= value.charCodeAt(index);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+const collator = new Intl.Collator("en", { numeric: true, sensitivity: "base" });
+
+type Comparator = (a: UnifiedToken, b: UnifiedToken) => number;
+
+/**
+ * Compare an optional value - tokens without one always go last, whatever the direction
+ */
+function byValue<V extends number | string>(
+    valueOf: (token: UnifiedToken) => V | undefined,
+    direction: number
+): Comparator {
+    return (a, b) => {
+        const valueA = valueOf(a);
+        const valueB = valueOf(b);
+        if (valueA === undefined || valueB === undefined) {
+            return valueA === valueB ? 0 : valueA === undefined ? 1 : -1;
+        }
+        const compared =
+            typeof valueA === "string"
+                ? collator.compare(valueA, valueB as string)
+                : (valueA as number) - (valueB as number);
+        return compared * direction;
+    };
+}
+
+/**
+ * Stable fallback so equal tokens keep a fixed order: contract, then numeric token id
+ */
+const byTokenId: Comparator = (a, b) =>
+    a.contractAddress.localeCompare(b.contractAddress) || collator.compare(String(a.tokenId), String(b.tokenId));
+
+/**
+ * Order tokens for a sort (returns a new array; the default sort keeps the given order)
+ */
+export function sortTokens(tokens: UnifiedToken[], sort: GallerySort): UnifiedToken[] {
+    const direction = sort.order === "desc" ? -1 : 1;
+    let comparators: Comparator[];
+
+    switch (sort.mode) {
+        case "default":
+            return [...tokens];
+        case "acquisition":
+            comparators = [byValue((token) => timeOf(token.lastTransferAt) ?? timeOf(token.firstMintAt), direction)];
+            break;
+        case "mint":
+            comparators = [byValue((token) => timeOf(token.firstMintAt), direction)];
+            break;
+        case "creator":
+            comparators = [byValue(creatorOf, direction), byValue((token) => timeOf(token.firstMintAt), 1)];
+            break;
+        case "contract":
+            comparators = [byValue((token) => token.contractAlias || token.contractAddress, direction)];
+            break;
+        case "name":
+            comparators = [byValue((token) => token.metadata?.name?.trim() || undefined, direction)];
+            break;
+        case "editions":
+            comparators = [byValue(editionsOf, direction), byValue((token) => token.metadata?.name, 1)];
+            break;
+        case "random": {
+            const seed = sort.seed ?? "";
+            comparators = [byValue((token) => hashOf(`${seed}:${token.id}`), 1)];
+            break;
+        }
+    }
+
+    return [...tokens].sort(
+        (a, b) => comparators.reduce((result, compare) => result || compare(a, b), 0) || byTokenId(a, b)
+    );
+}